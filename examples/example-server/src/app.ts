@@ -9,8 +9,34 @@
  * SPDX-License-Identifier: EPL-2.0 OR MIT
  *******************************************************************************/
 
-import { createContainer, LogLevel, ModelServer } from '@eclipse-emfcloud/modelserver-node';
-import { ContainerModule } from 'inversify';
+import {
+    AuditOptions,
+    AuthenticationOptions,
+    AuthorizationOptions,
+    ConfigurationOptions,
+    createContainer,
+    DEFAULT_AUTHENTICATION_OPTIONS,
+    DEFAULT_CONFIGURATION_OPTIONS,
+    DEFAULT_HEALTH_OPTIONS,
+    DEFAULT_LOGGING_OPTIONS,
+    DEFAULT_PROVIDER_GUARD_OPTIONS,
+    EditQueueOptions,
+    HealthOptions,
+    isLogLevel,
+    loadPlugins,
+    LoggingOptions,
+    LogLevel,
+    ModelServer,
+    PluginConfiguration,
+    ProviderGuardOptions,
+    ShutdownOptions,
+    readPluginConfiguration,
+    TriggerOptions,
+    UpstreamConnection,
+    ValidationOptions
+} from '@eclipse-emfcloud/modelserver-node';
+import { Logger } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import * as fs from 'fs';
 import * as yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
 
@@ -27,11 +53,135 @@ import { hideBin } from 'yargs/helpers';
             type: 'number',
             description: 'Port on which to connect to the Upstream Model Server'
         })
+        .option('upstream-host', {
+            type: 'string',
+            default: 'localhost',
+            description: 'Host name of the Upstream Model Server'
+        })
+        .option('upstream-base-path', {
+            type: 'string',
+            description: 'Path prefix at which the Upstream Model Server is mounted on its host'
+        })
+        .option('upstream-secure', {
+            boolean: true,
+            description: 'Whether to connect to the Upstream Model Server with TLS (https and wss)'
+        })
+        .option('upstream-ca', {
+            type: 'string',
+            description: 'File containing PEM-encoded certificate authorities to trust for the Upstream Model Server'
+        })
+        .option('upstream-header', {
+            type: 'string',
+            array: true,
+            description: 'Additional "Name: value" header to send to the Upstream Model Server. May be repeated'
+        })
+        .option('edit-timeout', {
+            type: 'number',
+            description: 'Milliseconds that an edit waits for its turn to edit a model before it is rejected. Zero to wait indefinitely'
+        })
+        .option('max-trigger-depth', {
+            type: 'number',
+            description: 'Maximal number of rounds of triggers performed in committing an edit before it is rolled back'
+        })
+        .option('provider-timeout', {
+            type: 'number',
+            description:
+                'Milliseconds that a call into a command, trigger, or validation provider may take before it fails. Zero to wait indefinitely'
+        })
+        .option('provider-failure-threshold', {
+            type: 'number',
+            description:
+                'Number of consecutive failures after which a command, trigger, or validation provider is disabled. Zero never to disable'
+        })
+        .option('health-probe-interval', {
+            type: 'number',
+            description:
+                'Milliseconds between probes of the Upstream Model Server for the readiness of the Model Server. Zero not to probe periodically'
+        })
+        .option('shutdown-grace-period', {
+            type: 'number',
+            description:
+                'Milliseconds that shut-down waits for edits in progress before rolling back open transactions. Zero to wait indefinitely'
+        })
+        .option('veto-validation', {
+            type: 'string',
+            array: true,
+            description: 'Substring of the URIs of models whose edits are rolled back if they fail validation with errors. May be repeated'
+        })
+        .option('audit-file', {
+            type: 'string',
+            description: 'File in which to store the audit log of changes to models'
+        })
+        .option('auth-tokens', {
+            type: 'string',
+            description: 'JSON file mapping static API tokens, accepted as bearer tokens, to the IDs of the users that they authenticate'
+        })
+        .option('auth-jwt-key', {
+            type: 'string',
+            description: 'File containing the PEM public key or shared secret that verifies JSON Web Tokens accepted as bearer tokens'
+        })
+        .option('auth-jwt-issuer', {
+            type: 'string',
+            description: 'Issuer that JSON Web Tokens must declare'
+        })
+        .option('auth-jwt-audience', {
+            type: 'string',
+            description: 'Audience that JSON Web Tokens must include'
+        })
+        .option('access-rules', {
+            type: 'string',
+            description: 'JSON file with an array of rules granting access to models by model URI and user or role'
+        })
+        .option('admin-roles', {
+            type: 'string',
+            array: true,
+            description: 'Role of the users that may administer plug-ins, log levels, and extensions. May be repeated'
+        })
+        .option('config', {
+            type: 'string',
+            description: 'JSON configuration file with a section of settings for each plug-in, by plug-in ID'
+        })
+        .option('plugins', {
+            type: 'string',
+            array: true,
+            description: 'npm package name or directory of a plug-in to load in addition to those discovered. May be repeated'
+        })
+        .option('plugin-config', {
+            type: 'string',
+            description: 'JSON file configuring the plug-ins to load'
+        })
+        .option('disable-plugin', {
+            type: 'string',
+            array: true,
+            description: 'Name of a plug-in not to load. May be repeated'
+        })
         .option('verbose', {
             alias: 'v',
             boolean: true,
             description: 'Whether to log verbose debug messages'
         })
+        .option('log-format', {
+            choices: ['console', 'json'] as const,
+            default: 'console' as const,
+            description: 'Format of log output: human-readable lines or JSON lines'
+        })
+        .option('log-file', {
+            type: 'string',
+            description: 'File to which to write logs in addition to the console'
+        })
+        .option('log-max-size', {
+            type: 'number',
+            description: 'Size in bytes at which the log file is rotated'
+        })
+        .option('log-max-files', {
+            type: 'number',
+            description: 'Number of rotated log files to keep'
+        })
+        .option('logger-level', {
+            type: 'string',
+            array: true,
+            description: 'Log level of a logger, overriding the root level, as "<logger>=<level>". May be repeated'
+        })
         .version('0.1.0')
         .help()
         .strict().argv;
@@ -40,24 +190,118 @@ import { hideBin } from 'yargs/helpers';
     const upstream = args['upstream'];
     const verbosity: LogLevel = args.verbose ? 'debug' : 'info';
 
-    const modules = await loadModules();
-    const server = await createContainer(upstream, verbosity).then(container => {
-        container.load(...modules);
+    const upstreamConnection: UpstreamConnection = {
+        serverPort: upstream,
+        hostname: args['upstream-host'],
+        basePath: args['upstream-base-path'],
+        secure: args['upstream-secure'],
+        ca: args['upstream-ca'] ? fs.readFileSync(args['upstream-ca']) : undefined,
+        headers: parseHeaders(args['upstream-header'])
+    };
+
+    const pluginConfig: PluginConfiguration = args['plugin-config'] ? readPluginConfiguration(args['plugin-config']) : {};
+    const plugins = loadPlugins({
+        ...pluginConfig,
+        plugins: [...(pluginConfig.plugins ?? []), ...(args.plugins ?? [])],
+        disabled: [...(pluginConfig.disabled ?? []), ...(args['disable-plugin'] ?? [])]
+    });
+
+    const server = await createContainer(upstreamConnection, verbosity).then(container => {
+        // Configure logging before any logger is created
+        container.rebind(LoggingOptions).toConstantValue({
+            format: args['log-format'],
+            file: args['log-file'],
+            maxSize: args['log-max-size'] ?? DEFAULT_LOGGING_OPTIONS.maxSize,
+            maxFiles: args['log-max-files'] ?? DEFAULT_LOGGING_OPTIONS.maxFiles,
+            levels: parseLoggerLevels(args['logger-level'])
+        });
+
+        const logger = container.getNamed<Logger>(Logger, 'PluginLoader');
+        plugins.plugins.forEach(plugin => logger.info(`Loaded plug-in ${plugin.name} from ${plugin.location}.`));
+        plugins.failures.forEach(failure => logger.error(`Failed to load plug-in ${failure.name}: ${failure.error}`));
+
+        container.load(...plugins.plugins.map(plugin => plugin.module));
+        if (args['edit-timeout'] !== undefined) {
+            container.rebind(EditQueueOptions).toConstantValue({ timeout: args['edit-timeout'] });
+        }
+        if (args['max-trigger-depth'] !== undefined) {
+            container.rebind(TriggerOptions).toConstantValue({ maxDepth: args['max-trigger-depth'] });
+        }
+        if (args['provider-timeout'] !== undefined || args['provider-failure-threshold'] !== undefined) {
+            container.rebind(ProviderGuardOptions).toConstantValue({
+                timeout: args['provider-timeout'] ?? DEFAULT_PROVIDER_GUARD_OPTIONS.timeout,
+                failureThreshold: args['provider-failure-threshold'] ?? DEFAULT_PROVIDER_GUARD_OPTIONS.failureThreshold
+            });
+        }
+        if (args['health-probe-interval'] !== undefined) {
+            container.rebind(HealthOptions).toConstantValue({ ...DEFAULT_HEALTH_OPTIONS, probeInterval: args['health-probe-interval'] });
+        }
+        if (args['shutdown-grace-period'] !== undefined) {
+            container.rebind(ShutdownOptions).toConstantValue({ gracePeriod: args['shutdown-grace-period'] });
+        }
+        if (args['veto-validation']?.length) {
+            container.rebind(ValidationOptions).toConstantValue({ veto: args['veto-validation'].map(modelURI => ({ modelURI })) });
+        }
+        if (args['audit-file'] !== undefined) {
+            container.rebind(AuditOptions).toConstantValue({ file: args['audit-file'] });
+        }
+        if (args['auth-tokens'] !== undefined || args['auth-jwt-key'] !== undefined) {
+            container.rebind(AuthenticationOptions).toConstantValue({
+                ...DEFAULT_AUTHENTICATION_OPTIONS,
+                tokens: args['auth-tokens'] ? JSON.parse(fs.readFileSync(args['auth-tokens'], 'utf-8')) : undefined,
+                jwt: args['auth-jwt-key']
+                    ? { keyFile: args['auth-jwt-key'], issuer: args['auth-jwt-issuer'], audience: args['auth-jwt-audience'] }
+                    : undefined
+            });
+        }
+        if (args['access-rules'] !== undefined || args['admin-roles']?.length) {
+            container.rebind(AuthorizationOptions).toConstantValue({
+                rules: args['access-rules'] ? JSON.parse(fs.readFileSync(args['access-rules'], 'utf-8')) : [],
+                adminRoles: args['admin-roles']?.length ? args['admin-roles'] : undefined
+            });
+        }
+        if (args.config !== undefined) {
+            container.rebind(ConfigurationOptions).toConstantValue({ ...DEFAULT_CONFIGURATION_OPTIONS, file: args.config });
+        }
         return container.get(ModelServer);
     });
 
-    server.serve(port, upstream);
+    server.serve(port);
+
+    // Shut down gracefully when terminated
+    const shutDown = (): void => {
+        server.stop().then(
+            () => process.exit(0),
+            () => process.exit(1)
+        );
+    };
+    process.once('SIGTERM', shutDown);
+    process.once('SIGINT', shutDown);
 })();
 
-async function loadModules(): Promise<ContainerModule[]> {
-    const modules = [
-        require('@eclipse-emfcloud/coffee-custom-commands-example/lib/example-commands-module'),
-        require('@eclipse-emfcloud/coffee-custom-validators-example/lib/example-validators-module'),
-        require('@eclipse-emfcloud/coffee-triggers-example/lib/example-triggers-module'),
-        require('@eclipse-emfcloud/coffee-custom-routes-example/lib/example-routes-module'),
-        require('@eclipse-emfcloud/coffee-custom-middleware-example/lib/example-middleware-module')
-    ];
-
-    const result = modules.map(module => module.default);
-    return Promise.resolve(result);
+function parseLoggerLevels(levels?: string[]): Record<string, LogLevel> | undefined {
+    if (!levels?.length) {
+        return undefined;
+    }
+    return levels.reduce((acc, entry) => {
+        const [logger, level] = entry.split('=').map(part => part.trim());
+        if (!logger || !isLogLevel(level)) {
+            throw new Error(`Invalid logger level: ${entry}`);
+        }
+        acc[logger] = level;
+        return acc;
+    }, {} as Record<string, LogLevel>);
+}
+
+function parseHeaders(headers?: string[]): Record<string, string> | undefined {
+    if (!headers?.length) {
+        return undefined;
+    }
+    return headers.reduce((acc, header) => {
+        const colon = header.indexOf(':');
+        if (colon > 0) {
+            acc[header.substring(0, colon).trim()] = header.substring(colon + 1).trim();
+        }
+        return acc;
+    }, {} as Record<string, string>);
 }
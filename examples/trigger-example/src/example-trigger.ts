@@ -35,7 +35,10 @@ export class ExampleTriggerPlugin implements ModelServerPlugin {
     protected modelServerClient: ModelServerClientApi;
 
     initialize(context: ModelServerPluginContext): MaybePromise<boolean> {
-        context.registerTriggerProvider(new IncrementDurationTriggerProvider(this.modelServerClient, this.logger));
+        context.registerTriggerProvider(new IncrementDurationTriggerProvider(this.modelServerClient, this.logger), {
+            modelURI: /\.coffee$/,
+            path: /\/duration$/
+        });
         this.logger.info('Registered example round durations trigger provider.');
         return true;
     }
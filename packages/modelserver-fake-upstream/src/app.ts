@@ -0,0 +1,50 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yargs from 'yargs';
+import { hideBin } from 'yargs/helpers';
+
+import { FakeUpstreamServer } from './fake-upstream-server';
+import { JsonObject } from './model-store';
+
+(async () => {
+    const args = await yargs(hideBin(process.argv))
+        .option('port', {
+            alias: 'p',
+            type: 'number',
+            default: 8081,
+            description: 'Port on which to listen for requests'
+        })
+        .option('models', {
+            alias: 'm',
+            type: 'string',
+            description: 'Directory from which to load initial models, in json-v2 format, keyed by file name'
+        })
+        .version('0.1.0')
+        .help()
+        .strict().argv;
+
+    const server = new FakeUpstreamServer(loadModels(args.models));
+    await server.start(args.port);
+    console.log(`Fake Upstream Model Server listening on port ${args.port}.`);
+})();
+
+function loadModels(directory?: string): Record<string, JsonObject> {
+    const result: Record<string, JsonObject> = {};
+    if (directory) {
+        fs.readdirSync(directory)
+            .filter(file => fs.statSync(path.join(directory, file)).isFile())
+            .forEach(file => (result[file] = JSON.parse(fs.readFileSync(path.join(directory, file), 'utf-8'))));
+    }
+    return result;
+}
@@ -0,0 +1,453 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import * as express from 'express';
+import { Request, Response } from 'express';
+import * as expressWS from 'express-ws';
+import { Operation } from 'fast-json-patch';
+import * as http from 'http';
+import * as WebSocket from 'ws';
+
+import { EditResult, isObject, JsonObject, ModelStore } from './model-store';
+import { TransactionManager } from './transactions';
+
+/** The API route prefix matching both versions of the _Model Server_ API. */
+const API = '/api/:version(v1|v2)';
+
+/** The JSON formats supported by the fake server. */
+type Format = 'json' | 'json-v2';
+
+/**
+ * A client subscribed to notifications of changes in a model.
+ */
+interface Subscriber {
+    socket: WebSocket;
+    format: Format;
+}
+
+/**
+ * Error thrown by request handlers to respond with a particular HTTP status.
+ */
+class RequestError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * A light-weight, in-process stand-in for the Java _Upstream Model Server_, serving
+ * models from memory. It implements enough of the REST, subscription, and transaction
+ * APIs of the _Model Server_ to support tests and local development of the _Model Server_
+ * (node.js) and its plug-ins without a JVM.
+ *
+ * Notable simplifications:
+ *
+ * - model URIs are not resolved against a workspace: they are used as given
+ * - the only supported formats are `json` and `json-v2`
+ * - validation always reports an OK diagnostic
+ * - subscribers in the `json` format receive full updates instead of incremental updates
+ */
+export class FakeUpstreamServer {
+    readonly store: ModelStore;
+
+    protected readonly subscribers: Map<string, Set<Subscriber>> = new Map();
+    protected readonly transactions: TransactionManager;
+    protected readonly sockets: Set<WebSocket> = new Set();
+
+    protected server?: http.Server;
+    protected port?: number;
+
+    /**
+     * Initialize me with optional initial models.
+     *
+     * @param models a mapping of model URI to `json-v2` model content
+     */
+    constructor(models: Record<string, JsonObject> = {}) {
+        this.store = new ModelStore(models);
+        this.transactions = new TransactionManager(this.store, (modeluri, patch) => this.notifyChanged(modeluri, patch));
+    }
+
+    /**
+     * Start serving on the given TCP `port`.
+     *
+     * @param port the TCP port on which to listen
+     * @returns a promise that resolves when the server is listening
+     */
+    start(port: number): Promise<void> {
+        const { app } = expressWS(express());
+        app.use(express.json({ limit: '10mb' }));
+        this.configureRoutes(app);
+
+        return new Promise((resolve, reject) => {
+            const server = app.listen(port, () => {
+                this.server = server;
+                this.port = port;
+                resolve();
+            });
+            server.once('error', reject);
+        });
+    }
+
+    /**
+     * Stop the server, disconnecting all subscribers and rolling back open transactions.
+     *
+     * @returns a promise that resolves when the server is stopped
+     */
+    stop(): Promise<void> {
+        this.transactions.dispose();
+        this.sockets.forEach(socket => socket.close(1001, 'Server stopping.'));
+        this.sockets.clear();
+        this.subscribers.clear();
+
+        return new Promise((resolve, reject) => {
+            if (!this.server) {
+                resolve();
+                return;
+            }
+            this.server.close(err => (err ? reject(err) : resolve()));
+            this.server = undefined;
+        });
+    }
+
+    protected configureRoutes(app: expressWS.Application): void {
+        app.get(`${API}/server/ping`, (req, res) => success(res, true));
+        app.put(`${API}/server/configure`, (req, res) => success(res, true));
+
+        app.get(`${API}/modeluris`, (req, res) => success(res, this.store.getModelURIs()));
+        app.get(`${API}/models`, this.handler(this.getModels));
+        app.post(`${API}/models`, this.handler(this.createModel));
+        app.put(`${API}/models`, this.handler(this.updateModel));
+        app.patch(`${API}/models`, this.handler(this.editModel));
+        app.delete(`${API}/models`, this.handler(this.deleteModel));
+        app.get(`${API}/modelelement`, this.handler(this.getElement));
+
+        app.post(`${API}/close`, this.handler(this.closeModel));
+        app.get(`${API}/save`, this.handler(this.saveModel));
+        app.get(`${API}/saveall`, this.handler(this.saveAll));
+        app.get(`${API}/undo`, this.handler(this.undo));
+        app.get(`${API}/redo`, this.handler(this.redo));
+
+        app.get(`${API}/validation`, this.handler(this.validate));
+        app.get(`${API}/validation/constraints`, (req, res) => success(res, JSON.stringify({})));
+        app.get(`${API}/typeschema`, (req, res) => success(res, JSON.stringify({})));
+        app.get(`${API}/uischema`, (req, res) => success(res, JSON.stringify({})));
+
+        app.post(`${API}/transaction`, this.handler(this.openTransaction));
+        app.ws(`${API}/transaction/:id`, (ws, req) => {
+            this.track(ws);
+            this.transactions.connect(req.params.id, ws);
+        });
+        app.ws(`${API}/subscribe`, (ws, req) => this.subscribe(ws, req));
+    }
+
+    /**
+     * Wrap a request handler method to bind it and to map exceptions to error responses.
+     */
+    protected handler(method: (req: Request, res: Response) => void): express.RequestHandler {
+        return (req, res) => {
+            try {
+                method.call(this, req, res);
+            } catch (error) {
+                const status = error instanceof RequestError ? error.status : 400;
+                res.status(status).json({ type: 'error', data: error.message ?? String(error) });
+            }
+        };
+    }
+
+    //
+    // Model CRUD
+    //
+
+    protected getModels(req: Request, res: Response): void {
+        const format = formatOf(req);
+        if (req.query.modeluri === undefined) {
+            const result: JsonObject = {};
+            this.store.getModelURIs().forEach(uri => (result[uri] = encode(this.store.get(uri), format)));
+            success(res, result);
+        } else {
+            const modeluri = this.requireModel(req);
+            success(res, encode(this.store.get(modeluri), format));
+        }
+    }
+
+    protected createModel(req: Request, res: Response): void {
+        const modeluri = modelURIOf(req);
+        if (this.store.has(modeluri)) {
+            throw new RequestError(409, `Model ${modeluri} already exists.`);
+        }
+        const created = this.store.create(modeluri, decode(req.body?.data));
+        success(res, encode(created, formatOf(req)));
+    }
+
+    protected updateModel(req: Request, res: Response): void {
+        const modeluri = this.requireUnlockedModel(req);
+        this.store.update(modeluri, decode(req.body?.data));
+        this.notifyReplaced(modeluri);
+        success(res, encode(this.store.get(modeluri), formatOf(req)));
+    }
+
+    protected editModel(req: Request, res: Response): void {
+        const modeluri = this.requireUnlockedModel(req);
+        const body = decode(req.body?.data);
+        let result: EditResult;
+        switch (body?.type) {
+            case 'modelserver.patch':
+                result = this.store.applyPatch(modeluri, body.data);
+                break;
+            case 'modelserver.emfcommand':
+                result = this.store.execute(modeluri, body.data);
+                break;
+            default:
+                throw new RequestError(400, `Unsupported edit type: ${body?.type}`);
+        }
+        this.notifyChanged(modeluri, result.patch);
+        success(res, result);
+    }
+
+    protected deleteModel(req: Request, res: Response): void {
+        const modeluri = this.requireUnlockedModel(req);
+        this.store.delete(modeluri);
+        // eslint-disable-next-line no-null/no-null
+        this.broadcast(modeluri, () => ({ type: 'fullUpdate', data: null }));
+        success(res, true);
+    }
+
+    protected getElement(req: Request, res: Response): void {
+        const modeluri = this.requireModel(req);
+        const query = { id: req.query.elementid as string, name: req.query.elementname as string };
+        const element = this.store.getElement(modeluri, query);
+        if (!element) {
+            throw new RequestError(404, `No such element in ${modeluri}: ${query.id ?? query.name}`);
+        }
+        success(res, encode(element, formatOf(req)));
+    }
+
+    //
+    // Resource and command-stack management
+    //
+
+    protected closeModel(req: Request, res: Response): void {
+        const modeluri = this.requireUnlockedModel(req);
+        const content = this.store.close(modeluri);
+        this.broadcast(modeluri, sub => ({ type: 'fullUpdate', data: content && encode(content, sub.format) }));
+        this.notifyDirtyState(modeluri);
+        success(res, true);
+    }
+
+    protected saveModel(req: Request, res: Response): void {
+        const modeluri = this.requireModel(req);
+        this.store.save(modeluri);
+        this.notifyDirtyState(modeluri);
+        success(res, true);
+    }
+
+    protected saveAll(req: Request, res: Response): void {
+        this.store.getModelURIs().forEach(modeluri => {
+            this.store.save(modeluri);
+            this.notifyDirtyState(modeluri);
+        });
+        success(res, true);
+    }
+
+    protected undo(req: Request, res: Response): void {
+        const modeluri = this.requireUnlockedModel(req);
+        this.respondUndoRedo(res, modeluri, this.store.undo(modeluri), 'undo');
+    }
+
+    protected redo(req: Request, res: Response): void {
+        const modeluri = this.requireUnlockedModel(req);
+        this.respondUndoRedo(res, modeluri, this.store.redo(modeluri), 'redo');
+    }
+
+    protected respondUndoRedo(res: Response, modeluri: string, result: EditResult | undefined, what: string): void {
+        if (!result) {
+            success(res, `Cannot ${what}`);
+            return;
+        }
+        this.notifyChanged(modeluri, result.patch);
+        success(res, result);
+    }
+
+    protected validate(req: Request, res: Response): void {
+        const modeluri = this.requireModel(req);
+        success(res, {
+            severity: 0,
+            source: 'org.eclipse.emf.ecore',
+            code: 0,
+            message: `Diagnosis of ${modeluri}`,
+            data: [],
+            children: [],
+            id: '/'
+        });
+    }
+
+    //
+    // Transactions
+    //
+
+    protected openTransaction(req: Request, res: Response): void {
+        const modeluri = this.requireModel(req);
+        if (this.transactions.isOpen(modeluri)) {
+            throw new RequestError(409, `A transaction is already open on ${modeluri}.`);
+        }
+        const id = this.transactions.open(modeluri);
+        const uri = `http://${req.hostname}:${this.port}/api/${req.params.version}/transaction/${id}`;
+        success(res, { uri });
+    }
+
+    //
+    // Subscriptions
+    //
+
+    protected subscribe(socket: WebSocket, req: Request): void {
+        const modeluri = req.query.modeluri;
+        if (typeof modeluri !== 'string' || !modeluri) {
+            socket.close(1008, 'Missing model URI.');
+            return;
+        }
+        const subscriber: Subscriber = { socket, format: req.query.format === 'json' || req.params.version === 'v1' ? 'json' : 'json-v2' };
+
+        this.track(socket);
+        let subscribers = this.subscribers.get(modeluri);
+        if (!subscribers) {
+            subscribers = new Set();
+            this.subscribers.set(modeluri, subscribers);
+        }
+        subscribers.add(subscriber);
+
+        socket.on('close', () => subscribers.delete(subscriber));
+        socket.on('message', data => {
+            try {
+                const message = JSON.parse(data.toString());
+                if (message?.type === 'keepAlive') {
+                    socket.send(JSON.stringify({ type: 'keepAlive', data: 'ok' }));
+                }
+            } catch (error) {
+                // Not a message that we understand. Ignore it
+            }
+        });
+
+        socket.send(JSON.stringify({ type: 'success', data: `Subscribed to ${modeluri}` }));
+        if (this.store.has(modeluri)) {
+            // Let the subscriber know where it stands
+            socket.send(JSON.stringify({ type: 'dirtyState', data: this.store.isDirty(modeluri), modeluri }));
+        }
+    }
+
+    protected track(socket: WebSocket): void {
+        this.sockets.add(socket);
+        socket.on('close', () => this.sockets.delete(socket));
+    }
+
+    /** Notify subscribers of incremental changes in a model. */
+    protected notifyChanged(modeluri: string, patch: Operation[]): void {
+        this.broadcast(modeluri, sub =>
+            sub.format === 'json-v2'
+                ? { type: 'incrementalUpdate', data: patch }
+                : { type: 'fullUpdate', data: encode(this.store.get(modeluri), sub.format) }
+        );
+        this.notifyDirtyState(modeluri);
+    }
+
+    /** Notify subscribers of wholesale replacement of a model. */
+    protected notifyReplaced(modeluri: string): void {
+        this.broadcast(modeluri, sub => ({ type: 'fullUpdate', data: encode(this.store.get(modeluri), sub.format) }));
+        this.notifyDirtyState(modeluri);
+    }
+
+    protected notifyDirtyState(modeluri: string): void {
+        const dirty = this.store.isDirty(modeluri);
+        this.broadcast(modeluri, () => ({ type: 'dirtyState', data: dirty }));
+    }
+
+    protected broadcast(modeluri: string, messageFactory: (subscriber: Subscriber) => JsonObject): void {
+        this.subscribers.get(modeluri)?.forEach(sub => {
+            if (sub.socket.readyState === WebSocket.OPEN) {
+                sub.socket.send(JSON.stringify({ ...messageFactory(sub), modeluri }));
+            }
+        });
+    }
+
+    //
+    // Request parameters
+    //
+
+    protected requireModel(req: Request): string {
+        const modeluri = modelURIOf(req);
+        if (!this.store.has(modeluri)) {
+            throw new RequestError(404, `No such model: ${modeluri}`);
+        }
+        return modeluri;
+    }
+
+    /** Require a model that exists and that is not locked for editing by an open transaction. */
+    protected requireUnlockedModel(req: Request): string {
+        const modeluri = this.requireModel(req);
+        if (this.transactions.isOpen(modeluri)) {
+            throw new RequestError(409, `Model ${modeluri} is locked by an open transaction.`);
+        }
+        return modeluri;
+    }
+}
+
+function success(res: Response, data: unknown): void {
+    res.json({ type: 'success', data });
+}
+
+function modelURIOf(req: Request): string {
+    const modeluri = req.query.modeluri;
+    if (typeof modeluri !== 'string' || !modeluri) {
+        throw new RequestError(400, 'Missing model URI.');
+    }
+    return modeluri;
+}
+
+function formatOf(req: Request): Format {
+    const format = req.query.format ?? (req.params.version === 'v1' ? 'json' : 'json-v2');
+    if (format !== 'json' && format !== 'json-v2') {
+        throw new RequestError(400, `Unsupported format: ${format}`);
+    }
+    return format;
+}
+
+/** Decode a request payload, which may be either JSON text or already parsed. */
+function decode(data: unknown): JsonObject {
+    const result = typeof data === 'string' ? JSON.parse(data) : data;
+    if (!isObject(result)) {
+        throw new RequestError(400, 'Missing or invalid request payload.');
+    }
+    return result;
+}
+
+/** Encode model content in the requested format. */
+function encode(content: JsonObject, format: Format): JsonObject {
+    if (format === 'json-v2') {
+        return content;
+    }
+
+    const convert = (value: unknown): unknown => {
+        if (Array.isArray(value)) {
+            return value.map(convert);
+        }
+        if (!isObject(value)) {
+            return value;
+        }
+        const result: JsonObject = {};
+        Object.entries(value).forEach(([key, v]) => {
+            if (key === '$type') {
+                result.eClass = v;
+            } else if (key !== '$id') {
+                result[key] = convert(v);
+            }
+        });
+        return result;
+    };
+    return convert(content) as JsonObject;
+}
@@ -0,0 +1,592 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import { ModelPatch } from '@eclipse-emfcloud/modelserver-client';
+import { applyOperation, compare, deepClone, getValueByPointer, Operation } from 'fast-json-patch';
+
+/** A JSON object in the content of a model. */
+export type JsonObject = Record<string, any>;
+
+/**
+ * The outcome of an edit applied to a model in the store.
+ */
+export interface EditResult {
+    /** The normalized JSON Patch describing the changes actually performed on the model. */
+    patch: Operation[];
+    /** The same patch, keyed by the model URI as the _Upstream Model Server_ reports it. */
+    allPatches: ModelPatch[];
+}
+
+/**
+ * A snapshot-based entry on the command stack of a model.
+ */
+interface StackEntry {
+    before: JsonObject;
+    after: JsonObject;
+}
+
+/**
+ * The state of a model managed by the store.
+ */
+interface ModelState {
+    /** The current (possibly dirty) content of the model. */
+    content: JsonObject;
+    /** The content of the model as it was last saved. */
+    saved: JsonObject;
+    undoStack: StackEntry[];
+    redoStack: StackEntry[];
+}
+
+/** The kinds of primitive commands that the store knows how to execute. */
+type CommandKind = 'set' | 'add' | 'remove' | 'compound';
+
+/**
+ * An in-memory store of `json-v2` models emulating the EMF resource management of the
+ * _Upstream Model Server_: it assigns EMF URI fragment `$id`s to contained objects, resolves
+ * both JSON Pointer and `modeluri#fragment` paths in patches, executes the primitive
+ * commands, and maintains an undo/redo command stack per model.
+ */
+export class ModelStore {
+    protected readonly models: Map<string, ModelState> = new Map();
+
+    /**
+     * Initialize me with optional initial models.
+     *
+     * @param initialModels a mapping of model URI to `json-v2` model content
+     */
+    constructor(initialModels: Record<string, JsonObject> = {}) {
+        Object.entries(initialModels).forEach(([modeluri, content]) => this.load(modeluri, content));
+    }
+
+    /**
+     * Load a model into the store as saved (not dirty) state, replacing any model previously
+     * stored under the same URI.
+     *
+     * @param modeluri the model URI
+     * @param content the `json-v2` content of the model
+     */
+    load(modeluri: string, content: JsonObject): void {
+        const initial = assignIds(stripIds(deepClone(content)));
+        this.models.set(modeluri, { content: deepClone(initial), saved: initial, undoStack: [], redoStack: [] });
+    }
+
+    /** Query the URIs of all models in the store. */
+    getModelURIs(): string[] {
+        return Array.from(this.models.keys());
+    }
+
+    has(modeluri: string): boolean {
+        return this.models.has(modeluri);
+    }
+
+    /**
+     * Get a copy of the current content of a model.
+     *
+     * @param modeluri the model URI
+     * @returns the model content, or `undefined` if there is no such model
+     */
+    get(modeluri: string): JsonObject | undefined {
+        const state = this.models.get(modeluri);
+        return state ? deepClone(state.content) : undefined;
+    }
+
+    /**
+     * Find an element of a model by its `$id` (EMF URI fragment) or by its `name`.
+     *
+     * @param modeluri the model URI
+     * @param query the element ID or name to look for
+     * @returns a copy of the element, or `undefined` if not found
+     */
+    getElement(modeluri: string, query: { id?: string; name?: string }): JsonObject | undefined {
+        const content = this.models.get(modeluri)?.content;
+        if (!content) {
+            return undefined;
+        }
+        if (query.id !== undefined) {
+            const found = resolve(content, toPointer(query.id));
+            return found ? deepClone(found) : undefined;
+        }
+        const byName = findObject(content, obj => obj.name === query.name);
+        return byName ? deepClone(byName) : undefined;
+    }
+
+    /**
+     * Create a new model.
+     *
+     * @param modeluri the URI of the model to create
+     * @param content its initial content
+     * @throws if the model already exists
+     */
+    create(modeluri: string, content: JsonObject): JsonObject {
+        if (this.models.has(modeluri)) {
+            throw new Error(`Model ${modeluri} already exists.`);
+        }
+        const initial = assignIds(stripIds(deepClone(content)));
+        // A new model is not yet persistent, so it is dirty until saved
+        this.models.set(modeluri, { content: initial, saved: undefined, undoStack: [], redoStack: [] });
+        return deepClone(initial);
+    }
+
+    /**
+     * Replace the content of a model as an undoable change.
+     *
+     * @param modeluri the URI of the model to update
+     * @param content its new content
+     * @returns the resulting changes
+     */
+    update(modeluri: string, content: JsonObject): EditResult {
+        return this.change(modeluri, () => assignIds(stripIds(deepClone(content))));
+    }
+
+    delete(modeluri: string): boolean {
+        return this.models.delete(modeluri);
+    }
+
+    /**
+     * Discard unsaved changes in a model, restoring its last saved state.
+     *
+     * @param modeluri the URI of the model to close
+     * @returns the restored content, or `undefined` if the model was never saved (and so is forgotten)
+     */
+    close(modeluri: string): JsonObject | undefined {
+        const state = this.requireModel(modeluri);
+        if (!state.saved) {
+            this.models.delete(modeluri);
+            return undefined;
+        }
+        this.models.set(modeluri, { content: deepClone(state.saved), saved: state.saved, undoStack: [], redoStack: [] });
+        return deepClone(state.saved);
+    }
+
+    save(modeluri: string): void {
+        const state = this.requireModel(modeluri);
+        state.saved = deepClone(state.content);
+    }
+
+    isDirty(modeluri: string): boolean {
+        const state = this.models.get(modeluri);
+        return !!state && (!state.saved || compare(state.saved, state.content).length > 0);
+    }
+
+    /**
+     * Apply a JSON Patch to a model as one undoable change.
+     *
+     * @param modeluri the URI of the model to edit
+     * @param patch the patch to apply
+     * @returns the resulting changes
+     */
+    applyPatch(modeluri: string, patch: Operation | Operation[]): EditResult {
+        const ops = Array.isArray(patch) ? patch : [patch];
+        return this.edit(modeluri, content => ops.flatMap(op => applyNormalized(content, modeluri, op)));
+    }
+
+    /**
+     * Execute a primitive or compound command on a model as one undoable change.
+     *
+     * @param modeluri the URI of the model to edit
+     * @param command the command to execute, in either `json` or `json-v2` format
+     * @returns the resulting changes
+     */
+    execute(modeluri: string, command: JsonObject): EditResult {
+        return this.edit(modeluri, content => executeCommand(content, command));
+    }
+
+    undo(modeluri: string): EditResult | undefined {
+        const state = this.requireModel(modeluri);
+        const entry = state.undoStack.pop();
+        if (!entry) {
+            return undefined;
+        }
+        state.redoStack.push(entry);
+        state.content = deepClone(entry.before);
+        return this.result(modeluri, compare(entry.after, entry.before));
+    }
+
+    redo(modeluri: string): EditResult | undefined {
+        const state = this.requireModel(modeluri);
+        const entry = state.redoStack.pop();
+        if (!entry) {
+            return undefined;
+        }
+        state.undoStack.push(entry);
+        state.content = deepClone(entry.after);
+        return this.result(modeluri, compare(entry.before, entry.after));
+    }
+
+    /**
+     * Capture the current state of a model, for example at the start of a transaction.
+     *
+     * @param modeluri the model URI
+     * @returns a snapshot of the model content
+     */
+    snapshot(modeluri: string): JsonObject {
+        return deepClone(this.requireModel(modeluri).content);
+    }
+
+    /**
+     * Apply a JSON Patch or execute a command on a model _without_ recording anything on the
+     * command stack. This is how a transaction accumulates changes until they are committed
+     * (as a whole) by {@link commit} or discarded by {@link restore}.
+     */
+    applyTransient(modeluri: string, patchOrCommand: Operation | Operation[] | JsonObject, isCommand: boolean): EditResult {
+        const state = this.requireModel(modeluri);
+        const patch = isCommand
+            ? executeCommand(state.content, patchOrCommand as JsonObject)
+            : asArray(patchOrCommand as Operation | Operation[]).flatMap(op => applyNormalized(state.content, modeluri, op));
+        assignIds(state.content);
+        return this.result(modeluri, withIds(state.content, patch));
+    }
+
+    /**
+     * Record all changes since a `snapshot` as one undoable change.
+     *
+     * @param modeluri the model URI
+     * @param snapshot the state of the model before the changes
+     */
+    commit(modeluri: string, snapshot: JsonObject): void {
+        const state = this.requireModel(modeluri);
+        state.undoStack.push({ before: snapshot, after: deepClone(state.content) });
+        state.redoStack = [];
+    }
+
+    /**
+     * Discard all changes since a `snapshot`.
+     *
+     * @param modeluri the model URI
+     * @param snapshot the state of the model to restore
+     */
+    restore(modeluri: string, snapshot: JsonObject): void {
+        const state = this.models.get(modeluri);
+        if (state) {
+            state.content = deepClone(snapshot);
+        }
+    }
+
+    protected edit(modeluri: string, editor: (content: JsonObject) => Operation[]): EditResult {
+        const state = this.requireModel(modeluri);
+        const before = deepClone(state.content);
+        let patch: Operation[];
+        try {
+            patch = editor(state.content);
+        } catch (error) {
+            // Edits are atomic
+            state.content = before;
+            throw error;
+        }
+        assignIds(state.content);
+        state.undoStack.push({ before, after: deepClone(state.content) });
+        state.redoStack = [];
+        return this.result(modeluri, withIds(state.content, patch));
+    }
+
+    protected change(modeluri: string, replacer: (content: JsonObject) => JsonObject): EditResult {
+        const state = this.requireModel(modeluri);
+        const before = state.content;
+        state.content = replacer(before);
+        state.undoStack.push({ before: deepClone(before), after: deepClone(state.content) });
+        state.redoStack = [];
+        return this.result(modeluri, compare(before, state.content));
+    }
+
+    protected result(modeluri: string, patch: Operation[]): EditResult {
+        return { patch, allPatches: [{ modelUri: modeluri, patch }] };
+    }
+
+    protected requireModel(modeluri: string): ModelState {
+        const result = this.models.get(modeluri);
+        if (!result) {
+            throw new Error(`No such model: ${modeluri}`);
+        }
+        return result;
+    }
+}
+
+//
+// Paths and IDs
+//
+
+/**
+ * Convert a path in a JSON Patch or a reference to a JSON Pointer into the model content.
+ * Supported are plain JSON Pointers, bare EMF URI fragments such as `//@workflows.0/@nodes.1`,
+ * and _Model Server_ paths such as `SuperBrewer3000.coffee#//@workflows.0/name`.
+ *
+ * @param path a path or reference
+ * @returns the equivalent JSON Pointer
+ */
+export function toPointer(path: string): string {
+    const hash = path.indexOf('#');
+    const fragment = hash >= 0 ? path.substring(hash + 1) : path;
+    if (!fragment.startsWith('//') && fragment !== '/') {
+        // It's already a JSON Pointer
+        return fragment;
+    }
+
+    return fragment
+        .substring(2)
+        .split('/')
+        .filter(segment => segment.length > 0)
+        .map(segment => {
+            if (!segment.startsWith('@')) {
+                // A property of the object addressed so far
+                return `/${segment}`;
+            }
+            const [feature, index] = segment.substring(1).split('.');
+            return index === undefined ? `/${feature}` : `/${feature}/${index}`;
+        })
+        .join('');
+}
+
+export function isObject(value: unknown): value is JsonObject {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** Query whether a value is a contained model object (as opposed to a data value or cross-reference). */
+function isContained(value: unknown): value is JsonObject {
+    return isObject(value) && typeof value.$type === 'string' && !('$ref' in value);
+}
+
+/**
+ * Assign EMF URI fragment `$id`s to all objects in a model, in place.
+ *
+ * @param root the root object of the model
+ * @returns the `root`
+ */
+export function assignIds(root: JsonObject): JsonObject {
+    const visit = (object: JsonObject, id: string, path: string): void => {
+        object.$id = id;
+        const prefix = path === '' ? '//' : `${id}/`;
+        Object.entries(object).forEach(([feature, value]) => {
+            if (Array.isArray(value)) {
+                value.forEach((item, index) => {
+                    if (isContained(item)) {
+                        visit(item, `${prefix}@${feature}.${index}`, `${path}/${feature}/${index}`);
+                    }
+                });
+            } else if (isContained(value)) {
+                visit(value, `${prefix}@${feature}`, `${path}/${feature}`);
+            }
+        });
+    };
+
+    visit(root, '/', '');
+    return root;
+}
+
+/** Remove `$id`s from an object graph, in place, to prepare it for (re-)assignment of IDs. */
+function stripIds<T>(value: T): T {
+    const object: unknown = value;
+    if (Array.isArray(object)) {
+        object.forEach(stripIds);
+    } else if (isObject(object)) {
+        delete object.$id;
+        Object.values(object).forEach(stripIds);
+    }
+    return value;
+}
+
+function resolve(content: JsonObject, pointer: string): any {
+    try {
+        return pointer === '' ? content : getValueByPointer(content, pointer);
+    } catch (error) {
+        return undefined;
+    }
+}
+
+function findObject(root: unknown, predicate: (object: JsonObject) => boolean): JsonObject | undefined {
+    if (Array.isArray(root)) {
+        for (const item of root) {
+            const result = findObject(item, predicate);
+            if (result) {
+                return result;
+            }
+        }
+    } else if (isObject(root)) {
+        return predicate(root) ? root : findObject(Object.values(root), predicate);
+    }
+    return undefined;
+}
+
+/** Refresh the values of add/replace operations from the model so that they reflect assigned `$id`s. */
+function withIds(content: JsonObject, patch: Operation[]): Operation[] {
+    return patch.map(op => {
+        if ((op.op === 'add' || op.op === 'replace') && isObject(op.value)) {
+            const pointer = op.path.endsWith('/-') ? appendedPointer(content, op.path) : op.path;
+            const actual = resolve(content, pointer);
+            return actual === undefined ? op : { ...op, value: deepClone(actual) };
+        }
+        return op;
+    });
+}
+
+function appendedPointer(content: JsonObject, path: string): string {
+    const listPointer = path.substring(0, path.length - 2);
+    const list = resolve(content, listPointer);
+    return Array.isArray(list) ? `${listPointer}/${list.length - 1}` : path;
+}
+
+function asArray<T>(value: T | T[]): T[] {
+    return Array.isArray(value) ? value : [value];
+}
+
+//
+// Patches
+//
+
+/**
+ * Apply a JSON Patch operation to the model `content`, reporting it in normalized form the
+ * way that the _Upstream Model Server_ does: JSON Pointer paths, appends to lists as `/-`,
+ * and `add` rather than `replace` for a property that was not previously set.
+ */
+function applyNormalized(content: JsonObject, modeluri: string, operation: Operation): Operation[] {
+    const op = { ...operation, path: toPointer(operation.path) } as Operation;
+    if ('from' in op) {
+        op.from = toPointer(op.from);
+    }
+    if ('value' in op) {
+        op.value = stripIds(deepClone(op.value));
+    }
+
+    const { parent, key } = parentOf(content, op.path);
+    switch (op.op) {
+        case 'add':
+        case 'replace': {
+            if (Array.isArray(parent) && (key === '-' || /^\d+$/.test(key))) {
+                if (op.op === 'add' || key === '-') {
+                    key === '-' ? parent.push(op.value) : parent.splice(Number(key), 0, op.value);
+                    return [{ op: 'add', path: op.path, value: op.value }];
+                }
+                parent[Number(key)] = op.value;
+                return [op];
+            }
+            if (op.op === 'add' && Array.isArray(parent[key]) && !Array.isArray(op.value)) {
+                // Adding a value to a multi-valued feature appends it
+                parent[key].push(op.value);
+                return [{ op: 'add', path: `${op.path}/-`, value: op.value }];
+            }
+            const existed = key in parent;
+            parent[key] = op.value;
+            return [{ op: existed ? 'replace' : 'add', path: op.path, value: op.value }];
+        }
+        case 'remove': {
+            if (Array.isArray(parent)) {
+                parent.splice(Number(key), 1);
+            } else {
+                delete parent[key];
+            }
+            return [op];
+        }
+        default:
+            applyOperation(content, op);
+            return [op];
+    }
+}
+
+function parentOf(content: JsonObject, pointer: string): { parent: any; key: string } {
+    const lastSlash = pointer.lastIndexOf('/');
+    if (lastSlash < 0) {
+        throw new Error(`Invalid path: ${pointer}`);
+    }
+    const parent = resolve(content, pointer.substring(0, lastSlash));
+    if (typeof parent !== 'object' || !parent) {
+        throw new Error(`No such object: ${pointer.substring(0, lastSlash) || '/'}`);
+    }
+    const key = pointer
+        .substring(lastSlash + 1)
+        .replace(/~1/g, '/')
+        .replace(/~0/g, '~');
+    return { parent, key };
+}
+
+//
+// Commands
+//
+
+function commandKind(command: JsonObject): CommandKind {
+    const eClass: string = command.eClass ?? command.$type ?? '';
+    if (eClass.endsWith('#//CompoundCommand') && command.type === 'compound') {
+        return 'compound';
+    }
+    switch (command.type) {
+        case 'set':
+        case 'add':
+        case 'remove':
+            return command.type;
+        default:
+            throw new Error(`Unsupported command type: ${command.type}`);
+    }
+}
+
+/** Ensure that objects to add to the model are in `json-v2` format. */
+function asModelObject(object: JsonObject): JsonObject {
+    const result = deepClone(object);
+    const convert = (value: unknown): void => {
+        if (Array.isArray(value)) {
+            value.forEach(convert);
+        } else if (isObject(value)) {
+            if ('eClass' in value) {
+                value.$type = value.eClass;
+                delete value.eClass;
+            }
+            Object.values(value).forEach(convert);
+        }
+    };
+    convert(result);
+    return stripIds(result);
+}
+
+function executeCommand(content: JsonObject, command: JsonObject): Operation[] {
+    const kind = commandKind(command);
+    if (kind === 'compound') {
+        return (command.commands ?? []).flatMap((child: JsonObject) => executeCommand(content, child));
+    }
+
+    const ownerPointer = toPointer(command.owner?.$ref ?? '');
+    const owner = resolve(content, ownerPointer);
+    if (!isObject(owner)) {
+        throw new Error(`No such command owner: ${command.owner?.$ref}`);
+    }
+    const feature: string = command.feature;
+    const featurePointer = `${ownerPointer}/${feature}`;
+    const values: unknown[] =
+        command.dataValues ??
+        command.objectsToAdd?.map(asModelObject) ??
+        command.objectValues?.map((ref: JsonObject) => ({ $type: ref.eClass ?? ref.$type, $ref: ref.$ref }));
+
+    switch (kind) {
+        case 'set': {
+            const existed = feature in owner;
+            owner[feature] = Array.isArray(owner[feature]) ? values : values[0];
+            return [{ op: existed ? 'replace' : 'add', path: featurePointer, value: deepClone(owner[feature]) }];
+        }
+        case 'add': {
+            const list: unknown[] = Array.isArray(owner[feature]) ? owner[feature] : (owner[feature] = []);
+            const index: number | undefined = command.indices?.[0];
+            if (index === undefined) {
+                list.push(...values);
+                return values.map(value => ({ op: 'add', path: `${featurePointer}/-`, value }));
+            }
+            list.splice(index, 0, ...values);
+            return values.map((value, i) => ({ op: 'add', path: `${featurePointer}/${index + i}`, value }));
+        }
+        case 'remove': {
+            const list: unknown[] = Array.isArray(owner[feature]) ? owner[feature] : [];
+            const indices: number[] = command.indices?.length
+                ? command.indices
+                : (command.objectValues ?? []).map((ref: JsonObject) => list.indexOf(resolve(content, toPointer(ref.$ref))));
+            return indices
+                .filter(index => index >= 0 && index < list.length)
+                .sort((a, b) => b - a)
+                .map(index => {
+                    list.splice(index, 1);
+                    return { op: 'remove', path: `${featurePointer}/${index}` } as Operation;
+                });
+        }
+    }
+}
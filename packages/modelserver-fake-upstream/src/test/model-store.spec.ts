@@ -0,0 +1,103 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import { expect } from 'chai';
+
+import { ModelStore, toPointer } from '../model-store';
+
+const MODEL = 'Test.coffee';
+const TASK = 'http://www.eclipsesource.com/modelserver/example/coffeemodel#//AutomaticTask';
+
+describe('ModelStore', () => {
+    let store: ModelStore;
+
+    beforeEach(() => {
+        store = new ModelStore({
+            [MODEL]: {
+                $type: 'http://www.eclipsesource.com/modelserver/example/coffeemodel#//Machine',
+                name: 'Test Machine',
+                workflows: [{ $type: 'http://www.eclipsesource.com/modelserver/example/coffeemodel#//Workflow', name: 'Flow', nodes: [] }]
+            }
+        });
+    });
+
+    it('toPointer()', () => {
+        expect(toPointer('/workflows/0/name')).to.equal('/workflows/0/name');
+        expect(toPointer('//@workflows.0/@nodes.1')).to.equal('/workflows/0/nodes/1');
+        expect(toPointer(`${MODEL}#//@workflows.0/name`)).to.equal('/workflows/0/name');
+        expect(toPointer('/')).to.equal('');
+    });
+
+    it('assigns EMF fragment IDs', () => {
+        const model = store.get(MODEL);
+        expect(model.$id).to.equal('/');
+        expect(model.workflows[0].$id).to.equal('//@workflows.0');
+    });
+
+    it('reports appends to lists with assigned IDs', () => {
+        const result = store.applyPatch(MODEL, { op: 'add', path: '/workflows/0/nodes', value: { $type: TASK, name: 'Brew' } });
+        expect(result.patch).to.deep.equal([
+            { op: 'add', path: '/workflows/0/nodes/-', value: { $type: TASK, $id: '//@workflows.0/@nodes.0', name: 'Brew' } }
+        ]);
+        expect(store.isDirty(MODEL)).to.be.true;
+    });
+
+    it('reports setting an unset property as add', () => {
+        const result = store.applyPatch(MODEL, { op: 'replace', path: `${MODEL}#//@workflows.0/description`, value: 'Hi' });
+        expect(result.patch).to.deep.equal([{ op: 'add', path: '/workflows/0/description', value: 'Hi' }]);
+    });
+
+    it('executes commands in either JSON format', () => {
+        const result = store.execute(MODEL, {
+            $type: 'http://www.eclipse.org/emfcloud/modelserver/command#//CompoundCommand',
+            type: 'compound',
+            commands: [
+                {
+                    eClass: 'http://www.eclipse.org/emfcloud/modelserver/command#//Command',
+                    type: 'set',
+                    owner: { eClass: TASK, $ref: `${MODEL}#//@workflows.0` },
+                    feature: 'name',
+                    dataValues: ['New Flow']
+                }
+            ]
+        });
+        expect(result.patch).to.deep.equal([{ op: 'replace', path: '/workflows/0/name', value: 'New Flow' }]);
+    });
+
+    it('undo and redo', () => {
+        store.applyPatch(MODEL, { op: 'replace', path: '/name', value: 'New Name' });
+
+        expect(store.undo(MODEL).patch).to.deep.equal([{ op: 'replace', path: '/name', value: 'Test Machine' }]);
+        expect(store.isDirty(MODEL)).to.be.false;
+        expect(store.redo(MODEL).patch).to.deep.equal([{ op: 'replace', path: '/name', value: 'New Name' }]);
+        expect(store.undo(MODEL)).to.exist;
+        expect(store.undo(MODEL)).to.be.undefined;
+    });
+
+    it('edits are atomic', () => {
+        expect(() =>
+            store.applyPatch(MODEL, [
+                { op: 'replace', path: '/name', value: 'New Name' },
+                { op: 'replace', path: '/nothing/here', value: 'Boom' }
+            ])
+        ).to.throw();
+        expect(store.get(MODEL).name).to.equal('Test Machine');
+        expect(store.undo(MODEL)).to.be.undefined;
+    });
+
+    it('transient edits are committed as one change', () => {
+        const snapshot = store.snapshot(MODEL);
+        store.applyTransient(MODEL, { op: 'replace', path: '/name', value: 'One' }, false);
+        store.applyTransient(MODEL, { op: 'replace', path: '/name', value: 'Two' }, false);
+        store.commit(MODEL, snapshot);
+
+        expect(store.undo(MODEL).patch).to.deep.equal([{ op: 'replace', path: '/name', value: 'Test Machine' }]);
+    });
+});
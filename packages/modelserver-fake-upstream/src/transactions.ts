@@ -0,0 +1,177 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import { compare, Operation } from 'fast-json-patch';
+import { v4 as uuid } from 'uuid';
+import * as WebSocket from 'ws';
+
+import { JsonObject, ModelStore } from './model-store';
+
+/**
+ * Call-back notified when a transaction has been committed, with the aggregate
+ * of all changes that it performed in the model.
+ */
+export type CommitListener = (modeluri: string, patch: Operation[]) => void;
+
+/**
+ * The state of an open transaction.
+ */
+interface OpenTransaction {
+    readonly id: string;
+    readonly modeluri: string;
+    /** The state of the model when the transaction was opened, for roll-back. */
+    readonly snapshot: JsonObject;
+    socket?: WebSocket;
+    /** Whether the transaction has been committed or rolled back. */
+    done: boolean;
+}
+
+/**
+ * Emulation of the transaction protocol of the _Upstream Model Server_.
+ *
+ * A transaction is opened by a `POST` on the `transaction` endpoint, which responds with the URI of
+ * a websocket on which the client then sends `execute` messages to edit the model, and finally either
+ * a `close` message to commit the transaction as a single undoable change or a `roll-back` message to
+ * discard its changes. Closure of the socket without a `close` message also rolls back.
+ */
+export class TransactionManager {
+    protected readonly transactions: Map<string, OpenTransaction> = new Map();
+
+    constructor(protected readonly store: ModelStore, protected readonly onCommit: CommitListener) {}
+
+    /**
+     * Open a new transaction on a model.
+     *
+     * @param modeluri the model to edit in the transaction
+     * @returns the unique ID of the new transaction
+     * @throws if the model does not exist or already has a transaction open on it
+     */
+    open(modeluri: string): string {
+        if (!this.store.has(modeluri)) {
+            throw new Error(`No such model: ${modeluri}`);
+        }
+        if (this.isOpen(modeluri)) {
+            throw new Error(`A transaction is already open on ${modeluri}.`);
+        }
+
+        const id = uuid();
+        this.transactions.set(id, { id, modeluri, snapshot: this.store.snapshot(modeluri), done: false });
+        return id;
+    }
+
+    /** Query whether a model has a transaction open on it. */
+    isOpen(modeluri: string): boolean {
+        return Array.from(this.transactions.values()).some(tx => tx.modeluri === modeluri);
+    }
+
+    /**
+     * Connect the client socket for a transaction.
+     *
+     * @param id the transaction ID
+     * @param socket the client's websocket
+     */
+    connect(id: string, socket: WebSocket): void {
+        const transaction = this.transactions.get(id);
+        if (!transaction || transaction.socket) {
+            socket.close(1008, 'No such transaction.');
+            return;
+        }
+
+        transaction.socket = socket;
+        socket.on('message', data => this.handleMessage(transaction, data.toString()));
+        socket.on('close', () => this.finish(transaction, false));
+        socket.send(JSON.stringify({ type: 'success', data: id }));
+    }
+
+    /**
+     * Roll back all open transactions and disconnect their clients.
+     */
+    dispose(): void {
+        Array.from(this.transactions.values()).forEach(tx => {
+            this.finish(tx, false);
+            tx.socket?.close(1001, 'Server stopping.');
+        });
+    }
+
+    protected handleMessage(transaction: OpenTransaction, raw: string): void {
+        let message: JsonObject;
+        try {
+            message = JSON.parse(raw);
+        } catch (error) {
+            this.reply(transaction, { type: 'error', data: `Invalid message: ${error}` });
+            return;
+        }
+
+        switch (message.type) {
+            case 'execute':
+                this.execute(transaction, message.data);
+                break;
+            case 'close':
+                this.finish(transaction, true);
+                transaction.socket.close(1000, 'Transaction committed.');
+                break;
+            case 'roll-back':
+                this.finish(transaction, false);
+                transaction.socket.close(1000, 'Transaction rolled back.');
+                break;
+            default:
+                this.reply(transaction, { type: 'error', data: `Unsupported message type: ${message.type}` });
+                break;
+        }
+    }
+
+    protected execute(transaction: OpenTransaction, body: JsonObject): void {
+        try {
+            const isCommand = body?.type === 'modelserver.emfcommand';
+            if (!isCommand && body?.type !== 'modelserver.patch') {
+                throw new Error(`Unsupported edit type: ${body?.type}`);
+            }
+            const result = this.store.applyTransient(transaction.modeluri, body.data, isCommand);
+            this.reply(transaction, { type: 'success', data: result });
+        } catch (error) {
+            this.reply(transaction, { type: 'error', data: error.message ?? String(error) });
+        }
+    }
+
+    protected reply(transaction: OpenTransaction, message: JsonObject): void {
+        if (transaction.socket?.readyState === WebSocket.OPEN) {
+            transaction.socket.send(JSON.stringify(message));
+        }
+    }
+
+    /**
+     * Complete a transaction, if it is not already completed.
+     *
+     * @param transaction the transaction to complete
+     * @param commit whether to commit its changes (otherwise they are rolled back)
+     */
+    protected finish(transaction: OpenTransaction, commit: boolean): void {
+        if (transaction.done) {
+            return;
+        }
+        transaction.done = true;
+        this.transactions.delete(transaction.id);
+
+        if (!this.store.has(transaction.modeluri)) {
+            // Model was deleted in the mean-time
+            return;
+        }
+        if (!commit) {
+            this.store.restore(transaction.modeluri, transaction.snapshot);
+            return;
+        }
+
+        const patch = compare(transaction.snapshot, this.store.snapshot(transaction.modeluri));
+        if (patch.length > 0) {
+            this.store.commit(transaction.modeluri, transaction.snapshot);
+            this.onCommit(transaction.modeluri, patch);
+        }
+    }
+}
@@ -0,0 +1,122 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import { Disposable } from './disposable';
+
+export const EditQueueOptions = Symbol('EditQueueOptions');
+
+/**
+ * Configuration of the queueing of edits on models.
+ */
+export interface EditQueueOptions {
+    /**
+     * How long, in milliseconds, an edit request waits for its turn to edit a model that is
+     * locked by another edit or transaction before it is rejected. A non-positive value means
+     * to wait indefinitely.
+     */
+    timeout: number;
+}
+
+/** Default edit queueing options. */
+export const DEFAULT_EDIT_QUEUE_OPTIONS: EditQueueOptions = { timeout: 30000 };
+
+/**
+ * Error rejecting an edit request that timed out waiting for its turn to edit a model.
+ */
+export class EditQueueTimeoutError extends Error {
+    constructor(readonly key: string, readonly timeout: number) {
+        super(`Timed out after ${timeout} ms waiting to edit ${key}.`);
+        this.name = EditQueueTimeoutError.name;
+    }
+}
+
+/**
+ * A first-come, first-served queue of exclusive locks on keys, such as model URIs.
+ * Every client that acquires the lock on a key must release it to let the next client in the queue take its turn.
+ */
+export class EditQueue {
+    /** Map of key to a promise that settles when the last client in the queue for that key releases its lock. */
+    protected readonly tails: Map<string, Promise<void>> = new Map();
+
+    /**
+     * Wait for and acquire the lock on a `key`.
+     *
+     * @param key the key to lock
+     * @param timeout how long, in milliseconds, to wait for the lock. A non-positive value means to wait indefinitely
+     * @returns a function that releases the lock, or a promise rejected with an `EditQueueTimeoutError` on time-out
+     */
+    acquire(key: string, timeout: number): Promise<Disposable> {
+        const previous = this.tails.get(key) ?? Promise.resolve();
+
+        let release: Disposable;
+        const held = new Promise<void>(resolve => (release = once(resolve)));
+        const tail = previous.then(() => held);
+        this.tails.set(key, tail);
+        tail.then(() => {
+            if (this.tails.get(key) === tail) {
+                this.tails.delete(key);
+            }
+        });
+
+        return new Promise<Disposable>((resolve, reject) => {
+            let timedOut = false;
+            const timer =
+                timeout > 0
+                    ? setTimeout(() => {
+                          timedOut = true;
+                          reject(new EditQueueTimeoutError(key, timeout));
+                      }, timeout)
+                    : undefined;
+
+            previous.then(() => {
+                if (timer) {
+                    clearTimeout(timer);
+                }
+                if (timedOut) {
+                    // Nobody is waiting for this turn any longer, so pass it on
+                    release();
+                } else {
+                    resolve(release);
+                }
+            });
+        });
+    }
+
+    /**
+     * Query whether a `key` is currently locked.
+     *
+     * @param key the key to query
+     * @returns whether the lock on the `key` is held
+     */
+    isLocked(key: string): boolean {
+        return this.tails.has(key);
+    }
+
+    /**
+     * Wait for all locks to be released, including locks acquired while waiting.
+     *
+     * @returns a promise that resolves when no key is locked
+     */
+    async whenIdle(): Promise<void> {
+        while (this.tails.size > 0) {
+            await Promise.all(this.tails.values());
+        }
+    }
+}
+
+function once(fn: () => void): Disposable {
+    let done = false;
+    return () => {
+        if (!done) {
+            done = true;
+            fn();
+        }
+    };
+}
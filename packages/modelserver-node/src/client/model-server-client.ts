@@ -27,17 +27,40 @@ import {
     SubscriptionOptions,
     TypeGuard
 } from '@eclipse-emfcloud/modelserver-client';
-import { EditTransaction, Executor, Logger, ModelServerClientApi, Transaction } from '@eclipse-emfcloud/modelserver-plugin-ext';
-import axios from 'axios';
+import {
+    EditTransaction,
+    Executor,
+    Logger,
+    ModelChangeKind,
+    ModelServerClientApi,
+    Principal,
+    Transaction
+} from '@eclipse-emfcloud/modelserver-plugin-ext';
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import { AsyncLocalStorage } from 'async_hooks';
 import { Operation } from 'fast-json-patch';
-import { inject, injectable, named } from 'inversify';
+import { inject, injectable, named, postConstruct } from 'inversify';
 import * as URI from 'urijs';
 import { v4 as uuid } from 'uuid';
 import * as WebSocket from 'ws';
 
 import { CommandProviderRegistry } from '../command-provider-registry';
-import { TriggerProviderRegistry } from '../trigger-provider-registry';
-import { CompletablePromise } from './promise-utils';
+import { RequestContext } from '../request-context';
+import { HistogramMetric, MetricsRegistry } from '../services/metrics';
+import { ModelChangeNotifier } from '../services/model-change-notifier';
+import { RevisionManager } from '../services/revision-manager';
+import { TriggerLoopError, TriggerOptions, TriggerProviderRegistry } from '../trigger-provider-registry';
+import { Disposable } from './disposable';
+import { EditQueue, EditQueueOptions } from './edit-queue';
+import { CompletablePromise, withTimeout } from './promise-utils';
+import { modelURIKey } from './uri-utils';
+import {
+    propagateRequestId,
+    upstreamAxiosConfig,
+    upstreamHttpURL,
+    upstreamWebSocketOptions,
+    upstreamWebSocketProtocol
+} from './upstream-connection';
 import { WebSocketMessageAcceptor } from './web-socket-utils';
 
 export const UpstreamConnectionConfig = Symbol('UpstreamConnectionConfig');
@@ -46,9 +69,25 @@ export const UpstreamConnectionConfig = Symbol('UpstreamConnectionConfig');
  * Configuration of the connection to the _Upstream Model Server_.
  */
 export interface UpstreamConnectionConfig {
+    /** The host name or address of the _Upstream Model Server_. */
     hostname: string;
+    /** The TCP port on which the _Upstream Model Server_ listens. */
     serverPort: number;
+    /** The path of the _Model Server_ API endpoints, relative to the `basePath`. For example, `api/v2`. */
     baseURL: string;
+    /**
+     * Optional path prefix at which the _Upstream Model Server_ is mounted on its host, for example when it
+     * is deployed behind a reverse proxy. All requests, including forwarded requests, are sent under this path.
+     */
+    basePath?: string;
+    /** Whether to connect to the _Upstream Model Server_ with TLS, using `https:` and `wss:` instead of `http:` and `ws:`. */
+    secure?: boolean;
+    /** Optional certificate authorities (PEM-encoded) to trust in verifying the certificate of the _Upstream Model Server_. */
+    ca?: string | Buffer | Array<string | Buffer>;
+    /** Whether to reject an _Upstream Model Server_ certificate that cannot be verified. Defaults to `true`. */
+    rejectUnauthorized?: boolean;
+    /** Additional headers to send with every HTTP request and websocket upgrade request to the _Upstream Model Server_. */
+    headers?: Record<string, string>;
 }
 
 export const InternalModelServerClientApi = Symbol('InternalModelServerClientApi');
@@ -66,11 +105,31 @@ export interface InternalModelServerClientApi extends ModelServerClientApi {
     /**
      * Open a transactional self-compounding command/patch execution context on a model.
      *
+     * Edits on a model are serialized: if the model is already being edited, for example because a
+     * transaction is open on it, then the new transaction waits its turn, up to the configured
+     * {@link EditQueueOptions.timeout time-out}. The exception is a request to open a transaction that is
+     * made in the {@link TransactionScope scope} of a transaction already open on the model, such as from within
+     * a command or trigger provider's `Transaction` call-back, which opens a nested transaction.
+     *
      * @param modeluri the URI of the model on which to open the transaction
      * @returns a transactional context in which to execute a chained sequence of commands,
-     *     or a rejected promise in the case that a transaction is already open on the given model
+     *     or a rejected promise in the case that the wait for a turn to edit the model timed out
      */
     openTransaction(modeluri: URI): Promise<TransactionContext>;
+
+    /**
+     * Obtain the number of transactions currently open on models, for diagnostic purposes.
+     */
+    getOpenTransactionCount(): number;
+
+    /**
+     * Drain the edits in progress, for shut-down: wait for edits and transactions in progress to finish and then
+     * roll back any transactions that are still open.
+     *
+     * @param gracePeriod how long, in milliseconds, to wait for edits in progress to finish
+     * @returns the number of transactions that were rolled back
+     */
+    drain(gracePeriod: number): Promise<number>;
 }
 
 /**
@@ -83,6 +142,75 @@ export interface TransactionContext extends Executor, EditTransaction {
      * It rolls back all changes up the transaction stack, closing the root transaction.
      */
     openTransaction(): Promise<TransactionContext>;
+
+    /**
+     * Commit the transaction, subject to a `veto`. After the triggers that follow up the changes made by the
+     * transaction have been performed, the `veto` call-back may reject the commit, in which case the transaction
+     * is rolled back instead and the commit is rejected with the same reason. The `veto` applies only to the
+     * commit of a top-level transaction.
+     *
+     * @param veto a call-back that is given the aggregate result of the transaction and may reject to veto the commit
+     * @returns the aggregate result of changes performed during the transaction
+     */
+    commit(veto?: (result: ModelUpdateResult) => Promise<void>): Promise<ModelUpdateResult>;
+
+    /**
+     * Perform the triggers that committing the transaction would perform, then roll back the transaction
+     * instead of committing it. Only a top-level transaction may be previewed.
+     *
+     * @returns the aggregate result of changes that committing the transaction would have performed
+     */
+    preview(): Promise<ModelUpdateResult>;
+
+    /**
+     * Edit the model by a patch or by a command, whichever is given.
+     *
+     * @param patchOrCommand the patch or command to apply
+     * @returns the result of the edit
+     */
+    edit(patchOrCommand: Operation | Operation[] | ModelServerCommand): Promise<ModelUpdateResult>;
+
+    /**
+     * Obtain the authenticated caller on whose behalf the transaction was opened.
+     * Unlike plug-in executors in general, the _Model Server_'s transactions always provide it.
+     *
+     * @returns the caller, or `undefined` if it is not known
+     */
+    getPrincipal(): Principal | undefined;
+}
+
+/** The transactions, by model URI, in whose scope the current asynchronous call chain is running. */
+const transactionScope = new AsyncLocalStorage<ReadonlyMap<string, TransactionContext>>();
+
+/**
+ * The scope of a transaction is the asynchronous call chain of a `Transaction` call-back that
+ * edits the model in that transaction. Edits requested on the same model in this scope are
+ * performed in (a nested context of) the transaction.
+ */
+export namespace TransactionScope {
+    /**
+     * Run a `callback` in the scope of a `transaction`.
+     *
+     * @param transaction the transaction in whose scope to run the `callback`
+     * @param callback the call-back to run
+     * @returns the result of the `callback`
+     */
+    export function run<T>(transaction: TransactionContext, callback: () => T): T {
+        const scope = new Map(transactionScope.getStore() ?? []);
+        scope.set(modelURIKey(transaction.getModelURI()), transaction);
+        return transactionScope.run(scope, callback);
+    }
+
+    /**
+     * Get the open transaction on a model in whose scope the current asynchronous call chain is running.
+     *
+     * @param modeluri the model URI
+     * @returns the open transaction in scope, if any
+     */
+    export function get(modeluri: URI | string): TransactionContext | undefined {
+        const result = transactionScope.getStore()?.get(modelURIKey(modeluri));
+        return result?.isOpen() ? result : undefined;
+    }
 }
 
 /**
@@ -157,49 +285,207 @@ export class InternalModelServerClient implements InternalModelServerClientApi {
     @inject(UpstreamConnectionConfig)
     protected readonly upstreamConnectionConfig: UpstreamConnectionConfig;
 
+    @inject(EditQueueOptions)
+    protected readonly editQueueOptions: EditQueueOptions;
+
+    @inject(TriggerOptions)
+    protected readonly triggerOptions: TriggerOptions;
+
+    @inject(RevisionManager)
+    protected readonly revisionManager: RevisionManager;
+
+    @inject(ModelChangeNotifier)
+    protected readonly modelChangeNotifier: ModelChangeNotifier;
+
+    @inject(MetricsRegistry)
+    protected readonly metrics: MetricsRegistry;
+
+    protected triggerRounds: HistogramMetric;
+
     protected readonly transactions: Map<string, TransactionContext> = new Map();
 
-    protected readonly delegate: ModelServerClientApi = new ModelServerClientV2();
+    /** Queue of callers waiting their turn to edit models. */
+    protected readonly editQueue = new EditQueue();
+
+    protected readonly delegate: ModelServerClientApi = new UpstreamModelServerClientV2(() => this.upstreamConnectionConfig);
 
     protected _baseURL: URI;
 
-    initialize(): void | Promise<void> {
-        this._baseURL = new URI({
-            protocol: 'http',
-            hostname: this.upstreamConnectionConfig.hostname,
-            port: this.upstreamConnectionConfig.serverPort,
-            path: this.upstreamConnectionConfig.baseURL
+    /** HTTP client for requests that the `delegate` does not support. */
+    protected upstream: AxiosInstance;
+
+    @postConstruct()
+    protected initializeMetrics(): void {
+        this.triggerRounds = this.metrics.histogram({
+            name: 'modelserver_trigger_rounds',
+            help: 'Number of rounds of triggers performed to settle the changes of committed transactions.',
+            buckets: [0, 1, 2, 4, 8, 16, 32]
+        });
+        this.metrics.gauge({
+            name: 'modelserver_open_transactions',
+            help: 'Number of transactions currently open on the Upstream Model Server.',
+            collect: () => this.getOpenTransactionCount()
         });
+    }
+
+    initialize(): void | Promise<void> {
+        this._baseURL = upstreamHttpURL(this.upstreamConnectionConfig, this.upstreamConnectionConfig.baseURL);
+        this.upstream = propagateRequestId(axios.create(upstreamAxiosConfig(this.upstreamConnectionConfig, this._baseURL)));
         return this.delegate.initialize(this._baseURL, DEFAULT_FORMAT);
     }
 
     async openTransaction(modelUri: URI): Promise<TransactionContext> {
-        const uriKey = modelUri.normalize().toString();
-        if (this.transactions.has(uriKey)) {
+        const scoped = TransactionScope.get(modelUri);
+        if (scoped) {
             // Open a nested transaction
-            return this.transactions.get(uriKey).openTransaction();
+            return scoped.openTransaction();
         }
 
-        const clientID = uuid();
+        const key = modelURIKey(modelUri);
+        const release = await this.awaitTurn(key);
+        const endEdit = this.revisionManager.startEdit(key);
+        let result: DefaultTransactionContext | undefined;
 
-        return axios.post(this.makeURL('transaction', modelUri), { data: clientID }).then(response => {
+        try {
+            const clientID = uuid();
+            const response = await this.upstream.post(this.makeURL('transaction', modelUri), { data: clientID });
             const { uri: transactionURI } = (response.data as CreateTransactionResponseBody).data;
-            const result = new DefaultTransactionContext(
+            result = new DefaultTransactionContext(
                 transactionURI,
                 modelUri,
                 this.commandProviderRegistry,
                 this.triggerProviderRegistry,
+                this.upstreamConnectionConfig,
+                this.triggerOptions,
                 this.logger
             );
-            this.transactions.set(uriKey, result);
-            return result.open(tc => this.closeTransaction(modelUri, tc));
-        });
+            this.transactions.set(key, result);
+            return await result.open(
+                tc => {
+                    this.closeTransaction(key, tc);
+                    endEdit(false);
+                    release();
+                },
+                (tc, updateResult, triggerRounds) => {
+                    endEdit(true);
+                    this.triggerRounds.observe(triggerRounds);
+                    this.modelChangeNotifier.notify(modelUri, 'edit', updateResult);
+                }
+            );
+        } catch (error) {
+            if (result) {
+                // The transaction did not open, so it must not be counted nor drained
+                this.closeTransaction(key, result);
+            }
+            endEdit(false);
+            release();
+            throw error;
+        }
     }
 
-    private closeTransaction(modeluri: URI, tc: TransactionContext): void {
-        if (this.transactions.get(modeluri.toString()) === tc) {
-            this.transactions.delete(modeluri.toString());
+    getOpenTransactionCount(): number {
+        return this.transactions.size;
+    }
+
+    async drain(gracePeriod: number): Promise<number> {
+        try {
+            await withTimeout(this.editQueue.whenIdle(), gracePeriod, () => new Error(`Edits still in progress after ${gracePeriod} ms.`));
+            return 0;
+        } catch (error) {
+            const open = Array.from(this.transactions.values()).filter(tc => tc.isOpen());
+            this.logger.warn(`${error.message} Rolling back ${open.length} open transactions.`);
+            await Promise.all(open.map(tc => tc.rollback('Model Server shutting down.')));
+            return open.length;
+        }
+    }
+
+    private closeTransaction(key: string, tc: TransactionContext): void {
+        if (this.transactions.get(key) === tc) {
+            this.transactions.delete(key);
+        }
+    }
+
+    /**
+     * Wait for our turn to edit a model and then check the {@link RevisionManager.checkPrecondition precondition}, if any,
+     * on its revision.
+     *
+     * @param key the key of the model to edit
+     * @returns a function to call to release the model for the next editor in the queue, or a rejected promise
+     *    if the precondition on the revision of the model is not met
+     */
+    protected async awaitTurn(key: string): Promise<Disposable> {
+        if (this.editQueue.isLocked(key)) {
+            this.logger.debug(`Waiting for turn to edit ${key}.`);
         }
+        const release = await this.editQueue.acquire(key, this.editQueueOptions.timeout);
+
+        try {
+            this.revisionManager.checkPrecondition(key);
+        } catch (error) {
+            release();
+            throw error;
+        }
+
+        return release;
+    }
+
+    /**
+     * Perform an `edit` on a model when it is our turn, advancing the model's revision and notifying model change
+     * listeners if it succeeds. In the scope of a transaction on the model, the `edit` is performed immediately
+     * because it is part of that transaction, which notifies listeners when it is committed.
+     *
+     * @param modeluri the model to edit
+     * @param edit the edit operation to perform
+     * @param succeeded a predicate determining whether the result of the `edit` indicates success
+     * @param kind the kind of change that the `edit` performs
+     * @param toUpdateResult a function converting the result of the `edit` to a model update result for listeners
+     * @returns the result of the `edit`
+     */
+    protected async exclusive<T>(
+        modeluri: URI | string,
+        edit: () => Promise<T>,
+        succeeded: (result: T) => boolean,
+        kind: ModelChangeKind,
+        toUpdateResult: (result: T) => ModelUpdateResult
+    ): Promise<T> {
+        if (TransactionScope.get(modeluri)) {
+            return edit();
+        }
+
+        const key = modelURIKey(modeluri);
+        const release = await this.awaitTurn(key);
+        const endEdit = this.revisionManager.startEdit(key);
+        let success = false;
+        try {
+            const result = await edit();
+            success = succeeded(result);
+            if (success) {
+                // Listeners are notified asynchronously, so they see the revision that the edit advanced
+                this.modelChangeNotifier.notify(modeluri, kind, toUpdateResult(result));
+            }
+            return result;
+        } finally {
+            endEdit(success);
+            release();
+        }
+    }
+
+    /**
+     * Create a follow-up for a change to a model that does not edit its content, such as saving or closing it,
+     * that notifies model change listeners if the change succeeded.
+     *
+     * @param modeluri the model that is changed
+     * @param kind the kind of change
+     * @param toUpdateResult an optional function providing the model update result for listeners
+     * @returns a function that notifies listeners of a successful change and returns its result
+     */
+    protected notifyChange<T>(modeluri: URI, kind: ModelChangeKind, toUpdateResult?: (result: T) => ModelUpdateResult): (result: T) => T {
+        return result => {
+            if (result) {
+                this.modelChangeNotifier.notify(modeluri, kind, toUpdateResult?.(result));
+            }
+            return result;
+        };
     }
 
     protected makeURL(path: string, modeluri: URI): string {
@@ -259,35 +545,44 @@ export class InternalModelServerClient implements InternalModelServerClientApi {
         return this.delegate.getElementByName(modeluri, elementname, typeGuard, format);
     }
     delete(modeluri: URI): Promise<boolean> {
-        return this.delegate.delete(modeluri);
+        return this.delegate.delete(modeluri).then(this.notifyChange(modeluri, 'delete', () => wholeModelResult('remove')));
     }
     close(modeluri: URI): Promise<boolean> {
-        return this.delegate.close(modeluri);
+        return this.delegate.close(modeluri).then(this.notifyChange(modeluri, 'close'));
     }
     create(modeluri: URI, model: string | AnyObject, format?: Format): Promise<AnyObject>;
     create<M>(modeluri: URI, model: string | AnyObject, typeGuard: TypeGuard<M>, format?: Format): Promise<M>;
     create<M>(modeluri: URI, model: string, typeGuard?: Format | TypeGuard<M>, format?: Format): Promise<AnyObject | M> {
+        const notify = this.notifyChange(modeluri, 'create', (created: AnyObject | M) => wholeModelResult('add', created));
         if (!typeGuard) {
-            return this.delegate.create(modeluri, model, format);
+            return this.delegate.create(modeluri, model, format).then(notify);
         }
         if (typeof typeGuard === 'string') {
-            return this.delegate.create(modeluri, model, typeGuard);
+            return this.delegate.create(modeluri, model, typeGuard).then(notify);
         }
-        return this.delegate.create(modeluri, model, typeGuard, format);
+        return this.delegate.create(modeluri, model, typeGuard, format).then(notify);
     }
     update(modeluri: URI, model: AnyObject | string, format?: Format): Promise<AnyObject>;
     update<M>(modeluri: URI, model: AnyObject | string, typeGuard: TypeGuard<M>, format?: Format): Promise<M>;
     update<M>(modeluri: URI, model: AnyObject | string, typeGuard?: Format | TypeGuard<M>, format?: Format): Promise<AnyObject | M> {
-        if (!typeGuard) {
-            return this.delegate.update(modeluri, model, format);
-        }
-        if (typeof typeGuard === 'string') {
-            return this.delegate.update(modeluri, model, typeGuard);
-        }
-        return this.delegate.update(modeluri, model, typeGuard, format);
+        return this.exclusive<AnyObject | M>(
+            modeluri,
+            () => {
+                if (!typeGuard) {
+                    return this.delegate.update(modeluri, model, format);
+                }
+                if (typeof typeGuard === 'string') {
+                    return this.delegate.update(modeluri, model, typeGuard);
+                }
+                return this.delegate.update(modeluri, model, typeGuard, format);
+            },
+            Boolean,
+            'update',
+            updated => wholeModelResult('replace', updated)
+        );
     }
     save(modeluri: URI): Promise<boolean> {
-        return this.delegate.save(modeluri);
+        return this.delegate.save(modeluri).then(this.notifyChange(modeluri, 'save'));
     }
     saveAll(): Promise<boolean> {
         return this.delegate.saveAll();
@@ -313,19 +608,45 @@ export class InternalModelServerClient implements InternalModelServerClientApi {
     edit(modeluri: URI, patch: Operation | Operation[], format?: Format): Promise<ModelUpdateResult>;
     edit(modeluri: URI, command: ModelServerCommand, format?: Format): Promise<ModelUpdateResult>;
     edit(modeluri: URI, patchOrCommand: Operation | Operation[] | ModelServerCommand): Promise<ModelUpdateResult> {
-        if (patchOrCommand instanceof ModelServerCommand) {
-            return this.delegate.edit(modeluri, patchOrCommand);
+        const scoped = TransactionScope.get(modeluri);
+        if (scoped) {
+            // Don't bypass the transaction in which we are editing
+            return scoped.edit(patchOrCommand);
         }
-        if (Array.isArray(patchOrCommand)) {
-            return this.delegate.edit(modeluri, patchOrCommand);
-        }
-        return this.delegate.edit(modeluri, patchOrCommand);
+
+        return this.exclusive(
+            modeluri,
+            () => {
+                if (patchOrCommand instanceof ModelServerCommand) {
+                    return this.delegate.edit(modeluri, patchOrCommand);
+                }
+                if (Array.isArray(patchOrCommand)) {
+                    return this.delegate.edit(modeluri, patchOrCommand);
+                }
+                return this.delegate.edit(modeluri, patchOrCommand);
+            },
+            isSuccess,
+            'edit',
+            result => result
+        );
     }
     undo(modeluri: URI): Promise<ModelUpdateResult> {
-        return this.delegate.undo(modeluri);
+        return this.exclusive(
+            modeluri,
+            () => this.delegate.undo(modeluri),
+            isSuccess,
+            'undo',
+            result => result
+        );
     }
     redo(modeluri: URI): Promise<ModelUpdateResult> {
-        return this.delegate.redo(modeluri);
+        return this.exclusive(
+            modeluri,
+            () => this.delegate.redo(modeluri),
+            isSuccess,
+            'redo',
+            result => result
+        );
     }
     subscribe(modeluri: URI, listener: SubscriptionListener, options?: SubscriptionOptions): SubscriptionListener {
         return this.delegate.subscribe(modeluri, listener, options);
@@ -338,6 +659,39 @@ export class InternalModelServerClient implements InternalModelServerClientApi {
     }
 }
 
+/**
+ * Specialization of the _Model Server_ client that connects to the _Upstream Model Server_
+ * according to its connection configuration, for example with TLS and extra headers.
+ */
+class UpstreamModelServerClientV2 extends ModelServerClientV2 {
+    constructor(protected readonly connectionConfig: () => UpstreamConnectionConfig) {
+        super();
+    }
+
+    initialize(baseURL: URI, defaultFormat?: Format): void | Promise<void> {
+        const result = super.initialize(baseURL, defaultFormat);
+        propagateRequestId(this.restClient);
+        return result;
+    }
+
+    protected getAxiosConfig(baseURL: URI): AxiosRequestConfig {
+        return upstreamAxiosConfig(this.connectionConfig(), baseURL);
+    }
+
+    protected createSubscriptionPath(modeluri: URI, options: SubscriptionOptions): URI {
+        return super.createSubscriptionPath(modeluri, options).protocol(upstreamWebSocketProtocol(this.connectionConfig()));
+    }
+
+    protected doSubscribe(listener: SubscriptionListener, modeluri: URI, path: URI): void {
+        const socket = new WebSocket(path.toString(), upstreamWebSocketOptions(this.connectionConfig()));
+        socket.onopen = event => listener.onOpen?.(modeluri, event);
+        socket.onclose = event => listener.onClose?.(modeluri, event);
+        socket.onerror = event => listener.onError?.(modeluri, event);
+        socket.onmessage = event => listener.onMessage?.(modeluri, event);
+        this.openSockets.set(modeluri.toString(), socket);
+    }
+}
+
 /**
  * A context tracking the state of transactions while nested transactions are in progress.
  * Edit transactions for custom commands and triggers can be recursive: custom command transactions can execute
@@ -361,11 +715,18 @@ class DefaultTransactionContext implements TransactionContext {
 
     private readonly uuid: CompletablePromise<string>;
 
+    private commitCallback?: (tc: TransactionContext, updateResult: ModelUpdateResult, triggerRounds: number) => void;
+
+    /** The caller on whose behalf the transaction was opened, which persists for the triggers that it runs. */
+    private readonly principal?: Principal;
+
     constructor(
         protected readonly transactionURI: string,
         protected readonly modelURI: URI,
         protected readonly commandProviderRegistry: CommandProviderRegistry,
         protected readonly triggerProviderRegistry: TriggerProviderRegistry,
+        protected readonly upstreamConnectionConfig: UpstreamConnectionConfig,
+        protected readonly triggerOptions: TriggerOptions,
         protected readonly logger: Logger
     ) {
         // Ensure that asynchronous functions don't lose their 'this' context
@@ -375,6 +736,7 @@ class DefaultTransactionContext implements TransactionContext {
         this.rollback = this.rollback.bind(this);
 
         this.uuid = CompletablePromise.newPromise();
+        this.principal = RequestContext.getPrincipal();
     }
 
     // Doc inherited from `EditTransaction` interface
@@ -382,6 +744,11 @@ class DefaultTransactionContext implements TransactionContext {
         return this.modelURI;
     }
 
+    // Doc inherited from `Executor` interface
+    getPrincipal(): Principal | undefined {
+        return this.principal;
+    }
+
     // Doc inherited from `EditTransaction` interface
     isOpen(): boolean {
         return !!this.socket && this.socket.readyState === WebSocket.OPEN;
@@ -391,13 +758,19 @@ class DefaultTransactionContext implements TransactionContext {
      * Open a new transaction on the upstream _Model Server_.
      *
      * @param closeCallback a call-back to invoke when the transaction is closed, for example to clean up associated bookkeeping
+     * @param commitCallback an optional call-back to invoke with the aggregate result of the transaction when it is committed
+     *    and the number of rounds of triggers that were performed to settle its changes
      * @returns a new transaction context
      */
-    open(closeCallback: (tc: TransactionContext) => void): Promise<TransactionContext> {
+    open(
+        closeCallback: (tc: TransactionContext) => void,
+        commitCallback?: (tc: TransactionContext, updateResult: ModelUpdateResult, triggerRounds: number) => void
+    ): Promise<TransactionContext> {
+        this.commitCallback = commitCallback;
         const result: Promise<TransactionContext> = new Promise((resolveTransaction, reject) => {
             const wsURI = new URL(this.transactionURI);
-            wsURI.protocol = 'ws';
-            const socket = new WebSocket(wsURI.toString());
+            wsURI.protocol = upstreamWebSocketProtocol(this.upstreamConnectionConfig);
+            const socket = new WebSocket(wsURI.toString(), upstreamWebSocketOptions(this.upstreamConnectionConfig));
 
             socket.onclose = event => {
                 closeCallback?.(this);
@@ -504,7 +877,7 @@ class DefaultTransactionContext implements TransactionContext {
             if (typeof provided === 'function') {
                 // It's a transaction function. We already have a transaction context (this one)
                 this.pushNestedContext();
-                const success = await provided(this);
+                const success = await TransactionScope.run(this, () => provided(this));
                 if (!success) {
                     this.popNestedContext(); // These changes were rolled back
                     return Promise.reject('Command execution failed.');
@@ -608,29 +981,94 @@ class DefaultTransactionContext implements TransactionContext {
         }
     }
 
-    // Doc inherited from `EditTransaction` interface
-    async commit(): Promise<ModelUpdateResult> {
+    // Doc inherited from `TransactionContext` interface
+    async commit(veto?: (result: ModelUpdateResult) => Promise<void>): Promise<ModelUpdateResult> {
+        const updateResult = this.popNestedContext();
+
+        if (!this.isOpen()) {
+            return transactionClosed;
+        }
+
+        const triggerRounds = await this.performCommitTriggers(updateResult);
+
+        if (veto) {
+            try {
+                await veto(updateResult);
+            } catch (error) {
+                await this.rollback(error?.diagnostic ?? error);
+                throw error;
+            }
+        }
+
+        this.socket.send(JSON.stringify(this.message('close')));
+        this.commitCallback?.(this, updateResult, triggerRounds);
+        return updateResult;
+    }
+
+    // Doc inherited from `TransactionContext` interface
+    async preview(): Promise<ModelUpdateResult> {
         const updateResult = this.popNestedContext();
 
         if (!this.isOpen()) {
             return transactionClosed;
         }
 
+        await this.performCommitTriggers(updateResult);
+
+        await this.rollback('Preview completed.');
+        return updateResult;
+    }
+
+    /**
+     * Perform the triggers that follow up the changes made by the transaction, recursively until they settle down.
+     *
+     * @param updateResult the aggregate result of the changes made by the transaction, into which the changes
+     *    performed by triggers are merged
+     * @returns a promise that resolves with the number of rounds of triggers performed when they have settled down,
+     *    or is rejected with a `TriggerLoopError` if they do not, in which case the transaction is rolled back
+     */
+    protected async performCommitTriggers(updateResult: ModelUpdateResult): Promise<number> {
         let modelDelta = updateResult.patch;
+        let depth = 0;
+        const seenDeltas = new Set<string>();
+        const involvedProviders = new Set<string>();
         while (modelDelta && modelDelta.length) {
-            const triggers = await this.autoRollback(this.triggerProviderRegistry.getTriggers(this.modelURI, modelDelta));
-            if (!this.hasTriggers(triggers)) {
+            seenDeltas.add(JSON.stringify(modelDelta));
+
+            const provided = await this.autoRollback(this.triggerProviderRegistry.getProvidedTriggers(this.modelURI, modelDelta));
+            if (!this.hasTriggers(provided?.triggers)) {
                 // Nothing left to process
                 modelDelta = undefined;
             } else {
-                const triggerResult = await this.performTriggers(triggers);
+                provided.providers.forEach(provider => involvedProviders.add(provider));
+                if (++depth > this.triggerOptions.maxDepth) {
+                    return this.abortTriggers(`exceeded the maximal depth of ${this.triggerOptions.maxDepth}`, involvedProviders);
+                }
+
+                const triggerResult = await this.performTriggers(provided.triggers);
                 this.mergeModelUpdateResult(updateResult, triggerResult);
                 modelDelta = triggerResult.patch;
+
+                if (modelDelta?.length && seenDeltas.has(JSON.stringify(modelDelta))) {
+                    return this.abortTriggers('repeated a previous change', involvedProviders);
+                }
             }
         }
+        return depth;
+    }
 
-        this.socket.send(JSON.stringify(this.message('close')));
-        return updateResult;
+    /**
+     * Roll back the transaction because triggers performed in committing it do not converge.
+     *
+     * @param reason a description of how the triggers ran away
+     * @param providers the trigger providers involved
+     * @returns a promise rejected with a `TriggerLoopError`
+     */
+    protected async abortTriggers(reason: string, providers: Iterable<string>): Promise<never> {
+        const error = new TriggerLoopError(this.modelURI, reason, Array.from(providers));
+        this.logger.error(error.message);
+        await this.rollback(error.diagnostic);
+        throw error;
     }
 
     hasTriggers(triggers: Operation[] | Transaction): boolean {
@@ -660,7 +1098,7 @@ class DefaultTransactionContext implements TransactionContext {
 
         try {
             if (typeof triggers === 'function') {
-                await triggers(this);
+                await TransactionScope.run(this, () => triggers(this));
             } else {
                 await this.applyPatch(triggers);
             }
@@ -696,6 +1134,7 @@ class DefaultTransactionContext implements TransactionContext {
         // just pops the nested context
         const result = {
             getModelURI: this.getModelURI.bind(this),
+            getPrincipal: this.getPrincipal.bind(this),
             isOpen: this.isOpen.bind(this),
             edit: this.edit.bind(this),
             applyPatch: this.applyPatch.bind(this),
@@ -703,7 +1142,9 @@ class DefaultTransactionContext implements TransactionContext {
             openTransaction: this.openTransaction.bind(this),
             rollback: this.rollback.bind(this),
             // This is the slight wrinkle
-            commit: this.popNestedContext.bind(this)
+            commit: this.popNestedContext.bind(this),
+            // The upstream server cannot roll back only the changes of a child transaction
+            preview: () => Promise.reject(new Error('A nested transaction cannot be previewed.'))
         };
 
         return Promise.resolve(result);
@@ -713,6 +1154,21 @@ class DefaultTransactionContext implements TransactionContext {
 // A model update result indicating that the transaction was already closed or was rolled back
 const transactionClosed: ModelUpdateResult = { success: false };
 
+/** Query whether a model update result indicates success. */
+const isSuccess = (result?: ModelUpdateResult): boolean => !!result?.success;
+
+/**
+ * Describe a change to the entire content of a model as a model update result.
+ *
+ * @param op the kind of change
+ * @param value the new content of the model, if it was not removed
+ * @returns the model update result
+ */
+function wholeModelResult(op: 'add' | 'replace' | 'remove', value?: unknown): ModelUpdateResult {
+    const patch: Operation[] = [op === 'remove' ? { op, path: '' } : { op, path: '', value }];
+    return { success: true, patch };
+}
+
 /**
  * Query whether an `object` is any kind of `ModelServerCommand`.
  *
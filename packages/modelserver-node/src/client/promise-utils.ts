@@ -57,3 +57,31 @@ export namespace CompletablePromise {
         }
     }
 }
+
+/**
+ * Impose a time limit on the settlement of a promise.
+ *
+ * @param promise the promise to limit
+ * @param timeout the time limit, in milliseconds. A non-positive value means no limit
+ * @param onTimeout creates the error with which to reject the result if the `promise` does not settle in time
+ * @returns a promise that settles as the given `promise` or is rejected on time-out
+ */
+export function withTimeout<T>(promise: PromiseLike<T>, timeout: number, onTimeout: () => Error): Promise<T> {
+    if (timeout <= 0) {
+        return Promise.resolve(promise);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(() => reject(onTimeout()), timeout);
+        promise.then(
+            value => {
+                clearTimeout(timer);
+                resolve(value);
+            },
+            reason => {
+                clearTimeout(timer);
+                reject(reason);
+            }
+        );
+    });
+}
@@ -0,0 +1,143 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import { AxiosInstance, AxiosRequestConfig } from 'axios';
+import * as https from 'https';
+import * as URI from 'urijs';
+import * as WebSocket from 'ws';
+
+import { REQUEST_ID_HEADER, RequestContext } from '../request-context';
+import { UpstreamConnectionConfig } from './model-server-client';
+
+/** Default configuration of the connection to the _Upstream Model Server_. */
+export const DEFAULT_UPSTREAM_CONNECTION: Readonly<Omit<UpstreamConnectionConfig, 'serverPort'>> = {
+    hostname: 'localhost',
+    baseURL: 'api/v2',
+    basePath: '',
+    secure: false
+};
+
+/**
+ * Complete a partial upstream connection configuration with the defaults.
+ *
+ * @param config a port number or partial configuration of the upstream connection
+ * @returns the complete upstream connection configuration
+ */
+export function upstreamConnectionConfig(
+    config: number | (Partial<UpstreamConnectionConfig> & Pick<UpstreamConnectionConfig, 'serverPort'>)
+): UpstreamConnectionConfig {
+    return typeof config === 'number'
+        ? { ...DEFAULT_UPSTREAM_CONNECTION, serverPort: config }
+        : { ...DEFAULT_UPSTREAM_CONNECTION, ...config };
+}
+
+/**
+ * Compute the HTTP URL of an endpoint on the _Upstream Model Server_.
+ *
+ * @param config the upstream connection configuration
+ * @param path an optional path to append to the `basePath` of the upstream server
+ * @returns the `http:` or `https:` URL, as appropriate
+ */
+export function upstreamHttpURL(config: UpstreamConnectionConfig, path?: string): URI {
+    return upstreamURL(config, config.secure ? 'https' : 'http', path);
+}
+
+/**
+ * Compute the websocket URL of an endpoint on the _Upstream Model Server_.
+ *
+ * @param config the upstream connection configuration
+ * @param path an optional path to append to the `basePath` of the upstream server
+ * @returns the `ws:` or `wss:` URL, as appropriate
+ */
+export function upstreamWebSocketURL(config: UpstreamConnectionConfig, path?: string): URI {
+    return upstreamURL(config, upstreamWebSocketProtocol(config), path);
+}
+
+/** Get the websocket protocol, `ws` or `wss`, for connections to the _Upstream Model Server_. */
+export function upstreamWebSocketProtocol(config: UpstreamConnectionConfig): 'ws' | 'wss' {
+    return config.secure ? 'wss' : 'ws';
+}
+
+function upstreamURL(config: UpstreamConnectionConfig, protocol: string, path?: string): URI {
+    const segments = [config.basePath, path]
+        .filter(segment => !!segment)
+        .map(segment => segment.replace(/^\/+|\/+$/g, ''))
+        .filter(segment => segment.length > 0);
+
+    return new URI({ protocol, hostname: config.hostname, port: String(config.serverPort), path: `/${segments.join('/')}` });
+}
+
+/**
+ * Obtain the Axios request configuration for HTTP requests to the _Upstream Model Server_,
+ * including extra headers and TLS options.
+ *
+ * @param config the upstream connection configuration
+ * @param baseURL the base URL for requests
+ * @returns the Axios configuration
+ */
+export function upstreamAxiosConfig(config: UpstreamConnectionConfig, baseURL: URI | string): AxiosRequestConfig {
+    const result: AxiosRequestConfig = { baseURL: baseURL.toString() };
+    if (config.headers) {
+        result.headers = { ...config.headers };
+    }
+    if (config.secure && (config.ca || config.rejectUnauthorized === false)) {
+        result.httpsAgent = new https.Agent(tlsOptions(config));
+    }
+    return result;
+}
+
+/**
+ * Make an Axios client send the correlation ID of the request being handled, if any, in the
+ * `X-Request-ID` header of its requests to the _Upstream Model Server_.
+ *
+ * @param client an Axios client for the _Upstream Model Server_
+ * @returns the same `client`
+ */
+export function propagateRequestId(client: AxiosInstance): AxiosInstance {
+    client.interceptors.request.use(request => {
+        const requestId = RequestContext.getRequestId();
+        if (requestId) {
+            request.headers = { ...request.headers, [REQUEST_ID_HEADER]: requestId };
+        }
+        return request;
+    });
+    return client;
+}
+
+/**
+ * Obtain the options for websocket connections to the _Upstream Model Server_,
+ * including extra headers and TLS options. If a request is being handled, its
+ * correlation ID is included in the `X-Request-ID` header.
+ *
+ * @param config the upstream connection configuration
+ * @returns the websocket client options
+ */
+export function upstreamWebSocketOptions(config: UpstreamConnectionConfig): WebSocket.ClientOptions {
+    const result: WebSocket.ClientOptions = config.secure ? tlsOptions(config) : {};
+    const requestId = RequestContext.getRequestId();
+    if (config.headers || requestId) {
+        result.headers = { ...config.headers };
+        if (requestId) {
+            result.headers[REQUEST_ID_HEADER] = requestId;
+        }
+    }
+    return result;
+}
+
+function tlsOptions(config: UpstreamConnectionConfig): Pick<https.AgentOptions, 'ca' | 'rejectUnauthorized'> {
+    const result: Pick<https.AgentOptions, 'ca' | 'rejectUnauthorized'> = {};
+    if (config.ca) {
+        result.ca = config.ca;
+    }
+    if (config.rejectUnauthorized !== undefined) {
+        result.rejectUnauthorized = config.rejectUnauthorized;
+    }
+    return result;
+}
@@ -25,3 +25,13 @@ export function validateModelURI(modeluri?: string): URI {
     const modelURI = new URI(modelURIParts).protocol('');
     return modelURI;
 }
+
+/**
+ * Compute a key that identifies a model by its URI, for book-keeping of per-model state.
+ *
+ * @param modeluri the model URI
+ * @returns the model's key
+ */
+export function modelURIKey(modeluri: URI | string): string {
+    return new URI(modeluri.toString()).normalize().toString();
+}
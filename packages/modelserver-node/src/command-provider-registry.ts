@@ -15,6 +15,18 @@ import { Operation } from 'fast-json-patch';
 import { inject, injectable, named } from 'inversify';
 import * as URI from 'urijs';
 
+import { ProviderGuard } from './provider-guard';
+import { className } from './trigger-provider-registry';
+
+/**
+ * Description of the command providers registered for a custom command type, for diagnostic purposes.
+ */
+export interface CommandProviderDescription {
+    commandType: string;
+    /** The number of providers registered for the command type. */
+    providers: number;
+}
+
 /**
  * A registry of command providers from _Model Server_ plug-ins.
  */
@@ -24,6 +36,9 @@ export class CommandProviderRegistry {
     @named(CommandProviderRegistry.name)
     protected readonly logger: Logger;
 
+    @inject(ProviderGuard)
+    protected readonly guard: ProviderGuard;
+
     protected providers: Map<string, CommandProvider[]> = new Map();
 
     protected readonly primitiveCommandTypes = new Set([AddCommand.TYPE, RemoveCommand.TYPE, SetCommand.TYPE]);
@@ -58,6 +73,7 @@ export class CommandProviderRegistry {
         if (this.providers.has(commandType)) {
             const existing = this.providers.get(commandType);
             const updated = existing.filter(item => !provider.includes(item));
+            provider.forEach(item => this.guard.forget(item));
             if (updated.length > 0) {
                 this.providers.set(commandType, updated);
             } else {
@@ -81,9 +97,20 @@ export class CommandProviderRegistry {
         return this.providers.get(commandType) || [];
     }
 
+    /**
+     * Describe the registered command providers for diagnostic purposes.
+     *
+     * @returns descriptions of the custom command types for which providers are registered
+     */
+    describeProviders(): CommandProviderDescription[] {
+        return Array.from(this.providers.entries()).map(([commandType, providers]) => ({ commandType, providers: providers.length }));
+    }
+
     getProvider(command: ModelServerCommand): CommandProvider | undefined {
         this.logger.debug(`Looking up provider for custom ${command.type} command`);
-        return this.getProviders(command.type).find(p => p.canHandle(command));
+        return this.getProviders(command.type).find(p =>
+            this.guard.test(p, this.describeProvider(p, command.type), () => p.canHandle(command))
+        );
     }
 
     /**
@@ -99,7 +126,11 @@ export class CommandProviderRegistry {
         const provider = this.getProvider(customCommand);
         if (provider) {
             this.logger.debug(`Invoking provider for custom ${customCommand.type} command`);
-            result = await provider.getCommands(modelUri, customCommand);
+            const description = this.describeProvider(provider, customCommand.type);
+            result = await this.guard.invoke(provider, description, () => provider.getCommands(modelUri, customCommand));
+            if (typeof result === 'function') {
+                result = this.guard.guardTransaction(provider, description, result);
+            }
 
             if (!result) {
                 this.logger.warn(`No commands provided. Custom ${customCommand.type} command will be unhandled.`);
@@ -111,4 +142,16 @@ export class CommandProviderRegistry {
         // If no commands are provided, the custom stands for itself
         return customCommand;
     }
+
+    /**
+     * Describe a command provider for diagnostic purposes.
+     *
+     * @param provider the command provider
+     * @param commandType the custom command type for which it is registered
+     * @returns a description of the command provider
+     */
+    protected describeProvider(provider: CommandProvider, commandType: string): string {
+        const name = className(provider);
+        return name ? `Custom ${commandType} command provider ${name}` : `Custom ${commandType} command provider`;
+    }
 }
@@ -13,13 +13,25 @@ import 'reflect-metadata';
 import { Container, ContainerModule } from 'inversify';
 
 import { UpstreamConnectionConfig } from './client/model-server-client';
+import { upstreamConnectionConfig } from './client/upstream-connection';
 
 export const LogLevel = Symbol('LogLevel');
 
 /** Enumeration of supported logging levels. */
 export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
 
-export async function createContainer(modelServerPort: number, loggingLevel: LogLevel = 'info'): Promise<Container> {
+/** Specification of the connection to the _Upstream Model Server_: either just its port on the local host or a connection configuration. */
+export type UpstreamConnection = number | (Partial<UpstreamConnectionConfig> & Pick<UpstreamConnectionConfig, 'serverPort'>);
+
+/**
+ * Create the Inversify container for the _Model Server_.
+ *
+ * @param upstream the TCP port of the _Upstream Model Server_ on the local host or, more generally, the configuration
+ *    of the connection to it. Any properties omitted from the configuration take default values
+ * @param loggingLevel the logging level
+ * @returns the container
+ */
+export async function createContainer(upstream: UpstreamConnection, loggingLevel: LogLevel = 'info'): Promise<Container> {
     const result = new Container();
     result.bind(LogLevel).toConstantValue(loggingLevel);
     const modules = loadModules();
@@ -27,7 +39,7 @@ export async function createContainer(modelServerPort: number, loggingLevel: Log
     return modules
         .then(resolved => result.load(...resolved))
         .then(() => {
-            result.load(modelServerModule(modelServerPort));
+            result.load(modelServerModule(upstreamConnectionConfig(upstream)));
             return result;
         });
 }
@@ -39,12 +51,8 @@ async function loadModules(): Promise<ContainerModule[]> {
     return Promise.resolve(result);
 }
 
-function modelServerModule(modelServerPort: number): ContainerModule {
+function modelServerModule(upstream: UpstreamConnectionConfig): ContainerModule {
     return new ContainerModule(bind => {
-        bind(UpstreamConnectionConfig).toConstantValue({
-            baseURL: 'api/v2',
-            serverPort: modelServerPort,
-            hostname: 'localhost'
-        });
+        bind(UpstreamConnectionConfig).toConstantValue(upstream);
     });
 }
@@ -9,6 +9,36 @@
  * SPDX-License-Identifier: EPL-2.0 OR MIT
  *******************************************************************************/
 
+export * from './client/edit-queue';
+export { UpstreamConnectionConfig } from './client/model-server-client';
+export * from './client/upstream-connection';
 export * from './di';
+export * from './plugin-loader';
+export { DEFAULT_PROVIDER_GUARD_OPTIONS, ProviderError, ProviderGuardOptions, ProviderTimeoutError } from './provider-guard';
 export * from './server';
 export * from './server-module';
+export { AuditOptions, DEFAULT_AUDIT_OPTIONS } from './services/audit-store';
+export { AuthenticationOptions, DEFAULT_AUTHENTICATION_OPTIONS } from './services/authentication-manager';
+export { AuthenticationError, JwtOptions, verifyJwt } from './services/authenticators';
+export {
+    AccessDeniedError,
+    AccessRule,
+    AuthorizationOptions,
+    DEFAULT_AUTHORIZATION_OPTIONS,
+    ModelAccess
+} from './services/authorization-manager';
+export { ConfigurationError, ConfigurationOptions, DEFAULT_CONFIGURATION_OPTIONS } from './services/configuration-manager';
+export { ExtensionsDescription, MiddlewareDescription, RouteDescription } from './services/extensions-inventory';
+export { DEFAULT_HEALTH_OPTIONS, HealthOptions, HealthStatus, UpstreamStatus } from './services/health-monitor';
+export {
+    DEFAULT_LOGGING_OPTIONS,
+    InvalidLogLevelError,
+    isLogLevel,
+    LogFormat,
+    LoggingOptions,
+    LogLevels
+} from './services/logging-manager';
+export { MetricError } from './services/metrics';
+export { DEFAULT_SUBSCRIPTION_OPTIONS, SubscriptionOptions } from './services/subscription-manager';
+export { DEFAULT_VALIDATION_OPTIONS, ModelPattern, ValidationOptions, ValidationVetoError } from './services/validation-manager';
+export { DEFAULT_TRIGGER_OPTIONS, TriggerLoopError, TriggerOptions } from './trigger-provider-registry';
@@ -12,35 +12,81 @@
 import { Logger } from '@eclipse-emfcloud/modelserver-plugin-ext';
 import { ContainerModule } from 'inversify';
 import { EOL } from 'os';
-import { createLogger, format, transports } from 'winston';
+import { createLogger, format, Logform, transport as Transport, transports } from 'winston';
 
-import { LogLevel } from './di';
+import { RequestContext } from './request-context';
+import { DEFAULT_LOGGING_OPTIONS, LoggingManager, LoggingOptions } from './services/logging-manager';
 
 const RootLogger = Symbol('RootLogger');
 
+/** Drop log records below the current level of the logger that logged them. */
+const levelFilter = format((info, opts: { manager: LoggingManager }) => opts.manager.isEnabled(info.level, info.service) && info);
+
+/** Tag log records with the correlation ID of the request being handled, if any. */
+const requestId = format(info => {
+    const id = RequestContext.getRequestId();
+    if (id) {
+        info.requestId = id;
+    }
+    return info;
+});
+
+/** Format log records as human-readable lines, optionally with colours. */
+function consoleFormat(colorize: boolean): Logform.Format {
+    return format.combine(
+        format.timestamp({
+            format: 'YYYY-MM-DD HH:mm:ss.SSS'
+        }),
+        ...(colorize ? [format.colorize()] : []),
+        format.metadata({ fillExcept: ['message', 'level', 'timestamp', 'label', 'service', 'requestId'] }),
+        format.printf(({ level, message, timestamp, service, requestId: id, metadata }) => {
+            const origin = id ? `${service} ${id}` : service;
+            let result = `[${timestamp} ${origin}] ${level}: ${message}`;
+            if (metadata?.stack) {
+                result = `${result}${EOL}${metadata.stack}`;
+            }
+            return result;
+        })
+    );
+}
+
+/** Format log records as JSON lines, for log aggregation. */
+function jsonFormat(): Logform.Format {
+    return format.combine(format.timestamp(), format.json());
+}
+
+/** Create the transports of the logs: the console and, if configured, a rotated log file. */
+function createTransports(options: LoggingOptions): Transport[] {
+    const json = options.format === 'json';
+    const result: Transport[] = [new transports.Console({ format: json ? jsonFormat() : consoleFormat(true) })];
+    if (options.file) {
+        result.push(
+            new transports.File({
+                filename: options.file,
+                maxsize: options.maxSize,
+                maxFiles: options.maxFiles,
+                tailable: true,
+                format: json ? jsonFormat() : consoleFormat(false)
+            })
+        );
+    }
+    return result;
+}
+
 export default new ContainerModule(bind => {
+    bind(LoggingOptions).toConstantValue(DEFAULT_LOGGING_OPTIONS);
+    bind(LoggingManager).toSelf().inSingletonScope();
+
     bind(RootLogger)
         .toDynamicValue(ctx => {
-            const logLevel = ctx.container.get(LogLevel) as LogLevel;
+            const manager = ctx.container.get(LoggingManager);
+            const options = ctx.container.get<LoggingOptions>(LoggingOptions);
             return createLogger({
-                level: logLevel,
-                format: format.combine(
-                    format.timestamp({
-                        format: 'YYYY-MM-DD HH:mm:ss.SSS'
-                    }),
-                    format.splat(),
-                    format.colorize(),
-                    format.metadata({ fillExcept: ['message', 'level', 'timestamp', 'label', 'service'] }),
-                    format.printf(({ level, message, timestamp, service, metadata }) => {
-                        let result = `[${timestamp} ${service}] ${level}: ${message}`;
-                        if (metadata?.stack) {
-                            result = `${result}${EOL}${metadata.stack}`;
-                        }
-                        return result;
-                    })
-                ),
+                // Levels are filtered per logger, so the transports must accept all of them
+                level: 'silly',
+                format: format.combine(levelFilter({ manager }), requestId(), format.splat()),
                 defaultMeta: { service: 'model-server' },
-                transports: [new transports.Console()]
+                transports: createTransports(options)
             });
         })
         .inSingletonScope();
@@ -10,24 +10,103 @@
  *******************************************************************************/
 
 import {
+    AuditSink,
     CommandProvider,
+    ConfigurationChangeListener,
+    ConfigurationSchema,
+    Counter,
     Logger,
+    MetricOptions,
+    ModelChangeListener,
     ModelServerPlugin,
     ModelServerPluginContext,
     Registration,
     TriggerProvider,
+    TriggerProviderRegistrationOptions,
     ValidationProvider,
     ValidationProviderRegistrationOptions
 } from '@eclipse-emfcloud/modelserver-plugin-ext';
-import { inject, injectable, multiInject, named, optional } from 'inversify';
+import { inject, injectable, multiInject, named, optional, postConstruct } from 'inversify';
 
 import { CommandProviderRegistry } from './command-provider-registry';
+import { AuditManager } from './services/audit-manager';
+import { ConfigurationManager } from './services/configuration-manager';
+import { MetricError, MetricsRegistry } from './services/metrics';
+import { ModelChangeNotifier } from './services/model-change-notifier';
+import { ProviderGuard } from './provider-guard';
 import { TriggerProviderRegistry } from './trigger-provider-registry';
 import { ValidationProviderRegistry } from './validation-provider-registry';
 
-interface InitializationResult {
-    name: string;
-    result: boolean;
+/**
+ * The status of a plug-in in the _Model Server_:
+ *
+ * - `pending`: the plug-in is not yet initialized
+ * - `loaded`: the plug-in is initialized and participating in the server
+ * - `failed`: the plug-in failed to initialize
+ * - `skipped`: the plug-in was not initialized because its dependencies are not available
+ * - `unloaded`: the plug-in was unloaded
+ */
+export type PluginStatus = 'pending' | 'loaded' | 'failed' | 'skipped' | 'unloaded';
+
+/** The kinds of services that plug-ins register through their context. */
+export type PluginRegistrationKind =
+    | 'command-provider'
+    | 'trigger-provider'
+    | 'validation-provider'
+    | 'audit-sink'
+    | 'model-change-listener'
+    | 'configuration-change-listener'
+    | 'counter';
+
+/**
+ * Description of a plug-in and the services that it registered, for diagnostic purposes.
+ */
+export interface PluginDescription {
+    id: string;
+    dependsOn: string[];
+    status: PluginStatus;
+    /** For a plug-in that failed or was skipped, the reason why. */
+    reason?: string;
+    /** The services that the plug-in registered, with the keys of their registrations. */
+    registrations: { kind: PluginRegistrationKind; key: string }[];
+}
+
+/**
+ * A registration made by a plug-in through its context.
+ */
+interface TrackedRegistration {
+    readonly kind: PluginRegistrationKind;
+    readonly registration: Registration<unknown, unknown>;
+}
+
+/**
+ * The state of a plug-in in the _Model Server_.
+ */
+interface PluginState {
+    readonly plugin: ModelServerPlugin;
+    /** The unique identifier of the plug-in. */
+    readonly name: string;
+    /** The identifiers of the plug-ins on which the plug-in depends. */
+    readonly dependsOn: string[];
+    /** The registrations that the plug-in made through its context, to be unregistered when it is unloaded. */
+    readonly registrations: TrackedRegistration[];
+    status: PluginStatus;
+    /** For a plug-in that failed or was skipped, the reason why. */
+    reason?: string;
+}
+
+function isLoaded(state?: PluginState): boolean {
+    return state?.status === 'loaded';
+}
+
+/**
+ * Error indicating a request to unload or reload a plug-in that does not exist.
+ */
+export class UnknownPluginError extends Error {
+    constructor(readonly pluginName: string) {
+        super(`No such plug-in: ${pluginName}`);
+        this.name = UnknownPluginError.name;
+    }
 }
 
 export const InternalModelServerPluginContext = Symbol('InternalModelServerPluginContext');
@@ -37,8 +116,49 @@ export const InternalModelServerPluginContext = Symbol('InternalModelServerPlugi
  * side of the plug-in framework.
  */
 export interface InternalModelServerPluginContext extends ModelServerPluginContext {
-    /** Initialize the registered plug-ins. */
-    initializePlugins(): Promise<unknown>;
+    /**
+     * Initialize the registered plug-ins, one at a time in the order of their dependencies.
+     * A plug-in is skipped if any of its dependencies is missing or failed to initialize.
+     * Subsequent calls return the result of the first.
+     *
+     * @returns a promise that resolves when all plug-ins have been initialized or skipped
+     */
+    initializePlugins(): Promise<void>;
+
+    /**
+     * Query whether the {@link initializePlugins initialization} of the plug-ins has finished.
+     */
+    isInitialized(): boolean;
+
+    /** Dispose the loaded plug-ins, in the reverse order of their initialization. */
+    disposePlugins(): Promise<void>;
+
+    /**
+     * Unload a plug-in: dispose it and unregister the services that it registered.
+     * Any loaded plug-ins that depend on it are unloaded first.
+     * Has no effect if the plug-in is not currently loaded.
+     *
+     * @param name the name of the plug-in to unload
+     * @throws {@link UnknownPluginError} if there is no such plug-in
+     */
+    unloadPlugin(name: string): Promise<void>;
+
+    /**
+     * Reload a plug-in: unload it, if it is loaded, and initialize it again.
+     * Any plug-ins that depend on it are likewise reloaded.
+     *
+     * @param name the name of the plug-in to reload
+     * @returns whether the plug-in was initialized
+     * @throws {@link UnknownPluginError} if there is no such plug-in
+     */
+    reloadPlugin(name: string): Promise<boolean>;
+
+    /**
+     * Describe the plug-ins and the services that they registered, for diagnostic purposes.
+     *
+     * @returns descriptions of the plug-ins, in the order of their initialization
+     */
+    describePlugins(): PluginDescription[];
 }
 
 /**
@@ -59,16 +179,156 @@ export class BasicModelServerPluginContext implements InternalModelServerPluginC
     @inject(ValidationProviderRegistry)
     protected validationProviderRegistry: ValidationProviderRegistry;
 
+    @inject(ProviderGuard)
+    protected providerGuard: ProviderGuard;
+
+    @inject(AuditManager)
+    protected auditManager: AuditManager;
+
+    @inject(ModelChangeNotifier)
+    protected modelChangeNotifier: ModelChangeNotifier;
+
+    @inject(ConfigurationManager)
+    protected configurationManager: ConfigurationManager;
+
+    @inject(MetricsRegistry)
+    protected metrics: MetricsRegistry;
+
     @optional()
     @multiInject(ModelServerPlugin)
     protected plugins: ModelServerPlugin[] = [];
 
-    async initializePlugins(): Promise<unknown> {
-        const initializer: (plugin: ModelServerPlugin) => Promise<InitializationResult> = this.initializePlugin.bind(this);
+    /** The plug-ins, in the order of their dependencies once they are initialized. */
+    protected pluginStates: PluginState[] = [];
+
+    protected initialization?: Promise<void>;
+
+    protected initialized = false;
+
+    @postConstruct()
+    protected initializePluginStates(): void {
+        for (const plugin of this.plugins) {
+            const name = plugin.id ?? plugin.constructor.name;
+            if (this.pluginStates.some(state => state.name === name)) {
+                this.logger.warn('Plug-in "%s" is ignored because another plug-in has the same ID.', name);
+                continue;
+            }
+            this.pluginStates.push({ plugin, name, dependsOn: plugin.dependsOn ?? [], registrations: [], status: 'pending' });
+        }
+    }
+
+    async initializePlugins(): Promise<void> {
+        if (!this.initialization) {
+            this.initialization = this.initializeInOrder(this.sortPluginStates()).then(() => {
+                this.initialized = true;
+            });
+        }
+        return this.initialization;
+    }
+
+    isInitialized(): boolean {
+        return this.initialized;
+    }
+
+    protected async initializeInOrder(states: PluginState[]): Promise<void> {
+        for (const state of states) {
+            await this.initializePlugin(state);
+        }
+    }
+
+    /**
+     * Sort the plug-ins in the order of their dependencies, otherwise retaining their registration order.
+     * Plug-ins that have circular dependencies cannot be ordered and are sorted last.
+     *
+     * @returns the plug-ins that may be initialized, in order
+     */
+    protected sortPluginStates(): PluginState[] {
+        const sorted: PluginState[] = [];
+        const pending = [...this.pluginStates];
+        const isPending = (name: string): boolean => pending.some(state => state.name === name);
+
+        let next: PluginState | undefined;
+        while ((next = pending.find(state => !state.dependsOn.some(isPending)))) {
+            sorted.push(next);
+            pending.splice(pending.indexOf(next), 1);
+        }
+
+        if (pending.length > 0) {
+            this.logger.error(
+                'Plug-ins have circular dependencies and are not initialized: %s.',
+                pending.map(state => state.name).join(', ')
+            );
+            pending.forEach(state => {
+                state.status = 'skipped';
+                state.reason = 'Circular dependencies';
+            });
+        }
+
+        this.pluginStates = [...sorted, ...pending];
+        return sorted;
+    }
+
+    async disposePlugins(): Promise<void> {
+        for (const state of [...this.pluginStates].reverse()) {
+            await this.disposePlugin(state);
+        }
+    }
+
+    async unloadPlugin(name: string): Promise<void> {
+        await this.unloadWithDependents(this.getPluginState(name));
+    }
+
+    async reloadPlugin(name: string): Promise<boolean> {
+        const state = this.getPluginState(name);
+        const unloaded = await this.unloadWithDependents(state);
+        await this.initializeInOrder(unloaded);
+        return isLoaded(state);
+    }
+
+    describePlugins(): PluginDescription[] {
+        return this.pluginStates.map(state => ({
+            id: state.name,
+            dependsOn: state.dependsOn,
+            status: state.status,
+            ...(state.reason ? { reason: state.reason } : {}),
+            registrations: state.registrations.map(({ kind, registration }) => ({ kind, key: String(registration.key) }))
+        }));
+    }
+
+    /**
+     * Unload a plug-in and, before it, the loaded plug-ins that depend on it.
+     *
+     * @param state the plug-in to unload
+     * @returns the plug-in and its dependents that were unloaded, in the order of their dependencies
+     */
+    protected async unloadWithDependents(state: PluginState): Promise<PluginState[]> {
+        const result = this.pluginStates.filter(other => other === state || (isLoaded(other) && this.dependsOn(other, state)));
+        for (const next of [...result].reverse()) {
+            await this.disposePlugin(next);
+        }
+        return result;
+    }
 
-        return Promise.all(this.plugins.filter(plugin => plugin.initialize).map(initializer)).then(results =>
-            results.filter(r => !r.result).forEach(r => this.reportFailedInit(r.name))
-        );
+    /**
+     * Query whether a plug-in depends, directly or indirectly, on another.
+     */
+    protected dependsOn(dependent: PluginState, dependency: PluginState, visited = new Set<PluginState>()): boolean {
+        if (visited.has(dependent)) {
+            return false;
+        }
+        visited.add(dependent);
+        return dependent.dependsOn.some(name => {
+            const next = this.pluginStates.find(state => state.name === name);
+            return next === dependency || (!!next && this.dependsOn(next, dependency, visited));
+        });
+    }
+
+    protected getPluginState(name: string): PluginState {
+        const result = this.pluginStates.find(state => state.name === name);
+        if (!result) {
+            throw new UnknownPluginError(name);
+        }
+        return result;
     }
 
     registerCommandProvider(commandType: string, provider: CommandProvider): Registration<string, CommandProvider> {
@@ -80,8 +340,11 @@ export class BasicModelServerPluginContext implements InternalModelServerPluginC
         };
     }
 
-    registerTriggerProvider(provider: TriggerProvider): Registration<string, TriggerProvider> {
-        const key = this.triggerProviderRegistry.register(provider);
+    registerTriggerProvider(
+        provider: TriggerProvider,
+        options?: TriggerProviderRegistrationOptions
+    ): Registration<string, TriggerProvider> {
+        const key = this.triggerProviderRegistry.register(provider, options);
         return {
             key,
             service: provider,
@@ -101,17 +364,155 @@ export class BasicModelServerPluginContext implements InternalModelServerPluginC
         };
     }
 
-    private async initializePlugin(plugin: ModelServerPlugin): Promise<InitializationResult> {
-        const name = plugin.constructor.name;
+    registerAuditSink(sink: AuditSink): Registration<string, AuditSink> {
+        const key = this.auditManager.register(sink);
+        return {
+            key,
+            service: sink,
+            unregister: () => this.auditManager.unregister(key, sink)
+        };
+    }
+
+    onModelChanged(modelURI: string | RegExp, listener: ModelChangeListener): Registration<string, ModelChangeListener> {
+        const key = this.modelChangeNotifier.register(modelURI, listener);
+        return {
+            key,
+            service: listener,
+            unregister: () => this.modelChangeNotifier.unregister(key, listener)
+        };
+    }
+
+    getConfiguration<T = Record<string, unknown>>(pluginId: string, schema?: ConfigurationSchema): T {
+        return this.configurationManager.getConfiguration(pluginId, schema);
+    }
+
+    onConfigurationChanged<T = Record<string, unknown>>(
+        pluginId: string,
+        listener: ConfigurationChangeListener<T>
+    ): Registration<string, ConfigurationChangeListener<T>> {
+        const key = this.configurationManager.register(pluginId, listener);
+        return {
+            key,
+            service: listener,
+            unregister: () => this.configurationManager.unregister(key, listener)
+        };
+    }
+
+    registerCounter(options: MetricOptions): Registration<string, Counter> {
+        if (this.metrics.has(options.name)) {
+            throw new MetricError(`Metric ${options.name} is already registered.`);
+        }
+        const counter = this.metrics.counter(options);
+        return {
+            key: options.name,
+            service: counter,
+            unregister: () => this.metrics.unregister(options.name, counter)
+        };
+    }
+
+    /**
+     * Create the context in which to initialize a plug-in, which tracks the registrations that it makes
+     * so that they may be unregistered when it is unloaded.
+     *
+     * @param state the plug-in state
+     * @returns the plug-in's context
+     */
+    protected createPluginContext(state: PluginState): ModelServerPluginContext {
+        const track = <K, T>(kind: PluginRegistrationKind, registration: Registration<K, T>): Registration<K, T> => {
+            const tracked: TrackedRegistration = { kind, registration };
+            state.registrations.push(tracked);
+            return {
+                ...registration,
+                unregister: () => {
+                    const index = state.registrations.indexOf(tracked);
+                    if (index >= 0) {
+                        state.registrations.splice(index, 1);
+                    }
+                    registration.unregister();
+                }
+            };
+        };
+
+        // Attribute providers to the plug-in for diagnosis of their failures
+        const attribute = <P extends object>(provider: P): P => {
+            this.providerGuard.attribute(provider, state.name);
+            return provider;
+        };
+
+        return {
+            registerCommandProvider: (commandType, provider) =>
+                track('command-provider', this.registerCommandProvider(commandType, attribute(provider))),
+            registerTriggerProvider: (provider, options) =>
+                track('trigger-provider', this.registerTriggerProvider(attribute(provider), options)),
+            registerValidationProvider: (provider, options) =>
+                track('validation-provider', this.registerValidationProvider(attribute(provider), options)),
+            registerAuditSink: sink => track('audit-sink', this.registerAuditSink(sink)),
+            onModelChanged: (modelURI, listener) => track('model-change-listener', this.onModelChanged(modelURI, listener)),
+            getConfiguration: (pluginId, schema) => this.getConfiguration(pluginId, schema),
+            onConfigurationChanged: (pluginId, listener) =>
+                track('configuration-change-listener', this.onConfigurationChanged(pluginId, listener)),
+            registerCounter: options => track('counter', this.registerCounter(options))
+        };
+    }
+
+    private async initializePlugin(state: PluginState): Promise<boolean> {
+        const { plugin, name } = state;
+        const missing = state.dependsOn.filter(dependency => !isLoaded(this.pluginStates.find(other => other.name === dependency)));
+        if (missing.length > 0) {
+            this.logger.warn('Plug-in "%s" is skipped because its dependencies are not available: %s.', name, missing.join(', '));
+            state.status = 'skipped';
+            state.reason = `Dependencies not available: ${missing.join(', ')}`;
+            return false;
+        }
+
+        state.reason = undefined;
+        if (!plugin.initialize) {
+            state.status = 'loaded';
+            return true;
+        }
+
         this.logger.info('Initializing plug-in %s.', name);
 
+        let result: boolean;
+        try {
+            result = await plugin.initialize(this.createPluginContext(state));
+        } catch (e) {
+            this.logger.error(e);
+            result = false;
+            state.reason = e instanceof Error ? e.message : String(e);
+        }
+
+        if (result) {
+            state.status = 'loaded';
+        } else {
+            state.status = 'failed';
+            state.reason = state.reason ?? 'Initialization was unsuccessful';
+            this.unregisterAll(state);
+            this.reportFailedInit(name);
+        }
+        return result;
+    }
+
+    private async disposePlugin(state: PluginState): Promise<void> {
+        if (!isLoaded(state)) {
+            return;
+        }
+
+        this.logger.info('Disposing plug-in %s.', state.name);
+        state.status = 'unloaded';
         try {
-            const result = await plugin.initialize!(this);
-            return { name, result };
+            await state.plugin.dispose?.();
         } catch (e) {
             this.logger.error(e);
-            return { name, result: false };
         }
+        this.unregisterAll(state);
+    }
+
+    private unregisterAll(state: PluginState): void {
+        state.registrations
+            .splice(0)
+            .reverse()
+            .forEach(({ registration }) => registration.unregister());
     }
 
     private reportFailedInit(pluginName: string): void {
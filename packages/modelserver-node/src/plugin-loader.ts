@@ -0,0 +1,213 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import * as fs from 'fs';
+import { ContainerModule } from 'inversify';
+import * as path from 'path';
+
+/** The key in a package's `package.json` that declares the module providing its _Model Server_ plug-in. */
+export const PLUGIN_ENTRY_KEY = 'modelserver-plugin';
+
+/**
+ * Configuration of the plug-in packages to load into the _Model Server_.
+ */
+export interface PluginConfiguration {
+    /**
+     * The plug-in packages to load, each either the name of an npm package or the path of a package directory.
+     * Relative paths are resolved against the base directory of the configuration.
+     */
+    plugins?: string[];
+    /**
+     * Whether to discover plug-in packages installed in `node_modules` that declare a `modelserver-plugin`
+     * entry in their `package.json`. Discovery is enabled by default.
+     */
+    discover?: boolean;
+    /** Names or paths of plug-in packages not to load, whether listed or discovered. */
+    disabled?: string[];
+}
+
+/**
+ * A plug-in package loaded by the {@link loadPlugins plug-in loader}.
+ */
+export interface LoadedPlugin {
+    /** The name of the plug-in package. */
+    name: string;
+    /** The directory of the plug-in package. */
+    location: string;
+    /** The container module contributed by the plug-in. */
+    module: ContainerModule;
+}
+
+/**
+ * A plug-in package that the {@link loadPlugins plug-in loader} failed to load.
+ */
+export interface PluginLoadFailure {
+    /** The name of the plug-in package or, if it could not be read, the name or path by which it was specified. */
+    name: string;
+    /** The reason for the failure. */
+    error: unknown;
+}
+
+/**
+ * The outcome of {@link loadPlugins loading plug-ins}.
+ */
+export interface PluginLoadResult {
+    /** The plug-ins that were loaded, in the order in which they were listed and then discovered. */
+    plugins: LoadedPlugin[];
+    /** The plug-ins that failed to load. */
+    failures: PluginLoadFailure[];
+}
+
+/**
+ * Read the plug-in configuration from a JSON file. Relative paths of plug-in packages in it
+ * are resolved against the directory containing the file.
+ *
+ * @param file the configuration file
+ * @returns the plug-in configuration
+ */
+export function readPluginConfiguration(file: string): PluginConfiguration {
+    const config: PluginConfiguration = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    const baseDir = path.dirname(path.resolve(file));
+    return { ...config, plugins: config.plugins?.map(plugin => (isPath(plugin) ? path.resolve(baseDir, plugin) : plugin)) };
+}
+
+/**
+ * Load the container modules of the configured and discovered plug-in packages. A package contributes the
+ * default export of the module named by the `modelserver-plugin` entry of its `package.json`, if it has one,
+ * or else of its main module. Failure to load any plug-in does not prevent the others loading.
+ *
+ * @param config the plug-in configuration
+ * @param baseDir the directory against which to resolve plug-in packages and from which to discover them
+ * @returns the plug-ins that were loaded and those that failed
+ */
+export function loadPlugins(config: PluginConfiguration, baseDir = process.cwd()): PluginLoadResult {
+    const result: PluginLoadResult = { plugins: [], failures: [] };
+    const disabled = new Set(config.disabled ?? []);
+    const seen = new Set<string>();
+
+    const load = (spec: string, resolve: () => string): void => {
+        if (disabled.has(spec)) {
+            return;
+        }
+        let name = spec;
+        try {
+            const location = fs.realpathSync(resolve());
+            if (seen.has(location)) {
+                return;
+            }
+            seen.add(location);
+
+            const pkg = readPackage(location);
+            name = pkg?.name ?? spec;
+            if (!disabled.has(name)) {
+                result.plugins.push({ name, location, module: requireContainerModule(location, pkg) });
+            }
+        } catch (error) {
+            result.failures.push({ name, error });
+        }
+    };
+
+    (config.plugins ?? []).forEach(spec => load(spec, () => resolvePackage(spec, baseDir)));
+    if (config.discover ?? true) {
+        discoverPlugins(baseDir).forEach(location => load(location, () => location));
+    }
+
+    return result;
+}
+
+/**
+ * Find the directories of packages installed in the `node_modules` directories visible from a base
+ * directory whose `package.json` declares a `modelserver-plugin` entry. Packages that cannot be read
+ * are skipped.
+ *
+ * @param baseDir the directory from which to search
+ * @returns the plug-in package directories, with symbolic links resolved
+ */
+export function discoverPlugins(baseDir = process.cwd()): string[] {
+    const result = new Set<string>();
+
+    for (const nodeModules of nodeModulesPaths(baseDir)) {
+        for (const location of listPackages(nodeModules)) {
+            try {
+                if (readPackage(location)?.[PLUGIN_ENTRY_KEY]) {
+                    result.add(fs.realpathSync(location));
+                }
+            } catch (error) {
+                // Not a package that we can load, anyways
+            }
+        }
+    }
+
+    return Array.from(result);
+}
+
+interface PackageJSON {
+    name?: string;
+    [PLUGIN_ENTRY_KEY]?: string;
+}
+
+function isPath(spec: string): boolean {
+    return path.isAbsolute(spec) || spec.startsWith('.');
+}
+
+function resolvePackage(spec: string, baseDir: string): string {
+    if (isPath(spec)) {
+        const location = path.resolve(baseDir, spec);
+        if (!fs.existsSync(location)) {
+            throw new Error(`No such plug-in directory: ${location}`);
+        }
+        return location;
+    }
+    return path.dirname(require.resolve(`${spec}/package.json`, { paths: [baseDir] }));
+}
+
+function readPackage(location: string): PackageJSON | undefined {
+    const file = path.join(location, 'package.json');
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : undefined;
+}
+
+function requireContainerModule(location: string, pkg?: PackageJSON): ContainerModule {
+    const entry = pkg?.[PLUGIN_ENTRY_KEY];
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const module = require(entry ? path.resolve(location, entry) : location);
+    const result = module?.default;
+    // Don't test `instanceof` because the plug-in may have its own copy of Inversify
+    if (typeof result?.registry !== 'function') {
+        throw new Error(`Plug-in ${pkg?.name ?? location} does not export a default ContainerModule.`);
+    }
+    return result;
+}
+
+function nodeModulesPaths(baseDir: string): string[] {
+    const result: string[] = [];
+    for (let dir = path.resolve(baseDir); ; dir = path.dirname(dir)) {
+        const nodeModules = path.join(dir, 'node_modules');
+        if (path.basename(dir) !== 'node_modules' && fs.existsSync(nodeModules)) {
+            result.push(nodeModules);
+        }
+        if (path.dirname(dir) === dir) {
+            return result;
+        }
+    }
+}
+
+function listPackages(nodeModules: string): string[] {
+    return fs.readdirSync(nodeModules, { withFileTypes: true }).flatMap(entry => {
+        const location = path.join(nodeModules, entry.name);
+        if (entry.name.startsWith('.') || !(entry.isDirectory() || entry.isSymbolicLink())) {
+            return [];
+        }
+        if (entry.name.startsWith('@')) {
+            return fs.readdirSync(location).map(scoped => path.join(location, scoped));
+        }
+        return [location];
+    });
+}
@@ -0,0 +1,205 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { Logger, MaybePromise, Transaction } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { inject, injectable, named } from 'inversify';
+
+import { withTimeout } from './client/promise-utils';
+
+export const ProviderGuardOptions = Symbol('ProviderGuardOptions');
+
+/**
+ * Configuration of the guarding of calls into command, trigger, and validation providers contributed by plug-ins.
+ */
+export interface ProviderGuardOptions {
+    /**
+     * How long, in milliseconds, a call into a provider may take before it is deemed to have failed.
+     * A non-positive value means to wait indefinitely.
+     */
+    timeout: number;
+    /**
+     * The number of consecutive failures of a provider after which it is disabled.
+     * A non-positive value means never to disable providers.
+     */
+    failureThreshold: number;
+}
+
+/** Default provider guard options. */
+export const DEFAULT_PROVIDER_GUARD_OPTIONS: ProviderGuardOptions = { timeout: 30000, failureThreshold: 5 };
+
+/**
+ * Error reporting the failure of a provider, which either threw or returned a rejected promise.
+ */
+export class ProviderError extends Error {
+    constructor(readonly provider: string, readonly cause: unknown) {
+        super(`${provider} failed: ${cause instanceof Error ? cause.message : cause}`);
+        this.name = ProviderError.name;
+    }
+}
+
+/**
+ * Error reporting a call into a provider that did not complete in time.
+ */
+export class ProviderTimeoutError extends Error {
+    constructor(readonly provider: string, readonly timeout: number) {
+        super(`${provider} timed out after ${timeout} ms.`);
+        this.name = ProviderTimeoutError.name;
+    }
+}
+
+/** The record of a provider's failures. */
+interface ProviderHealth {
+    /** The number of consecutive failures of the provider. */
+    failures: number;
+    /** Whether the provider is disabled because it failed too many times. */
+    disabled: boolean;
+}
+
+/**
+ * A guard on calls into providers contributed by plug-ins that isolates the _Model Server_ from their faults:
+ * calls are limited in time, exceptions are captured and attributed to the provider, and a provider that
+ * keeps failing is disabled.
+ */
+@injectable()
+export class ProviderGuard {
+    @inject(Logger)
+    @named(ProviderGuard.name)
+    protected readonly logger: Logger;
+
+    @inject(ProviderGuardOptions)
+    protected readonly options: ProviderGuardOptions;
+
+    protected readonly health: WeakMap<object, ProviderHealth> = new WeakMap();
+
+    /** The IDs of the plug-ins that registered providers. */
+    protected readonly owners: WeakMap<object, string> = new WeakMap();
+
+    /**
+     * Attribute a provider to the plug-in that registered it, for diagnostic purposes.
+     *
+     * @param provider the provider
+     * @param pluginId the ID of the plug-in that registered it
+     */
+    attribute(provider: object, pluginId: string): void {
+        this.owners.set(provider, pluginId);
+    }
+
+    /**
+     * Obtain the ID of the plug-in that registered a provider.
+     *
+     * @param provider the provider
+     * @returns the ID of the plug-in that registered it, if known
+     */
+    ownerOf(provider: object): string | undefined {
+        return this.owners.get(provider);
+    }
+
+    /**
+     * Query whether a provider is disabled because it failed too many times.
+     */
+    isDisabled(provider: object): boolean {
+        return this.health.get(provider)?.disabled ?? false;
+    }
+
+    /**
+     * Forget the failures of a provider, for example when it is unregistered, so that it is enabled again.
+     */
+    forget(provider: object): void {
+        this.health.delete(provider);
+    }
+
+    /**
+     * Evaluate a predicate of a provider, such as whether it applies to some model or command.
+     * A disabled provider does not apply, nor does a provider whose predicate throws.
+     *
+     * @param provider the provider
+     * @param description a description of the provider for diagnostic purposes
+     * @param predicate the predicate to evaluate
+     * @returns the result of the predicate, or `false` if it failed
+     */
+    test(provider: object, description: string, predicate: () => boolean): boolean {
+        if (this.isDisabled(provider)) {
+            return false;
+        }
+
+        try {
+            return predicate();
+        } catch (error) {
+            this.recordFailure(provider, description, error);
+            return false;
+        }
+    }
+
+    /**
+     * Call into a provider with a time limit.
+     *
+     * @param provider the provider
+     * @param description a description of the provider for diagnostic purposes
+     * @param call the call into the provider
+     * @returns the result of the call
+     *
+     * @throws {@link ProviderError} if the call failed or {@link ProviderTimeoutError} if it timed out
+     */
+    async invoke<T>(provider: object, description: string, call: () => MaybePromise<T>): Promise<T> {
+        const timeout = this.options.timeout;
+        try {
+            const result = await withTimeout(
+                Promise.resolve().then(call),
+                timeout,
+                () => new ProviderTimeoutError(this.attributed(provider, description), timeout)
+            );
+            this.health.delete(provider);
+            return result;
+        } catch (error) {
+            this.recordFailure(provider, description, error);
+            throw error instanceof ProviderTimeoutError ? error : new ProviderError(this.attributed(provider, description), error);
+        }
+    }
+
+    /**
+     * Guard a transaction provided by a provider, so that its execution is likewise limited in time and its faults captured.
+     *
+     * @param provider the provider of the transaction
+     * @param description a description of the provider for diagnostic purposes
+     * @param transaction the provided transaction
+     * @returns the guarded transaction
+     */
+    guardTransaction(provider: object, description: string, transaction: Transaction): Transaction {
+        return executor => this.invoke(provider, description, () => transaction(executor));
+    }
+
+    /**
+     * Describe a provider with the plug-in that registered it, if known.
+     *
+     * @param provider the provider
+     * @param description a description of the provider
+     * @returns the description, attributed to the plug-in
+     */
+    attributed(provider: object, description: string): string {
+        const owner = this.ownerOf(provider);
+        return owner ? `${description} of plug-in ${owner}` : description;
+    }
+
+    protected recordFailure(provider: object, description: string, error: unknown): void {
+        const health = this.health.get(provider) ?? { failures: 0, disabled: false };
+        health.failures++;
+        this.health.set(provider, health);
+
+        const attributed = this.attributed(provider, description);
+        this.logger.warn(`${attributed} failed: ${error instanceof Error ? error.message : error}`);
+
+        const threshold = this.options.failureThreshold;
+        if (!health.disabled && threshold > 0 && health.failures >= threshold) {
+            health.disabled = true;
+            this.logger.error(`${attributed} failed ${health.failures} consecutive times and is disabled.`);
+        }
+    }
+}
@@ -0,0 +1,109 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { Principal } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request, RequestHandler } from 'express';
+import { v4 as uuid } from 'uuid';
+
+/** The header that carries the correlation ID of a request, in incoming requests, responses, and calls to the _Upstream Model Server_. */
+export const REQUEST_ID_HEADER = 'X-Request-ID';
+
+/**
+ * The context of the handling of an incoming request, available to all of the
+ * asynchronous processing that it entails.
+ */
+export interface RequestContext {
+    /** The request being handled. */
+    readonly request: Request;
+    /** The correlation ID of the request, which links all of the logs and upstream calls that it entails. */
+    readonly requestId: string;
+    /** The authenticated caller that made the request, once it is authenticated. */
+    principal?: Principal;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+// Accept only modest IDs of visible ASCII characters, which cannot forge log lines or headers
+const VALID_REQUEST_ID = /^[\x21-\x7e]{1,128}$/;
+
+export namespace RequestContext {
+    /**
+     * Create a middleware that establishes the request context for the handling of each request.
+     * It should be installed ahead of all other middlewares and routes.
+     *
+     * The correlation ID of the request is taken from its `X-Request-ID` header, if it has a valid one,
+     * otherwise it is generated. In either case it is echoed in the `X-Request-ID` header of the response.
+     *
+     * @returns the request context middleware
+     */
+    export function middleware(): RequestHandler {
+        return (req, res, next) => {
+            const incoming = req.header(REQUEST_ID_HEADER);
+            const requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : uuid();
+            res.setHeader(REQUEST_ID_HEADER, requestId);
+            requestContext.run({ request: req, requestId }, () => next());
+        };
+    }
+
+    /**
+     * Obtain the context of the request currently being handled, if any.
+     *
+     * @returns the current request context, or `undefined` if there is no request being handled
+     */
+    export function get(): RequestContext | undefined {
+        return requestContext.getStore();
+    }
+
+    /**
+     * Obtain the correlation ID of the request currently being handled, if any.
+     *
+     * @returns the current request's correlation ID, or `undefined` if there is no request being handled
+     */
+    export function getRequestId(): string | undefined {
+        return get()?.requestId;
+    }
+
+    /**
+     * Obtain the authenticated caller that made the request currently being handled, if any.
+     *
+     * @returns the caller, or `undefined` if there is no request being handled or it is not authenticated
+     */
+    export function getPrincipal(): Principal | undefined {
+        return get()?.principal;
+    }
+
+    /**
+     * Obtain the identity of the caller that made the request currently being handled, if it is known.
+     * This is the ID of the authenticated principal or, failing that, the `user` that some other
+     * authentication middleware attached to the request, being either a string or an object having
+     * an `id`, `username`, or `name` string.
+     *
+     * @returns the identity of the caller, or `undefined` if it is not known
+     */
+    export function getUser(): string | undefined {
+        const principal = getPrincipal();
+        if (principal) {
+            return principal.id;
+        }
+        const user: unknown = (get()?.request as { user?: unknown })?.user;
+        if (typeof user === 'string') {
+            return user;
+        }
+        if (typeof user === 'object' && user) {
+            const identity = ['id', 'username', 'name']
+                .map(key => (user as Record<string, unknown>)[key])
+                .find(id => typeof id === 'string');
+            return identity as string | undefined;
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,106 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { Logger, RouteProvider, RouterFactory } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { Request, RequestHandler, Response } from 'express';
+import { inject, injectable, named } from 'inversify';
+import * as URI from 'urijs';
+
+import { validateModelURI } from '../client/uri-utils';
+import { RequestContext } from '../request-context';
+import { AuditManager } from '../services/audit-manager';
+import { AuditQuery } from '../services/audit-store';
+import { AuthorizationManager } from '../services/authorization-manager';
+import { authorize, handleError, handleUriError, relay } from './routes';
+
+/**
+ * Query parameters for the `GET` request on the `audit` endpoint.
+ */
+interface AuditGetQuery {
+    /** The model URI for which to retrieve the audit log, or absent for all models. */
+    modeluri?: string;
+    /** The earliest time of records to retrieve, either as an ISO 8601 string or milliseconds since the epoch. */
+    since?: string;
+    /** The latest time of records to retrieve, either as an ISO 8601 string or milliseconds since the epoch. */
+    until?: string;
+}
+
+/**
+ * Routing of requests on the `/api/v2/audit` endpoint, which queries the audit log of changes to models.
+ */
+@injectable()
+export class AuditRoutes implements RouteProvider {
+    @inject(Logger)
+    @named(AuditRoutes.name)
+    protected readonly logger: Logger;
+
+    @inject(AuditManager)
+    protected readonly auditManager: AuditManager;
+
+    @inject(AuthorizationManager)
+    protected readonly authorization: AuthorizationManager;
+
+    configureRoutes(routerFactory: RouterFactory): void {
+        routerFactory('/api/v2/audit').get('/', this.handleAuditGet().bind(this));
+    }
+
+    /**
+     * Create a `GET` request handler for the `/api/v2/audit` endpoint that retrieves records from the audit log,
+     * optionally filtered by model URI and a range of time. Only records of models that the caller may read are retrieved.
+     *
+     * @returns the audit query handler
+     */
+    protected handleAuditGet(): RequestHandler<unknown, any, any, AuditGetQuery, Record<string, any>> {
+        return async (req: Request<unknown, any, any, AuditGetQuery, Record<string, any>>, res: Response<any, Record<string, any>>) => {
+            // Records are keyed by the model URI as normalized for the Upstream Model Server
+            let modelURI: URI | undefined;
+            try {
+                modelURI = req.query.modeluri?.trim() ? validateModelURI(req.query.modeluri.trim()) : undefined;
+            } catch (error) {
+                handleUriError(res)(error);
+                return;
+            }
+            if (modelURI && !authorize(this.authorization, res, 'read', modelURI)) {
+                return;
+            }
+
+            let query: AuditQuery;
+            try {
+                query = {
+                    modelURI: modelURI?.toString(),
+                    since: parseTime('since', req.query.since),
+                    until: parseTime('until', req.query.until)
+                };
+            } catch (error) {
+                handleError(res)(error.message);
+                return;
+            }
+
+            const principal = RequestContext.getPrincipal();
+            this.auditManager
+                .query(query)
+                .then(records => records.filter(record => this.authorization.isAllowed(principal, 'read', record.modelURI)))
+                .then(relay(res))
+                .catch(handleError(res));
+        };
+    }
+}
+
+function parseTime(name: string, value?: string): Date | undefined {
+    if (!value || value.trim() === '') {
+        return undefined;
+    }
+    const result = /^\d+$/.test(value.trim()) ? new Date(Number(value)) : new Date(value);
+    if (isNaN(result.getTime())) {
+        throw new Error(`Invalid '${name}' parameter: ${value}`);
+    }
+    return result;
+}
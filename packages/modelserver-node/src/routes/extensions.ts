@@ -0,0 +1,57 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { Logger, RouteProvider, RouterFactory } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { Request, RequestHandler, Response } from 'express';
+import { inject, injectable, named } from 'inversify';
+
+import { AuthorizationManager } from '../services/authorization-manager';
+import { ExtensionsInventory } from '../services/extensions-inventory';
+import { authorizeAdmin, handleError, relay } from './routes';
+
+/**
+ * Routing of requests on the `/api/v2/server/extensions` endpoint, which describes the plug-ins loaded in the
+ * _Model Server_, the providers that they registered, and the routes and middlewares that extend the server.
+ */
+@injectable()
+export class ExtensionsRoutes implements RouteProvider {
+    @inject(Logger)
+    @named(ExtensionsRoutes.name)
+    protected readonly logger: Logger;
+
+    @inject(ExtensionsInventory)
+    protected readonly extensions: ExtensionsInventory;
+
+    @inject(AuthorizationManager)
+    protected readonly authorization: AuthorizationManager;
+
+    configureRoutes(routerFactory: RouterFactory): void {
+        routerFactory('/api/v2/server/extensions').get('/', this.handleExtensionsGet().bind(this));
+    }
+
+    /**
+     * Create a `GET` request handler for the `/api/v2/server/extensions` endpoint that describes the extensions of the server.
+     *
+     * @returns the extensions query handler
+     */
+    protected handleExtensionsGet(): RequestHandler<unknown, any, any, unknown, Record<string, any>> {
+        return async (_req: Request<unknown, any, any, unknown, Record<string, any>>, res: Response<any, Record<string, any>>) => {
+            if (!authorizeAdmin(this.authorization, res)) {
+                return;
+            }
+            try {
+                relay(res)({ ...this.extensions.describe() });
+            } catch (error) {
+                handleError(res)(error);
+            }
+        };
+    }
+}
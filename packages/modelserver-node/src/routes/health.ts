@@ -0,0 +1,64 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { Logger, RouteProvider, RouterFactory } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { Request, RequestHandler, Response } from 'express';
+import { inject, injectable, named } from 'inversify';
+
+import { HealthMonitor } from '../services/health-monitor';
+import { handleError } from './routes';
+
+/**
+ * Routing of requests on the `/health` endpoints, which report the liveness and readiness of the _Model Server_,
+ * for example to a container orchestrator. These are served by the _Model Server_ itself and are never forwarded
+ * to the _Upstream Model Server_.
+ */
+@injectable()
+export class HealthRoutes implements RouteProvider {
+    @inject(Logger)
+    @named(HealthRoutes.name)
+    protected readonly logger: Logger;
+
+    @inject(HealthMonitor)
+    protected readonly healthMonitor: HealthMonitor;
+
+    configureRoutes(routerFactory: RouterFactory): void {
+        const router = routerFactory('/health', { forwardToUpstream: false });
+        router.get('/live', this.handleLive().bind(this));
+        router.get('/ready', this.handleReady().bind(this));
+    }
+
+    /**
+     * Create a `GET` request handler for the `/health/live` endpoint that reports that the _Model Server_ is running.
+     *
+     * @returns the liveness handler
+     */
+    protected handleLive(): RequestHandler<unknown, any, any, unknown, Record<string, any>> {
+        return async (_req: Request<unknown, any, any, unknown, Record<string, any>>, res: Response<any, Record<string, any>>) => {
+            res.status(200).json({ type: 'success', data: { live: true, uptime: process.uptime() } });
+        };
+    }
+
+    /**
+     * Create a `GET` request handler for the `/health/ready` endpoint that reports whether the _Model Server_ is ready
+     * to serve requests, with a `503` status if it is not.
+     *
+     * @returns the readiness handler
+     */
+    protected handleReady(): RequestHandler<unknown, any, any, unknown, Record<string, any>> {
+        return async (_req: Request<unknown, any, any, unknown, Record<string, any>>, res: Response<any, Record<string, any>>) => {
+            this.healthMonitor
+                .getStatus()
+                .then(status => res.status(status.ready ? 200 : 503).json({ type: status.ready ? 'success' : 'error', data: status }))
+                .catch(handleError(res));
+        };
+    }
+}
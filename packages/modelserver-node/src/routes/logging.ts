@@ -0,0 +1,124 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import { Logger, RouteProvider, RouterFactory } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { Request, RequestHandler, Response } from 'express';
+import { inject, injectable, named } from 'inversify';
+
+import { AuthorizationManager } from '../services/authorization-manager';
+import { InvalidLogLevelError, isLogLevel, LoggingManager } from '../services/logging-manager';
+import { authorizeAdmin, handleError, relay } from './routes';
+
+/**
+ * Path parameters for requests on the `/api/v2/server/logging/{logger}` endpoint.
+ */
+interface LoggerParams {
+    /** The name of the logger whose level to set or reset. */
+    logger?: string;
+}
+
+/**
+ * Body of a request to set a log level.
+ */
+interface SetLevelBody {
+    data?: { level?: unknown };
+}
+
+/**
+ * Routing of requests on the `/api/v2/server/logging` endpoint, which administers the log levels of the
+ * _Model Server_ while it is running: the root level, which applies to all loggers by default, and the
+ * levels of individual loggers by name.
+ */
+@injectable()
+export class LoggingRoutes implements RouteProvider {
+    @inject(Logger)
+    @named(LoggingRoutes.name)
+    protected readonly logger: Logger;
+
+    @inject(LoggingManager)
+    protected readonly loggingManager: LoggingManager;
+
+    @inject(AuthorizationManager)
+    protected readonly authorization: AuthorizationManager;
+
+    configureRoutes(routerFactory: RouterFactory): void {
+        const router = routerFactory('/api/v2/server/logging');
+        router.get('/', this.handleGet().bind(this));
+        router.put('/', this.handlePut().bind(this));
+        router.put('/:logger', this.handlePut().bind(this));
+        router.delete('/:logger', this.handleDelete().bind(this));
+    }
+
+    /**
+     * Create a `GET` request handler for the `/api/v2/server/logging` endpoint that reports the current log levels.
+     *
+     * @returns the log levels handler
+     */
+    protected handleGet(): RequestHandler<unknown, any, any, unknown, Record<string, any>> {
+        return async (_req: Request<unknown, any, any, unknown, Record<string, any>>, res: Response<any, Record<string, any>>) => {
+            if (!authorizeAdmin(this.authorization, res)) {
+                return;
+            }
+
+            relay(res)({ ...this.loggingManager.getLevels() });
+        };
+    }
+
+    /**
+     * Create a `PUT` request handler for the `/api/v2/server/logging` endpoint that sets the root log level
+     * and for the `/api/v2/server/logging/{logger}` endpoint that sets the level of a logger.
+     * The request body is of the form `{ "data": { "level": "debug" } }`.
+     *
+     * @returns the log level update handler
+     */
+    protected handlePut(): RequestHandler<LoggerParams, any, SetLevelBody, unknown, Record<string, any>> {
+        return async (
+            req: Request<LoggerParams, any, SetLevelBody, unknown, Record<string, any>>,
+            res: Response<any, Record<string, any>>
+        ) => {
+            if (!authorizeAdmin(this.authorization, res)) {
+                return;
+            }
+            const logger = req.params.logger;
+            const level = req.body?.data?.level;
+            if (!isLogLevel(level)) {
+                handleError(res)(new InvalidLogLevelError(level));
+                return;
+            }
+
+            try {
+                this.loggingManager.setLevel(level, logger);
+                this.logger.info(`Log level of ${logger ?? 'all loggers'} set to ${level}.`);
+                relay(res)({ ...this.loggingManager.getLevels() });
+            } catch (error) {
+                handleError(res)(error);
+            }
+        };
+    }
+
+    /**
+     * Create a `DELETE` request handler for the `/api/v2/server/logging/{logger}` endpoint that removes the
+     * level of a logger, which then follows the root log level.
+     *
+     * @returns the log level reset handler
+     */
+    protected handleDelete(): RequestHandler<LoggerParams, any, any, unknown, Record<string, any>> {
+        return async (req: Request<LoggerParams, any, any, unknown, Record<string, any>>, res: Response<any, Record<string, any>>) => {
+            if (!authorizeAdmin(this.authorization, res)) {
+                return;
+            }
+            const logger = req.params.logger;
+            if (this.loggingManager.resetLevel(logger)) {
+                this.logger.info(`Log level of ${logger} reset to the root level.`);
+            }
+            relay(res)({ ...this.loggingManager.getLevels() });
+        };
+    }
+}
@@ -0,0 +1,44 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import { RouteProvider, RouterFactory } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { Request, RequestHandler, Response } from 'express';
+import { inject, injectable } from 'inversify';
+
+import { MetricsRegistry } from '../services/metrics';
+
+/** The content type of the Prometheus text exposition format. */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Routing of requests on the `/metrics` endpoint, which exposes the metrics of the _Model Server_ in the
+ * Prometheus text format for scraping. It is served by the _Model Server_ itself and is never forwarded
+ * to the _Upstream Model Server_.
+ */
+@injectable()
+export class MetricsRoutes implements RouteProvider {
+    @inject(MetricsRegistry)
+    protected readonly metrics: MetricsRegistry;
+
+    configureRoutes(routerFactory: RouterFactory): void {
+        routerFactory('/metrics', { forwardToUpstream: false }).get('/', this.handleGet().bind(this));
+    }
+
+    /**
+     * Create a `GET` request handler for the `/metrics` endpoint.
+     *
+     * @returns the metrics exposition handler
+     */
+    protected handleGet(): RequestHandler<unknown, any, any, unknown, Record<string, any>> {
+        return async (_req: Request<unknown, any, any, unknown, Record<string, any>>, res: Response<any, Record<string, any>>) => {
+            res.status(200).header('Content-Type', METRICS_CONTENT_TYPE).send(this.metrics.expose());
+        };
+    }
+}
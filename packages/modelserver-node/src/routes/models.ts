@@ -14,20 +14,33 @@ import {
     CompoundCommand,
     encode,
     ModelServerCommand,
+    ModelUpdateResult,
     RemoveCommand,
     SetCommand
 } from '@eclipse-emfcloud/modelserver-client';
 import { Logger, RouteProvider, RouterFactory } from '@eclipse-emfcloud/modelserver-plugin-ext';
-import { Request, RequestHandler, Response } from 'express';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
 import { Operation } from 'fast-json-patch';
 import { inject, injectable, named } from 'inversify';
 import * as URI from 'urijs';
 
 import { ExecuteMessageBody, InternalModelServerClientApi, isModelServerCommand } from '../client/model-server-client';
 import { validateModelURI } from '../client/uri-utils';
+import { AuditManager } from '../services/audit-manager';
+import { AuthorizationManager } from '../services/authorization-manager';
 import { EditService } from '../services/edit-service';
+import { RevisionManager, toETag } from '../services/revision-manager';
 import { ValidationManager } from '../services/validation-manager';
-import { handleError, handleUriError, relay, validateFormat } from './routes';
+import { authorize, handleError, handleUriError, relay, relayRevision, validateFormat } from './routes';
+
+/**
+ * Query parameters for the `GET` request on the `models` endpoint.
+ */
+interface ModelsGetQuery {
+    /** The model URI to get, or absent to get all models. */
+    modeluri?: string;
+    format?: string;
+}
 
 /**
  * Query parameters for the `POST` or `PUT` request on the `models` endpoint.
@@ -44,6 +57,16 @@ interface ModelsPostPutQuery {
 interface ModelsPatchQuery {
     /** The model URI to patch. */
     modeluri: string;
+    /** Whether only to preview the changes that the patch or command would make, without making them. */
+    dryrun?: string;
+}
+
+/**
+ * Query parameters for the `DELETE` request on the `models` endpoint.
+ */
+interface ModelsDeleteQuery {
+    /** The model URI to delete. */
+    modeluri: string;
 }
 
 /**
@@ -66,11 +89,49 @@ export class ModelsRoutes implements RouteProvider {
     @inject(ValidationManager)
     protected readonly validationManager: ValidationManager;
 
+    @inject(RevisionManager)
+    protected readonly revisionManager: RevisionManager;
+
+    @inject(AuditManager)
+    protected readonly auditManager: AuditManager;
+
+    @inject(AuthorizationManager)
+    protected readonly authorization: AuthorizationManager;
+
     configureRoutes(routerFactory: RouterFactory): void {
         const router = routerFactory('/api/v2/models');
+        router.get('/', this.interceptModelsGet().bind(this));
         router.post('/', this.interceptModelsPostPut().bind(this));
         router.put('/', this.interceptModelsPostPut().bind(this));
         router.patch('/', this.interceptModelsPatch().bind(this));
+        router.delete('/', this.interceptModelsDelete().bind(this));
+    }
+
+    /**
+     * Create a `GET` request handler for the `/api/v2/models` endpoint to tag a model with its current revision.
+     * The model itself is served by the _Upstream Model Server_.
+     *
+     * @returns the models intercept handler
+     */
+    protected interceptModelsGet(): RequestHandler<unknown, any, any, ModelsGetQuery, Record<string, any>> {
+        return (
+            req: Request<unknown, any, any, ModelsGetQuery, Record<string, any>>,
+            res: Response<any, Record<string, any>>,
+            next: NextFunction
+        ) => {
+            if (!authorize(this.authorization, res, 'read', req.query.modeluri)) {
+                return;
+            }
+            if (req.query.modeluri) {
+                try {
+                    const modeluri = validateModelURI(req.query.modeluri);
+                    res.setHeader('ETag', toETag(this.revisionManager.getRevision(modeluri)));
+                } catch (error) {
+                    // Let the Upstream Model Server respond to the bad request
+                }
+            }
+            next();
+        };
     }
 
     /**
@@ -91,6 +152,9 @@ export class ModelsRoutes implements RouteProvider {
                 handleUriError(res)(error);
                 return;
             }
+            if (!authorize(this.authorization, res, 'edit', modeluri)) {
+                return;
+            }
             const format = validateFormat(req.query.format);
 
             const model = asModel(req.body?.data);
@@ -103,9 +167,48 @@ export class ModelsRoutes implements RouteProvider {
             this.logger.debug(`Delegating ${isCreate ? 'creation' : 'update'} of ${modeluri.toString()}.`);
             const delegated = isCreate //
                 ? this.modelServerClient.create(modeluri, model, format)
-                : this.modelServerClient.update(modeluri, model, format);
+                : this.revisionManager
+                      .withRevision(modeluri, req.header('If-Match'), () => this.modelServerClient.update(modeluri, model, format))
+                      .then(relayRevision(res));
 
-            delegated.then(this.performModelValidation(modeluri)).then(relay(res)).catch(handleError(res));
+            delegated
+                .then(this.recordModel(modeluri, isCreate ? 'create' : 'update'))
+                .then(this.performModelValidation(modeluri))
+                .then(relay(res))
+                .catch(handleError(res));
+        };
+    }
+
+    /**
+     * Create a `DELETE` request handler for the `/api/v2/models` endpoint to record the deletion of a model
+     * in the audit log after delegation of the deletion to the _Upstream Model Server_.
+     *
+     * @returns the models intercept handler
+     */
+    protected interceptModelsDelete(): RequestHandler<unknown, any, any, ModelsDeleteQuery, Record<string, any>> {
+        return async (req: Request<unknown, any, any, ModelsDeleteQuery, Record<string, any>>, res: Response<any, Record<string, any>>) => {
+            let modeluri: URI;
+            try {
+                modeluri = validateModelURI(req.query.modeluri);
+            } catch (error) {
+                handleUriError(res)(error);
+                return;
+            }
+            if (!authorize(this.authorization, res, 'delete', modeluri)) {
+                return;
+            }
+
+            this.logger.debug(`Delegating deletion of ${modeluri.toString()}.`);
+            this.modelServerClient
+                .delete(modeluri)
+                .then(async deleted => {
+                    if (deleted) {
+                        await this.auditManager.record(modeluri, 'delete', { patch: [{ op: 'remove', path: '' }] });
+                    }
+                    return deleted;
+                })
+                .then(relay(res))
+                .catch(handleError(res));
         };
     }
 
@@ -125,10 +228,15 @@ export class ModelsRoutes implements RouteProvider {
                 handleUriError(res)(error);
                 return;
             }
+            if (!authorize(this.authorization, res, 'edit', modeluri)) {
+                return;
+            }
 
             const message = req.body?.data;
+            const ifMatch = req.header('If-Match');
+            const dryRun = req.query.dryrun?.toLowerCase() === 'true';
             if (message && ExecuteMessageBody.isPatch(message)) {
-                return this.forwardEdit(modeluri, message.data, res);
+                return this.forwardEdit(modeluri, message.data, res, ifMatch, dryRun);
             }
 
             const command = asModelServerCommand(message?.data);
@@ -137,16 +245,47 @@ export class ModelsRoutes implements RouteProvider {
                 return;
             }
 
-            return this.forwardEdit(modeluri, command, res);
+            return this.forwardEdit(modeluri, command, res, ifMatch, dryRun);
         };
     }
 
+    /**
+     * Forward an edit to the edit service and relay its result, tagged with the resulting revision of the model.
+     *
+     * @param modelURI the model to edit
+     * @param patchOrCommand the edit to perform
+     * @param res the response stream
+     * @param ifMatch the entity tag(s) of the revision of the model that the client expects to edit, if any
+     * @param dryRun whether only to preview the edit, relaying the result that it would have without changing the model
+     */
     protected forwardEdit(
         modelURI: URI,
         patchOrCommand: Operation | Operation[] | ModelServerCommand,
-        res: Response<any, Record<string, any>>
+        res: Response<any, Record<string, any>>,
+        ifMatch?: string,
+        dryRun = false
     ): void {
-        this.editService.edit(modelURI, patchOrCommand).then(relay(res)).catch(handleError(res));
+        const edit = (): Promise<ModelUpdateResult> =>
+            dryRun ? this.editService.preview(modelURI, patchOrCommand) : this.editService.edit(modelURI, patchOrCommand);
+
+        this.revisionManager.withRevision(modelURI, ifMatch, edit).then(relayRevision(res)).then(relay(res)).catch(handleError(res));
+    }
+
+    /**
+     * Follow up creation or replacement of a model with a record of it in the audit log.
+     * The recorded patch replaces the entire content of the model.
+     *
+     * @param modelURI the model created or replaced
+     * @param operation whether the model was created or replaced
+     * @returns the created or replacing model
+     */
+    protected recordModel(modelURI: URI, operation: 'create' | 'update'): (delegatedResult: AnyObject) => Promise<AnyObject> {
+        return async (delegatedResult: AnyObject) => {
+            await this.auditManager.record(modelURI, operation, {
+                patch: [{ op: operation === 'create' ? 'add' : 'replace', path: '', value: delegatedResult }]
+            });
+            return delegatedResult;
+        };
     }
 
     /**
@@ -0,0 +1,96 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { Logger, RouteProvider, RouterFactory } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { Request, RequestHandler, Response } from 'express';
+import { inject, injectable, named } from 'inversify';
+
+import { InternalModelServerPluginContext } from '../plugin-context';
+import { AuthorizationManager } from '../services/authorization-manager';
+import { authorizeAdmin, handleError, relay } from './routes';
+
+/**
+ * Path parameters for requests on the `/api/v2/server/plugins` endpoint.
+ */
+interface PluginParams {
+    /** The name of the plug-in to unload or reload. */
+    name: string;
+}
+
+/**
+ * Routing of requests on the `/api/v2/server/plugins` endpoint, which administers the plug-ins
+ * loaded in the _Model Server_.
+ */
+@injectable()
+export class PluginRoutes implements RouteProvider {
+    @inject(Logger)
+    @named(PluginRoutes.name)
+    protected readonly logger: Logger;
+
+    @inject(InternalModelServerPluginContext)
+    protected readonly pluginContext: InternalModelServerPluginContext;
+
+    @inject(AuthorizationManager)
+    protected readonly authorization: AuthorizationManager;
+
+    configureRoutes(routerFactory: RouterFactory): void {
+        const router = routerFactory('/api/v2/server/plugins');
+        router.post('/:name/unload', this.handleUnload().bind(this));
+        router.post('/:name/reload', this.handleReload().bind(this));
+    }
+
+    /**
+     * Create a `POST` request handler for the `/api/v2/server/plugins/{name}/unload` endpoint that disposes
+     * a plug-in and unregisters everything that it registered.
+     *
+     * @returns the plug-in unload handler
+     */
+    protected handleUnload(): RequestHandler<PluginParams, any, any, unknown, Record<string, any>> {
+        return async (req: Request<PluginParams, any, any, unknown, Record<string, any>>, res: Response<any, Record<string, any>>) => {
+            if (!authorizeAdmin(this.authorization, res)) {
+                return;
+            }
+            const name = req.params.name;
+            this.logger.info(`Unloading plug-in ${name}.`);
+
+            this.pluginContext
+                .unloadPlugin(name)
+                .then(() => relay(res)(`Plug-in ${name} unloaded.`))
+                .catch(handleError(res));
+        };
+    }
+
+    /**
+     * Create a `POST` request handler for the `/api/v2/server/plugins/{name}/reload` endpoint that unloads
+     * a plug-in and initializes it again.
+     *
+     * @returns the plug-in reload handler
+     */
+    protected handleReload(): RequestHandler<PluginParams, any, any, unknown, Record<string, any>> {
+        return async (req: Request<PluginParams, any, any, unknown, Record<string, any>>, res: Response<any, Record<string, any>>) => {
+            if (!authorizeAdmin(this.authorization, res)) {
+                return;
+            }
+            const name = req.params.name;
+            this.logger.info(`Reloading plug-in ${name}.`);
+
+            this.pluginContext
+                .reloadPlugin(name)
+                .then(initialized => {
+                    if (!initialized) {
+                        throw new Error(`Plug-in ${name} failed to initialize.`);
+                    }
+                    relay(res)(`Plug-in ${name} reloaded.`);
+                })
+                .catch(handleError(res));
+        };
+    }
+}
@@ -8,10 +8,18 @@
  *
  * SPDX-License-Identifier: EPL-2.0 OR MIT
  *******************************************************************************/
-import { AnyObject, Format, ModelUpdateResult } from '@eclipse-emfcloud/modelserver-client';
+import { AnyObject, Diagnostic, Format, ModelUpdateResult } from '@eclipse-emfcloud/modelserver-client';
 import { Response } from 'express';
 import { ServerResponse } from 'http';
 
+import * as URI from 'urijs';
+
+import { UnknownPluginError } from '../plugin-context';
+import { AccessDeniedError, AuthorizationManager, ModelAccess } from '../services/authorization-manager';
+import { InvalidLogLevelError } from '../services/logging-manager';
+import { PreconditionFailedError, RevisedResult, toETag } from '../services/revision-manager';
+import { ValidationVetoError } from '../services/validation-manager';
+
 /**
  * Return an uri related error response to the upstream client.
  *
@@ -51,21 +59,153 @@ export function handleError(res: ServerResponse): (error: any) => void {
 
 /**
  * Return an error response to the upstream client.
+ * If the `error` carries a `diagnostic`, then that is included in the response.
  *
  * @param res the upstream response stream
  * @param error the error to report
  */
 export function respondError(res: ServerResponse, error: any): boolean {
+    if (error instanceof PreconditionFailedError) {
+        return respondPreconditionFailed(res, error);
+    }
+    if (error instanceof ValidationVetoError) {
+        return respondValidationVeto(res, error);
+    }
+    if (error instanceof UnknownPluginError) {
+        return respondUnknownPlugin(res, error);
+    }
+    if (error instanceof InvalidLogLevelError) {
+        return respondInvalidLogLevel(res, error);
+    }
+    if (error instanceof AccessDeniedError) {
+        return respondAccessDenied(res, error);
+    }
+
     res.writeHead(500, { 'Content-Type': 'application/json' });
+    const diagnostic = Diagnostic.is(error?.diagnostic) ? { diagnostic: error.diagnostic } : {};
     if (error.stack) {
-        res.write(JSON.stringify({ error: error.toString(), stackTrace: error.stack }));
+        res.write(JSON.stringify({ error: error.toString(), stackTrace: error.stack, ...diagnostic }));
     } else {
-        res.write(JSON.stringify({ error: error.toString() }));
+        res.write(JSON.stringify({ error: error.toString(), ...diagnostic }));
     }
     res.end();
     return false;
 }
 
+/**
+ * Return a response to the upstream client rejecting an edit whose precondition on the model revision failed.
+ * The response carries the current revision of the model.
+ *
+ * @param res the upstream response stream
+ * @param error the precondition failure to report
+ */
+function respondPreconditionFailed(res: ServerResponse, error: PreconditionFailedError): boolean {
+    res.writeHead(412, { 'Content-Type': 'application/json', ETag: toETag(error.revision) });
+    res.write(JSON.stringify({ type: 'error', data: error.message, revision: error.revision }));
+    res.end();
+    return false;
+}
+
+/**
+ * Return a response to the upstream client rejecting an edit that was vetoed by validation.
+ * The response carries the diagnostic that vetoed the edit.
+ *
+ * @param res the upstream response stream
+ * @param error the validation veto to report
+ */
+function respondValidationVeto(res: ServerResponse, error: ValidationVetoError): boolean {
+    res.writeHead(409, { 'Content-Type': 'application/json' });
+    res.write(JSON.stringify({ type: 'error', data: error.message, diagnostic: error.diagnostic }));
+    res.end();
+    return false;
+}
+
+/**
+ * Return a response to the upstream client rejecting a request on a plug-in that does not exist.
+ *
+ * @param res the upstream response stream
+ * @param error the unknown plug-in error to report
+ */
+function respondUnknownPlugin(res: ServerResponse, error: UnknownPluginError): boolean {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.write(JSON.stringify({ type: 'error', data: error.message }));
+    res.end();
+    return false;
+}
+
+/**
+ * Return a response to the upstream client rejecting a request to set an unsupported log level.
+ *
+ * @param res the upstream response stream
+ * @param error the invalid log level error to report
+ */
+function respondInvalidLogLevel(res: ServerResponse, error: InvalidLogLevelError): boolean {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.write(JSON.stringify({ type: 'error', data: error.message }));
+    res.end();
+    return false;
+}
+
+/**
+ * Return a response to the upstream client rejecting a request for access to a model that is not granted to the caller.
+ *
+ * @param res the upstream response stream
+ * @param error the access denial to report
+ */
+function respondAccessDenied(res: ServerResponse, error: AccessDeniedError): boolean {
+    res.writeHead(403, { 'Content-Type': 'application/json' });
+    res.write(JSON.stringify({ type: 'error', data: error.message }));
+    res.end();
+    return false;
+}
+
+/**
+ * Check that the caller of a request is granted access to a model, otherwise rejecting the request.
+ *
+ * @param authorization the controller of access to models
+ * @param res the upstream response stream
+ * @param access the kind of access that the request entails
+ * @param modelURI the model to access, or `undefined` to access all models
+ * @returns whether access is granted, so that the request may be handled
+ */
+export function authorize(authorization: AuthorizationManager, res: ServerResponse, access: ModelAccess, modelURI?: URI | string): boolean {
+    try {
+        authorization.checkAccess(access, modelURI);
+        return true;
+    } catch (error) {
+        return respondError(res, error);
+    }
+}
+
+/**
+ * Check that the caller of a request may administer the _Model Server_, otherwise rejecting the request.
+ *
+ * @param authorization the controller of access to models
+ * @param res the upstream response stream
+ * @returns whether administration is permitted, so that the request may be handled
+ */
+export function authorizeAdmin(authorization: AuthorizationManager, res: ServerResponse): boolean {
+    try {
+        authorization.checkAdmin();
+        return true;
+    } catch (error) {
+        return respondError(res, error);
+    }
+}
+
+/**
+ * Relay the revision of a model produced by an edit to the upstream client, as an `ETag` header.
+ *
+ * @param upstream the upstream response stream
+ * @returns a function that sets the `ETag` header of the response and returns the result of the edit
+ */
+export function relayRevision<T>(upstream: ServerResponse): (revised: RevisedResult<T>) => T {
+    return ({ result, revision }) => {
+        upstream.setHeader('ETag', toETag(revision));
+        return result;
+    };
+}
+
 /**
  * Relay a downstream response to the upstream client.
  *
@@ -74,7 +214,7 @@ export function respondError(res: ServerResponse, error: any): boolean {
  */
 export function relay(
     upstream: Response<any, Record<string, any>>
-): <T extends boolean | string | ModelUpdateResult | AnyObject>(downstream: T) => T {
+): <T extends boolean | string | ModelUpdateResult | AnyObject | unknown[]>(downstream: T) => T {
     const writeHead = (isError = false): unknown =>
         upstream.writeHead(isError ? 500 : 200, isError ? 'Internal Server Error' : 'OK', { 'Content-Type': 'application/json' });
 
@@ -12,7 +12,14 @@
 import { RouteProvider } from '@eclipse-emfcloud/modelserver-plugin-ext';
 import { ContainerModule } from 'inversify';
 
+import { AuditRoutes } from './audit';
+import { ExtensionsRoutes } from './extensions';
+import { HealthRoutes } from './health';
+import { LoggingRoutes } from './logging';
+import { MetricsRoutes } from './metrics';
 import { ModelsRoutes } from './models';
+import { PluginRoutes } from './plugins';
+import { SaveCloseRoutes } from './save-close';
 import { SubscriptionRoutes } from './subscription';
 import { UndoRedoRoutes } from './undo-redo';
 import { ValidationRoutes } from './validation';
@@ -22,4 +29,11 @@ export default new ContainerModule(bind => {
     bind(RouteProvider).to(ValidationRoutes);
     bind(RouteProvider).to(UndoRedoRoutes);
     bind(RouteProvider).to(SubscriptionRoutes);
+    bind(RouteProvider).to(AuditRoutes);
+    bind(RouteProvider).to(SaveCloseRoutes);
+    bind(RouteProvider).to(PluginRoutes);
+    bind(RouteProvider).to(ExtensionsRoutes);
+    bind(RouteProvider).to(HealthRoutes);
+    bind(RouteProvider).to(MetricsRoutes);
+    bind(RouteProvider).to(LoggingRoutes);
 });
@@ -0,0 +1,79 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { Logger, RouteProvider, RouterFactory } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { Request, RequestHandler, Response } from 'express';
+import { inject, injectable, named } from 'inversify';
+import * as URI from 'urijs';
+
+import { InternalModelServerClientApi } from '../client/model-server-client';
+import { validateModelURI } from '../client/uri-utils';
+import { AuthorizationManager } from '../services/authorization-manager';
+import { authorize, handleError, handleUriError, relay } from './routes';
+
+/**
+ * Query parameters for the `GET` request on the `save` endpoint and the `POST` request on the `close` endpoint.
+ */
+interface SaveCloseQuery {
+    /** The model URI to save or close. */
+    modeluri: string;
+}
+
+/**
+ * Custom routing of requests on the `/api/v2/{save,close}` endpoints.
+ * These are delegated to the _Upstream Model Server_ via the internal client so that
+ * plug-ins may be notified of the saving and closing of models.
+ */
+@injectable()
+export class SaveCloseRoutes implements RouteProvider {
+    @inject(Logger)
+    @named(SaveCloseRoutes.name)
+    protected readonly logger: Logger;
+
+    @inject(InternalModelServerClientApi)
+    protected readonly modelServerClient: InternalModelServerClientApi;
+
+    @inject(AuthorizationManager)
+    protected readonly authorization: AuthorizationManager;
+
+    configureRoutes(routerFactory: RouterFactory): void {
+        const router = routerFactory('/api/v2');
+        router.get('/save', this.interceptSaveClose().bind(this));
+        router.post('/close', this.interceptSaveClose().bind(this));
+    }
+
+    /**
+     * Create a request handler for the `/api/v2/{save,close}` endpoints that delegates the saving or closing
+     * of a model to the _Upstream Model Server_.
+     *
+     * @returns the save/close intercept handler
+     */
+    protected interceptSaveClose(): RequestHandler<unknown, any, any, SaveCloseQuery, Record<string, any>> {
+        return async (req: Request<unknown, any, any, SaveCloseQuery, Record<string, any>>, res: Response<any, Record<string, any>>) => {
+            let modeluri: URI;
+            try {
+                modeluri = validateModelURI(req.query.modeluri);
+            } catch (error) {
+                handleUriError(res)(error);
+                return;
+            }
+
+            const isSave = req.path.startsWith('/save');
+            if (!authorize(this.authorization, res, isSave ? 'save' : 'edit', modeluri)) {
+                return;
+            }
+            this.logger.debug(`Delegating ${isSave ? 'save' : 'close'} of ${modeluri.toString()}.`);
+
+            const delegated = isSave ? this.modelServerClient.save(modeluri) : this.modelServerClient.close(modeluri);
+            delegated.then(relay(res)).catch(handleError(res));
+        };
+    }
+}
@@ -15,8 +15,11 @@ import { inject, injectable, named } from 'inversify';
 import * as URI from 'urijs';
 
 import { InternalModelServerClientApi } from '../client/model-server-client';
+import { AuditManager } from '../services/audit-manager';
+import { AuthorizationManager } from '../services/authorization-manager';
+import { RevisionManager } from '../services/revision-manager';
 import { ValidationManager } from '../services/validation-manager';
-import { handleError, relay } from './routes';
+import { authorize, handleError, relay, relayRevision } from './routes';
 
 /**
  * Query parameters for the `GET` request on the `undo` or `redo` endpoint.
@@ -43,6 +46,15 @@ export class UndoRedoRoutes implements RouteProvider {
     @inject(ValidationManager)
     protected readonly validationManager: ValidationManager;
 
+    @inject(RevisionManager)
+    protected readonly revisionManager: RevisionManager;
+
+    @inject(AuditManager)
+    protected readonly auditManager: AuditManager;
+
+    @inject(AuthorizationManager)
+    protected readonly authorization: AuthorizationManager;
+
     configureRoutes(routerFactory: RouterFactory): void {
         const router = routerFactory('/api/v2');
         router.get('/undo', this.interceptUndoRedoGet().bind(this));
@@ -62,21 +74,44 @@ export class UndoRedoRoutes implements RouteProvider {
                 handleError(res)('Model URI parameter is absent or empty.');
                 return;
             }
+            if (!authorize(this.authorization, res, 'edit', modelURI)) {
+                return;
+            }
 
             const isUndo = req.path.startsWith('/undo');
             this.logger.debug(`Delegating ${isUndo ? 'undo' : 'redo'} of ${modelURI}.`);
 
-            const delegated = isUndo //
-                ? this.modelServerClient.undo(modelURI)
-                : this.modelServerClient.redo(modelURI);
+            const delegated = this.revisionManager.withRevision(modelURI, req.header('If-Match'), () =>
+                isUndo //
+                    ? this.modelServerClient.undo(modelURI)
+                    : this.modelServerClient.redo(modelURI)
+            );
 
             delegated
+                .then(relayRevision(res))
+                .then(this.recordUndoRedo(modelURI, isUndo))
                 .then(this.performLiveValidation(new URI(modelURI)))
                 .then(relay(res))
                 .catch(handleError(res));
         };
     }
 
+    /**
+     * Follow up an undo or redo of a model with a record of it in the audit log.
+     *
+     * @param modelURI the model of which a change was undone or redone
+     * @param isUndo whether the change was undone (otherwise it was redone)
+     * @returns a function that records the undo/redo result in the audit log if it was successful
+     */
+    protected recordUndoRedo(modelURI: string, isUndo: boolean): (delegatedResult: ModelUpdateResult) => Promise<ModelUpdateResult> {
+        return async (delegatedResult: ModelUpdateResult) => {
+            if (delegatedResult.success) {
+                await this.auditManager.record(modelURI, isUndo ? 'undo' : 'redo', { patch: delegatedResult.patch });
+            }
+            return delegatedResult;
+        };
+    }
+
     protected performLiveValidation(modelURI: URI): (delegatedResult: ModelUpdateResult) => Promise<ModelUpdateResult> {
         const validator = this.validationManager;
 
@@ -14,9 +14,10 @@ import { inject, injectable, named } from 'inversify';
 import * as URI from 'urijs';
 
 import { InternalModelServerClientApi } from '../client/model-server-client';
+import { AuthorizationManager } from '../services/authorization-manager';
 import { ValidationManager } from '../services/validation-manager';
 import { ValidationProviderRegistry } from '../validation-provider-registry';
-import { handleError, relay } from './routes';
+import { authorize, handleError, relay } from './routes';
 
 /**
  * Query parameters for the `GET` request on the `validation` endpoint.
@@ -46,6 +47,9 @@ export class ValidationRoutes implements RouteProvider {
     @inject(ValidationManager)
     protected readonly validationManager: ValidationManager;
 
+    @inject(AuthorizationManager)
+    protected readonly authorization: AuthorizationManager;
+
     configureRoutes(routerFactory: RouterFactory): void {
         routerFactory('/api/v2/validation').get('/', this.interceptValidationGet().bind(this));
     }
@@ -67,6 +71,9 @@ export class ValidationRoutes implements RouteProvider {
                 handleError(res)('Model URI parameter is absent or empty.');
                 return;
             }
+            if (!authorize(this.authorization, res, 'read', modelURI)) {
+                return;
+            }
 
             this.validationManager.validate(new URI(modelURI)).then(relay(res)).catch(handleError(res));
         };
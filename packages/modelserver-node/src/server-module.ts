@@ -18,28 +18,53 @@ import {
 import { ContainerModule } from 'inversify';
 import * as URI from 'urijs';
 
+import { DEFAULT_EDIT_QUEUE_OPTIONS, EditQueueOptions } from './client/edit-queue';
 import { InternalModelServerClient, InternalModelServerClientApi } from './client/model-server-client';
 import { CommandProviderRegistry } from './command-provider-registry';
 import { BasicModelServerPluginContext, InternalModelServerPluginContext } from './plugin-context';
-import { ModelServer } from './server';
+import { DEFAULT_PROVIDER_GUARD_OPTIONS, ProviderGuard, ProviderGuardOptions } from './provider-guard';
+import { DEFAULT_SHUTDOWN_OPTIONS, ModelServer, ShutdownOptions } from './server';
+import { AuditManager } from './services/audit-manager';
+import { AuthenticationManager, AuthenticationOptions, DEFAULT_AUTHENTICATION_OPTIONS } from './services/authentication-manager';
+import { AuthorizationManager, AuthorizationOptions, DEFAULT_AUTHORIZATION_OPTIONS } from './services/authorization-manager';
+import { ModelChangeNotifier } from './services/model-change-notifier';
+import { AuditOptions, AuditStore, DEFAULT_AUDIT_OPTIONS, JSONLinesAuditStore } from './services/audit-store';
+import { ConfigurationManager, ConfigurationOptions, DEFAULT_CONFIGURATION_OPTIONS } from './services/configuration-manager';
+import { ExtensionsInventory } from './services/extensions-inventory';
+import { DEFAULT_HEALTH_OPTIONS, HealthMonitor, HealthOptions } from './services/health-monitor';
+import { MetricsRegistry } from './services/metrics';
 import { EditService } from './services/edit-service';
 import { DefaultModelService, MODEL_URI } from './services/model-service';
-import { SubscriptionManager } from './services/subscription-manager';
-import { ValidationManager } from './services/validation-manager';
-import { TriggerProviderRegistry } from './trigger-provider-registry';
+import { RevisionManager } from './services/revision-manager';
+import { DEFAULT_SUBSCRIPTION_OPTIONS, SubscriptionManager, SubscriptionOptions } from './services/subscription-manager';
+import { DEFAULT_VALIDATION_OPTIONS, ValidationManager, ValidationOptions } from './services/validation-manager';
+import { DEFAULT_TRIGGER_OPTIONS, TriggerOptions, TriggerProviderRegistry } from './trigger-provider-registry';
 import { ValidationProviderRegistry } from './validation-provider-registry';
 
 export default new ContainerModule(bind => {
     bind(ModelServerClientApi).toService(InternalModelServerClientApi);
     bind(InternalModelServerClientApi).to(InternalModelServerClient).inSingletonScope();
+    bind(EditQueueOptions).toConstantValue(DEFAULT_EDIT_QUEUE_OPTIONS);
 
     bind(CommandProviderRegistry).toSelf().inSingletonScope();
     bind(TriggerProviderRegistry).toSelf().inSingletonScope();
+    bind(TriggerOptions).toConstantValue(DEFAULT_TRIGGER_OPTIONS);
     bind(ValidationProviderRegistry).toSelf().inSingletonScope();
+    bind(ProviderGuard).toSelf().inSingletonScope();
+    bind(ProviderGuardOptions).toConstantValue(DEFAULT_PROVIDER_GUARD_OPTIONS);
 
     bind(SubscriptionManager).toSelf().inSingletonScope();
+    bind(SubscriptionOptions).toConstantValue(DEFAULT_SUBSCRIPTION_OPTIONS);
     bind(ValidationManager).toSelf().inSingletonScope();
+    bind(ValidationOptions).toConstantValue(DEFAULT_VALIDATION_OPTIONS);
     bind(EditService).toSelf().inSingletonScope();
+    bind(RevisionManager).toSelf().inSingletonScope();
+    bind(AuditManager).toSelf().inSingletonScope();
+    bind(AuditStore).to(JSONLinesAuditStore).inSingletonScope();
+    bind(AuditOptions).toConstantValue(DEFAULT_AUDIT_OPTIONS);
+    bind(ModelChangeNotifier).toSelf().inSingletonScope();
+    bind(ConfigurationManager).toSelf().inSingletonScope();
+    bind(ConfigurationOptions).toConstantValue(DEFAULT_CONFIGURATION_OPTIONS);
     bind(DefaultModelService).toSelf();
     bind(ModelService).toService(DefaultModelService);
     bind(ModelServiceFactory).toFactory(context => (modeluri: URI) => {
@@ -50,7 +75,16 @@ export default new ContainerModule(bind => {
 
     bind(BasicModelServerPluginContext).toSelf().inSingletonScope();
     bind(ModelServerPluginContext).toService(InternalModelServerPluginContext);
-    bind(InternalModelServerPluginContext).to(BasicModelServerPluginContext);
+    bind(InternalModelServerPluginContext).toService(BasicModelServerPluginContext);
 
+    bind(ExtensionsInventory).toSelf().inSingletonScope();
+    bind(HealthMonitor).toSelf().inSingletonScope();
+    bind(HealthOptions).toConstantValue(DEFAULT_HEALTH_OPTIONS);
+    bind(MetricsRegistry).toSelf().inSingletonScope();
+    bind(AuthenticationManager).toSelf().inSingletonScope();
+    bind(AuthenticationOptions).toConstantValue(DEFAULT_AUTHENTICATION_OPTIONS);
+    bind(AuthorizationManager).toSelf().inSingletonScope();
+    bind(AuthorizationOptions).toConstantValue(DEFAULT_AUTHORIZATION_OPTIONS);
     bind(ModelServer).toSelf().inSingletonScope();
+    bind(ShutdownOptions).toConstantValue(DEFAULT_SHUTDOWN_OPTIONS);
 });
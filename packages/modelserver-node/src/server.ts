@@ -11,18 +11,38 @@
 import { Logger, MiddlewareProvider, RouteProvider, RoutingOptions } from '@eclipse-emfcloud/modelserver-plugin-ext';
 import axios, { AxiosInstance, AxiosRequestConfig, Method } from 'axios';
 import * as express from 'express';
-import { Request, RequestHandler } from 'express';
+import { IRouter, Request, RequestHandler } from 'express';
 import * as asyncify from 'express-asyncify';
 import * as expressWS from 'express-ws';
 import { WebsocketRequestHandler } from 'express-ws';
 import * as http from 'http';
+import * as net from 'net';
 import { inject, injectable, multiInject, named, optional, postConstruct } from 'inversify';
 import * as URI from 'urijs';
 import * as WebSocket from 'ws';
 
-import { InternalModelServerClientApi } from './client/model-server-client';
+import { InternalModelServerClientApi, UpstreamConnectionConfig } from './client/model-server-client';
+import { withTimeout } from './client/promise-utils';
+import {
+    propagateRequestId,
+    upstreamAxiosConfig,
+    upstreamHttpURL,
+    upstreamWebSocketOptions,
+    upstreamWebSocketURL
+} from './client/upstream-connection';
 import { handleClose, handleError, WSUpgradeRequest } from './client/web-socket-utils';
 import { InternalModelServerPluginContext } from './plugin-context';
+import { RequestContext } from './request-context';
+import { authorize } from './routes/routes';
+import { ConfigurationManager } from './services/configuration-manager';
+import { ExtensionsInventory } from './services/extensions-inventory';
+import { AuthenticationManager } from './services/authentication-manager';
+import { AuthenticationError } from './services/authenticators';
+import { AccessDeniedError, accessOf, AuthorizationManager } from './services/authorization-manager';
+import { HealthMonitor } from './services/health-monitor';
+import { CounterMetric, HistogramMetric, MetricsRegistry, UPSTREAM_ERRORS } from './services/metrics';
+import { SubscriptionManager } from './services/subscription-manager';
+import { className } from './trigger-provider-registry';
 
 const STANDARD_ROUTES = new Set([
     '/models',
@@ -43,6 +63,25 @@ const STANDARD_ROUTES = new Set([
     '/uischema'
 ]);
 
+export const ShutdownOptions = Symbol('ShutdownOptions');
+
+/**
+ * Configuration of the shut-down of the _Model Server_.
+ */
+export interface ShutdownOptions {
+    /**
+     * How long, in milliseconds, to wait for edits and requests in progress to finish before open transactions
+     * are rolled back and connections are closed. A non-positive value means to wait indefinitely.
+     */
+    gracePeriod: number;
+}
+
+/** Default shut-down options. */
+export const DEFAULT_SHUTDOWN_OPTIONS: ShutdownOptions = { gracePeriod: 10000 };
+
+/** The reason given to clients for the closure of their websockets when the server shuts down. */
+const SHUTDOWN_REASON = 'Model Server shutting down.';
+
 /**
  * The _Model Server_ core.
  */
@@ -58,6 +97,33 @@ export class ModelServer {
     @inject(InternalModelServerPluginContext)
     protected pluginContext: InternalModelServerPluginContext;
 
+    @inject(UpstreamConnectionConfig)
+    protected upstreamConnectionConfig: UpstreamConnectionConfig;
+
+    @inject(ConfigurationManager)
+    protected configurationManager: ConfigurationManager;
+
+    @inject(ExtensionsInventory)
+    protected extensions: ExtensionsInventory;
+
+    @inject(HealthMonitor)
+    protected healthMonitor: HealthMonitor;
+
+    @inject(SubscriptionManager)
+    protected subscriptionManager: SubscriptionManager;
+
+    @inject(ShutdownOptions)
+    protected shutdownOptions: ShutdownOptions;
+
+    @inject(MetricsRegistry)
+    protected metrics: MetricsRegistry;
+
+    @inject(AuthenticationManager)
+    protected authentication: AuthenticationManager;
+
+    @inject(AuthorizationManager)
+    protected authorization: AuthorizationManager;
+
     @multiInject(RouteProvider)
     protected routeProviders: RouteProvider[] = [];
 
@@ -65,31 +131,66 @@ export class ModelServer {
     @multiInject(MiddlewareProvider)
     protected middlewareProviders: MiddlewareProvider[] = [];
 
-    @postConstruct()
-    protected initialize(): void {
-        this.pluginContext.initializePlugins();
-    }
-
     protected readonly backstopPaths = new Set<string>();
 
     protected server: http.Server;
 
+    /** Downstream websockets forwarded to the _Upstream Model Server_, with their upstream counterparts. */
+    protected readonly forwardedSockets: Map<WebSocket, WebSocket> = new Map();
+
+    /** The client connections open on the HTTP server, to cut off if they outlast the shut-down grace period. */
+    protected readonly connections: Set<net.Socket> = new Set();
+
+    protected stopping?: Promise<void>;
+
+    protected requestsTotal: CounterMetric;
+
+    protected requestDuration: HistogramMetric;
+
+    protected upstreamErrors: CounterMetric;
+
+    @postConstruct()
+    protected initializeMetrics(): void {
+        this.requestsTotal = this.metrics.counter({
+            name: 'modelserver_http_requests_total',
+            help: 'HTTP requests handled, by method, route, response status, and whether forwarded to the Upstream Model Server.',
+            labelNames: ['method', 'route', 'status', 'forwarded']
+        });
+        this.requestDuration = this.metrics.histogram({
+            name: 'modelserver_http_request_duration_seconds',
+            help: 'Duration of HTTP requests, by method, route, and whether forwarded to the Upstream Model Server.',
+            labelNames: ['method', 'route', 'forwarded']
+        });
+        this.upstreamErrors = this.metrics.counter(UPSTREAM_ERRORS);
+    }
+
     /**
      * Serve the Model Server application on the given TCP `port`.
      *
      * @param port the TCP port on which to listen for incoming requests
-     * @param upstreamPort the TCP port of the Upstream Model Server to which to forward and/or send requests
+     * @param upstreamPort the TCP port of the Upstream Model Server to which to forward and/or send requests.
+     *     If omitted, the port of the injected `UpstreamConnectionConfig` is used
      * @return whether the server started
      */
-    async serve(port: number, upstreamPort: number): Promise<boolean> {
+    async serve(port: number, upstreamPort?: number): Promise<boolean> {
+        // Plug-ins must be ready before we accept any requests
+        await this.pluginContext.initializePlugins();
+
         // We use async route handlers. Don't modify the Router prototype but explicitly ws-ify routers
-        const { applyTo: wsify, app } = asyncify(expressWS(express(), undefined, { leaveRouterUntouched: true }));
+        const application = express();
+        const { applyTo: wsify, app } = asyncify(
+            expressWS(application, undefined, { leaveRouterUntouched: true, wsOptions: { verifyClient: this.verifyUpgrade(application) } })
+        );
+        app.use(RequestContext.middleware());
+        app.use(this.measureRequests());
+        app.use(this.authentication.middleware());
         app.use(express.json());
 
         // Use provided before-middlewares that are applicable globally
-        this.middlewareProviders.flatMap(p => p.getMiddlewares?.(app) ?? []).forEach(mw => app.use(mw));
+        this.useMiddlewares(app, 'before', p => p.getMiddlewares?.(app));
 
         // Isolate contributed route handlers each in their own router.
+        let provider: RouteProvider | undefined;
         const routes = {
             routers: [] as Array<{ route: string; router: express.Router; options?: RoutingOptions }>,
             factory: (route: string, options?: RoutingOptions) => {
@@ -97,19 +198,28 @@ export class ModelServer {
                 wsify(newRouter);
 
                 // Apply provided route-specific _before_ middlewares
-                this.middlewareProviders
-                    .flatMap(p => p.getMiddlewares?.(newRouter, route, options?.routerId) ?? [])
-                    .forEach(mw => newRouter.use(mw));
+                this.useMiddlewares(
+                    newRouter,
+                    'before',
+                    p => p.getMiddlewares?.(newRouter, route, options?.routerId),
+                    route,
+                    options?.routerId
+                );
 
                 routes.routers.push({ route, router: newRouter, options });
+                this.extensions.recordRouter(nameOf(provider), route, newRouter, options?.routerId);
                 return newRouter;
             },
             install: () =>
                 routes.routers.forEach(r => {
                     // Install middlewares after the route handlers
-                    this.middlewareProviders
-                        .flatMap(p => p.getAfterMiddlewares?.(r.router, r.route, r.options?.routerId) ?? [])
-                        .forEach(mw => r.router.use(mw));
+                    this.useMiddlewares(
+                        r.router,
+                        'after',
+                        p => p.getAfterMiddlewares?.(r.router, r.route, r.options?.routerId),
+                        r.route,
+                        r.options?.routerId
+                    );
 
                     // Do we need a backstop to prevent `next()` delegation to the upstream server?
                     if (!r.options?.forwardToUpstream) {
@@ -132,22 +242,30 @@ export class ModelServer {
         };
 
         for (const routing of this.routeProviders) {
+            provider = routing;
             routing.configureRoutes(routes.factory);
         }
+        provider = undefined;
         routes.install();
 
         // Use provided after-middlewares that are applicable globally
-        this.middlewareProviders.flatMap(p => p.getAfterMiddlewares?.(app) ?? []).forEach(mw => app.use(mw));
+        this.useMiddlewares(app, 'after', p => p.getAfterMiddlewares?.(app));
 
-        const baseURL = new URI({ protocol: 'http', hostname: 'localhost', port: upstreamPort });
-        const upstream = axios.create({ baseURL: baseURL.toString() });
+        const upstreamConfig =
+            upstreamPort === undefined ? this.upstreamConnectionConfig : { ...this.upstreamConnectionConfig, serverPort: upstreamPort };
+        const upstream = propagateRequestId(axios.create(upstreamAxiosConfig(upstreamConfig, upstreamHttpURL(upstreamConfig))));
 
         app.all('*', this.forward(upstream));
-        app.ws('*', this.forwardWS(upstream));
+        app.ws('*', this.forwardWS(upstreamConfig));
 
         const result = this.modelServerClient.initialize();
         const resultHandler = (): boolean => {
             this.server = app.listen(port, () => this.logger.info(`Model Server (node.js) listening on port ${port}.`));
+            this.server.on('connection', socket => {
+                this.connections.add(socket);
+                socket.once('close', () => this.connections.delete(socket));
+            });
+            this.healthMonitor.start();
             return true;
         };
         if (result instanceof Promise) {
@@ -157,13 +275,103 @@ export class ModelServer {
     }
 
     /**
-     * Stop the server.
+     * Install the middlewares provided by the middleware providers in a router, recording them in the inventory of extensions.
+     *
+     * @param router the router in which to install the middlewares
+     * @param phase whether the middlewares are invoked before or after the route handlers
+     * @param getMiddlewares obtains the middlewares from a provider
+     * @param route the route of the router, or absent for global middlewares
+     * @param routerId the router's identifier, if any
+     */
+    protected useMiddlewares(
+        router: IRouter,
+        phase: 'before' | 'after',
+        getMiddlewares: (provider: MiddlewareProvider) => RequestHandler[] | undefined,
+        route?: string,
+        routerId?: string
+    ): void {
+        for (const provider of this.middlewareProviders) {
+            const middlewares = getMiddlewares(provider) ?? [];
+            middlewares.forEach(mw => router.use(mw));
+            if (middlewares.length > 0) {
+                this.extensions.recordMiddlewares({
+                    provider: nameOf(provider),
+                    phase,
+                    ...(route ? { route } : {}),
+                    ...(routerId ? { routerId } : {}),
+                    count: middlewares.length
+                });
+            }
+        }
+    }
+
+    /**
+     * Stop the server gracefully. The server stops accepting requests and waits up to the
+     * {@link ShutdownOptions.gracePeriod grace period} for edits in progress to finish, then rolls back transactions
+     * that are still open and closes the websockets of subscribers and of forwarded connections with code `1001`.
+     * Once the server has stopped, its plug-ins are disposed. Subsequent calls return the result of the first.
      *
      * @returns a promise that resolves when the server is stopped
      */
-    async stop(): Promise<void> {
-        return new Promise((resolve, reject) => {
-            this.server?.close((err?: Error) => {
+    stop(): Promise<void> {
+        if (!this.stopping) {
+            this.stopping = this.shutDown();
+        }
+        return this.stopping;
+    }
+
+    protected async shutDown(): Promise<void> {
+        this.logger.info(SHUTDOWN_REASON);
+        this.healthMonitor.stop();
+
+        try {
+            // Stop accepting requests
+            const closed = this.closeServer();
+            // Don't let a failure to close go unhandled while edits drain. It is reported when awaited, below
+            closed.catch(() => undefined);
+            const gracePeriod = this.shutdownOptions.gracePeriod;
+
+            const rolledBack = await this.modelServerClient.drain(gracePeriod);
+            if (rolledBack > 0) {
+                this.logger.warn(`Rolled back ${rolledBack} transactions that were still open.`);
+            }
+
+            this.subscriptionManager.closeAll(1001, SHUTDOWN_REASON);
+            this.closeForwardedSockets(1001, SHUTDOWN_REASON);
+
+            // Give any other requests in progress the grace period to finish before cutting them off
+            let timedOut = false;
+            await withTimeout(closed, gracePeriod, () => {
+                timedOut = true;
+                return new Error(`Requests still in progress after ${gracePeriod} ms.`);
+            }).catch(error => {
+                if (!timedOut) {
+                    throw error;
+                }
+                this.logger.warn(`${error.message} Closing their connections.`);
+                this.connections.forEach(socket => socket.destroy());
+                this.connections.clear();
+                return closed;
+            });
+            this.logger.info('Model Server stopped.');
+        } finally {
+            await this.pluginContext.disposePlugins();
+            this.configurationManager.dispose();
+        }
+    }
+
+    /**
+     * Stop the HTTP server accepting connections.
+     *
+     * @returns a promise that resolves when all connections have ended
+     */
+    protected closeServer(): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            if (!this.server) {
+                resolve();
+                return;
+            }
+            this.server.close((err?: Error) => {
                 if (err) {
                     this.logger.warn('Failed to stop server: %s', err.message);
                     reject(err);
@@ -174,6 +382,47 @@ export class ModelServer {
         });
     }
 
+    /**
+     * Close the websockets forwarded to the _Upstream Model Server_, both downstream and upstream.
+     *
+     * @param code the close code
+     * @param reason the reason for closure
+     */
+    protected closeForwardedSockets(code: number, reason: string): void {
+        this.forwardedSockets.forEach((upstream, downstream) => {
+            downstream.close(code, reason);
+            upstream.close(code, reason);
+        });
+        this.forwardedSockets.clear();
+    }
+
+    /**
+     * Create a middleware that records the count and duration of HTTP requests when their responses are finished.
+     * Requests are labelled by the route that handled them, so that route parameters do not multiply the time series,
+     * except that requests forwarded to the _Upstream Model Server_ are labelled by the standard endpoint that they
+     * address, if any, and other requests by `forwarded` or `unmatched`.
+     *
+     * @returns the measuring middleware
+     */
+    protected measureRequests(): RequestHandler {
+        return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+            if (WSUpgradeRequest.is(req)) {
+                // Websockets are not requests that finish
+                next();
+                return;
+            }
+
+            const endTimer = this.requestDuration.startTimer();
+            res.on('finish', () => {
+                const forwarded = res.locals.forwarded === true;
+                const labels = { method: req.method, route: routeOf(req, forwarded), forwarded: String(forwarded) };
+                endTimer(labels);
+                this.requestsTotal.inc({ ...labels, status: res.statusCode });
+            });
+            next();
+        };
+    }
+
     /**
      * Create a request handler that forwards requests to the given _Upstream Model Server_.
      *
@@ -193,6 +442,12 @@ export class ModelServer {
                 return;
             }
 
+            // Requests that do not address a model are authorized by the rules that apply to all models
+            const modeluri = typeof req.query.modeluri === 'string' ? req.query.modeluri : undefined;
+            if (!authorize(this.authorization, res, accessOf(req.method, req.path), modeluri)) {
+                return;
+            }
+
             const relayReq: AxiosRequestConfig = {
                 url: req.url,
                 method: req.method.toUpperCase() as Method,
@@ -200,13 +455,17 @@ export class ModelServer {
             };
 
             this.logger.debug(`Forwarding ${req.method} request on ${req.url} to Upstream Model Server.`);
+            res.locals.forwarded = true;
 
             upstream
                 .request(relayReq)
                 .then(relayRes => {
                     res.statusCode = relayRes.status;
                     res.statusMessage = relayRes.statusText;
-                    Object.entries(relayRes.headers).forEach(e => res.header(e[0], e[1]));
+                    // Headers set by intercepting route handlers take precedence
+                    Object.entries(relayRes.headers)
+                        .filter(e => !res.hasHeader(e[0]))
+                        .forEach(e => res.header(e[0], e[1]));
 
                     if (relayRes.data) {
                         res.json(relayRes.data);
@@ -218,13 +477,18 @@ export class ModelServer {
                     if (axios.isAxiosError(error)) {
                         if (error.response) {
                             // Got an error response from Upstream Model Server
+                            if (error.response.status >= 500) {
+                                this.upstreamErrors.inc({ source: 'forward' });
+                            }
                             res.statusCode = error.response.status;
                             res.statusMessage = error.response.statusText;
                             res.json({ data: error.response.data });
                         } else {
+                            this.upstreamErrors.inc({ source: 'forward' });
                             res.status(500).json(error.toJSON());
                         }
                     } else {
+                        this.upstreamErrors.inc({ source: 'forward' });
                         res.status(500).send(error);
                     }
                 });
@@ -234,13 +498,13 @@ export class ModelServer {
     /**
      * Create a request handler that forwards websocket upgrade requests to the given _Upstream Model Server_.
      *
-     * @param upstreamServer the _Upstream Model Server_ to which to forward websocket requests
+     * @param upstreamServer the connection configuration of the _Upstream Model Server_ to which to forward websocket requests
      * @returns the forwarding request handler
      */
-    protected forwardWS(upstreamServer: AxiosInstance): WebsocketRequestHandler {
+    protected forwardWS(upstreamServer: UpstreamConnectionConfig): WebsocketRequestHandler {
         return (downstream: WebSocket, req: WSUpgradeRequest) => {
             const wsURL = WSUpgradeRequest.getOriginalURL(req);
-            const baseURL = WSUpgradeRequest.toWebsocketURL(upstreamServer.defaults.baseURL).replace(/\/+$/, '');
+            const baseURL = upstreamWebSocketURL(upstreamServer).toString().replace(/\/+$/, '');
             const url = `${baseURL}${wsURL}`;
 
             this.logger.debug(`Forwarding websocket to Upstream Model Server.`);
@@ -248,9 +512,12 @@ export class ModelServer {
             let upstream: WebSocket;
 
             try {
-                upstream = new WebSocket(url);
+                upstream = new WebSocket(url, upstreamWebSocketOptions(upstreamServer));
+                this.forwardedSockets.set(downstream, upstream);
+                downstream.on('close', () => this.forwardedSockets.delete(downstream));
 
                 downstream.on('error', handleError('downstream', this.logger, upstream));
+                upstream.on('error', () => this.upstreamErrors.inc({ source: 'websocket' }));
                 upstream.on('error', handleError('upstream', this.logger, downstream));
                 downstream.on('close', handleClose('downstream', this.logger, upstream));
                 upstream.on('close', handleClose('upstream', this.logger, downstream));
@@ -258,11 +525,58 @@ export class ModelServer {
                 upstream.on('message', rawDataHelper(downstream));
             } catch (error) {
                 // The only exception caught here should be in creating the upstream socket
+                this.upstreamErrors.inc({ source: 'websocket' });
                 handleError('upstream', this.logger, downstream)(error);
             }
         };
     }
 
+    /**
+     * Create a verification of websocket upgrade requests that refuses, with an HTTP error response and before
+     * the websocket is established, those whose caller does not authenticate or is not granted access to the model
+     * that they address. Upgrade requests that do not address a model are authorized by the rules that apply to all models.
+     *
+     * @param app the application that handles the websockets once they are established
+     * @returns the websocket upgrade verification
+     */
+    protected verifyUpgrade(app: express.Express): WebSocket.VerifyClientCallbackAsync {
+        return ({ req }, callback) => {
+            if (!this.authorization.isEnabled()) {
+                callback(true);
+                return;
+            }
+
+            // Equip the request with the Express API, as the application itself will when it handles the websocket
+            const request: Request = Object.setPrototypeOf(req, app.request);
+            const authenticate =
+                this.authentication.isRequired() && !this.authentication.isExempt(request.path)
+                    ? this.authentication.authenticate(request)
+                    : Promise.resolve(undefined);
+            // The query is not yet parsed because no middleware has handled the request
+            const { modeluri } = new URI(request.url).query(true) as Record<string, unknown>;
+
+            authenticate
+                .then(principal =>
+                    this.authorization.checkAccess(
+                        accessOf(request.method, request.path),
+                        typeof modeluri === 'string' ? modeluri : undefined,
+                        principal
+                    )
+                )
+                .then(() => callback(true))
+                .catch(error => {
+                    if (error instanceof AuthenticationError) {
+                        callback(false, 401, error.message, { 'WWW-Authenticate': 'Bearer' });
+                    } else if (error instanceof AccessDeniedError) {
+                        callback(false, 403, error.message);
+                    } else {
+                        this.logger.error(`Failed to verify websocket request on ${request.path}: ${error}`);
+                        callback(false, 500);
+                    }
+                });
+        };
+    }
+
     protected shouldBackstop(req: Request): boolean {
         return this.backstopPaths.has(req.path);
     }
@@ -276,3 +590,22 @@ export class ModelServer {
 // Relay text data as text
 const rawDataHelper = (sock: WebSocket) => (data: WebSocket.RawData, isBinary: boolean) =>
     isBinary ? sock.send(data) : sock.send(data.toString());
+
+// Identify the route that handled a request or, for a request forwarded to upstream or that no route handled,
+// the standard Model Server endpoint that it addresses. Other paths are not told apart, to bound the metric labels
+function routeOf(req: express.Request, forwarded: boolean): string {
+    if (!forwarded && typeof req.route?.path === 'string') {
+        return `${req.baseUrl}${req.route.path}`.replace(/(.)\/+$/, '$1');
+    }
+    const path = req.path.replace(/(.)\/+$/, '$1');
+    const match = path.match(/^\/api\/v[12](\/.*)$/);
+    if (match && STANDARD_ROUTES.has(match[1])) {
+        return path;
+    }
+    return forwarded ? 'forwarded' : 'unmatched';
+}
+
+// Describe an extension provider by its class name
+function nameOf(provider?: object): string {
+    return className(provider) ?? 'anonymous';
+}
@@ -0,0 +1,112 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { AuditOperation, AuditRecord, AuditSink, Logger } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { Operation } from 'fast-json-patch';
+import { inject, injectable, named } from 'inversify';
+import * as URI from 'urijs';
+import { v4 as uuid } from 'uuid';
+
+import { validateModelURI } from '../client/uri-utils';
+import { RequestContext } from '../request-context';
+import { AuditQuery, AuditStore } from './audit-store';
+
+/**
+ * Details of a change to a model to record in the audit log.
+ */
+export interface AuditDetails {
+    /** For an edit by command, the type of the originating command. */
+    commandType?: string;
+    /** A JSON Patch describing the resulting change to the model. */
+    patch?: Operation[];
+}
+
+/**
+ * The audit log of changes to models, which persists records in the {@link AuditStore}
+ * and fans them out to the audit sinks registered by plug-ins.
+ */
+@injectable()
+export class AuditManager {
+    @inject(Logger)
+    @named(AuditManager.name)
+    protected readonly logger: Logger;
+
+    @inject(AuditStore)
+    protected readonly store: AuditStore;
+
+    protected readonly sinks: Map<string, AuditSink> = new Map();
+
+    /**
+     * Register an audit sink.
+     *
+     * @param sink the audit sink to register
+     * @returns the unique ID of the registration
+     */
+    register(sink: AuditSink): string {
+        const id = uuid();
+        this.sinks.set(id, sink);
+        return id;
+    }
+
+    /**
+     * Unregister an audit sink.
+     *
+     * @param id the unique ID of the registration
+     * @param sink the audit sink to unregister
+     */
+    unregister(id: string, sink: AuditSink): void {
+        if (this.sinks.get(id) === sink) {
+            this.sinks.delete(id);
+        }
+    }
+
+    /**
+     * Record a change to a model in the audit log. The identity of the caller is taken from the
+     * context of the request being handled, if any. Failure to record the change is logged but
+     * does not reject the result.
+     *
+     * @param modelURI the model that was changed
+     * @param operation the kind of change
+     * @param details details of the change
+     * @returns a promise that resolves when the store and all sinks have recorded the change
+     */
+    async record(modelURI: URI | string, operation: AuditOperation, details: AuditDetails = {}): Promise<void> {
+        const user = RequestContext.getUser();
+        const entry: AuditRecord = {
+            modelURI: validateModelURI(modelURI.toString()).toString(),
+            timestamp: new Date().toISOString(),
+            ...(user ? { user } : {}),
+            operation,
+            ...details
+        };
+
+        const sinks = [this.store, ...this.sinks.values()];
+        await Promise.all(
+            sinks.map(async sink => {
+                try {
+                    await sink.record(entry);
+                } catch (error) {
+                    this.logger.error(`Failed to record ${operation} of ${entry.modelURI} in the audit log: ${error}`);
+                }
+            })
+        );
+    }
+
+    /**
+     * Retrieve records from the audit log.
+     *
+     * @param query the criteria for selection of records
+     * @returns the matching records, in the order in which they were recorded
+     */
+    query(query: AuditQuery): Promise<AuditRecord[]> {
+        return this.store.query(query);
+    }
+}
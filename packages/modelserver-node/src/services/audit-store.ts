@@ -0,0 +1,120 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { AuditRecord, AuditSink } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import * as fs from 'fs';
+import { inject, injectable } from 'inversify';
+
+import { modelURIKey } from '../client/uri-utils';
+
+export const AuditOptions = Symbol('AuditOptions');
+
+/**
+ * Configuration of the audit log.
+ */
+export interface AuditOptions {
+    /** The path of the file in which to store the audit log. */
+    file: string;
+}
+
+/** The default configuration of the audit log, storing it in the working directory. */
+export const DEFAULT_AUDIT_OPTIONS: AuditOptions = { file: 'modelserver-audit.jsonl' };
+
+/**
+ * Criteria for the selection of records from the audit log.
+ */
+export interface AuditQuery {
+    /** The model for which to retrieve records, or absent for all models. */
+    modelURI?: string;
+    /** The earliest time (inclusive) of records to retrieve. */
+    since?: Date;
+    /** The latest time (inclusive) of records to retrieve. */
+    until?: Date;
+}
+
+export const AuditStore = Symbol('AuditStore');
+
+/**
+ * The persistent store of the audit log, which is the sink of audit records that may be queried.
+ */
+export interface AuditStore extends AuditSink {
+    /**
+     * Retrieve records from the audit log.
+     *
+     * @param query the criteria for selection of records
+     * @returns the matching records, in the order in which they were recorded
+     */
+    query(query: AuditQuery): Promise<AuditRecord[]>;
+}
+
+/**
+ * Default audit store that appends records to a file, one JSON object per line.
+ */
+@injectable()
+export class JSONLinesAuditStore implements AuditStore {
+    @inject(AuditOptions)
+    protected readonly options: AuditOptions;
+
+    /** The completion of the latest append to the file, which must be awaited before the next append or query. */
+    protected pending: Promise<unknown> = Promise.resolve();
+
+    record(entry: AuditRecord): Promise<void> {
+        const result = this.pending.then(() => fs.promises.appendFile(this.options.file, JSON.stringify(entry) + '\n', 'utf-8'));
+        this.pending = result.catch(() => undefined);
+        return result;
+    }
+
+    async query(query: AuditQuery): Promise<AuditRecord[]> {
+        await this.pending;
+
+        let content: string;
+        try {
+            content = await fs.promises.readFile(this.options.file, 'utf-8');
+        } catch (error) {
+            if (error.code === 'ENOENT') {
+                // Nothing has been recorded, yet
+                return [];
+            }
+            throw error;
+        }
+
+        return content
+            .split('\n')
+            .map(parseRecord)
+            .filter((record): record is AuditRecord => !!record && matches(query, record));
+    }
+}
+
+function parseRecord(line: string): AuditRecord | undefined {
+    if (line.trim() === '') {
+        return undefined;
+    }
+    try {
+        return JSON.parse(line);
+    } catch (error) {
+        // A partially written record, perhaps from a crash. Skip it
+        return undefined;
+    }
+}
+
+function matches(query: AuditQuery, record: AuditRecord): boolean {
+    if (query.modelURI && modelURIKey(record.modelURI) !== modelURIKey(query.modelURI)) {
+        return false;
+    }
+    const timestamp = Date.parse(record.timestamp);
+    if (query.since && timestamp < query.since.getTime()) {
+        return false;
+    }
+    if (query.until && timestamp > query.until.getTime()) {
+        return false;
+    }
+    return true;
+}
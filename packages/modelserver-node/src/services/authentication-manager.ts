@@ -0,0 +1,145 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { Authenticator, Logger, Principal } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { inject, injectable, multiInject, named, optional, postConstruct } from 'inversify';
+
+import { WSUpgradeRequest } from '../client/web-socket-utils';
+import { RequestContext } from '../request-context';
+import { AuthenticationError, JwtAuthenticator, JwtOptions, TokenAuthenticator } from './authenticators';
+
+export const AuthenticationOptions = Symbol('AuthenticationOptions');
+
+/**
+ * Configuration of the authentication of requests.
+ * Authentication is required if any authenticator is configured, whether built-in or contributed by a plug-in.
+ */
+export interface AuthenticationOptions {
+    /** Static API tokens accepted as bearer tokens, mapping each token to the principal that it authenticates or just its ID. */
+    tokens?: Record<string, string | Omit<Principal, 'scheme'>>;
+    /** Verification of JSON Web Tokens accepted as bearer tokens, if any. */
+    jwt?: JwtOptions;
+    /** Paths that do not require authentication, including all paths under them. */
+    exempt: string[];
+}
+
+/** Default authentication options, which do not configure any authenticator. */
+export const DEFAULT_AUTHENTICATION_OPTIONS: AuthenticationOptions = { exempt: ['/health', '/metrics'] };
+
+/**
+ * The authenticator of incoming requests, which consults the built-in authenticators and those contributed by plug-ins
+ * in turn until one of them recognizes the credentials of the request.
+ */
+@injectable()
+export class AuthenticationManager {
+    @inject(Logger)
+    @named(AuthenticationManager.name)
+    protected readonly logger: Logger;
+
+    @inject(AuthenticationOptions)
+    protected readonly options: AuthenticationOptions;
+
+    @optional()
+    @multiInject(Authenticator)
+    protected readonly pluginAuthenticators: Authenticator[] = [];
+
+    protected authenticators: Authenticator[] = [];
+
+    @postConstruct()
+    protected initialize(): void {
+        if (this.options.tokens && Object.keys(this.options.tokens).length > 0) {
+            this.authenticators.push(new TokenAuthenticator(this.options.tokens));
+        }
+        if (this.options.jwt) {
+            this.authenticators.push(new JwtAuthenticator(this.options.jwt));
+        }
+        this.authenticators.push(...this.pluginAuthenticators);
+    }
+
+    /** Query whether requests must be authenticated, which is the case when any authenticator is configured. */
+    isRequired(): boolean {
+        return this.authenticators.length > 0;
+    }
+
+    /**
+     * Query whether a request path is exempt from authentication.
+     *
+     * @param path a request path
+     * @returns whether the path is, or is under, any of the exempt paths
+     */
+    isExempt(path: string): boolean {
+        return this.options.exempt.some(exempt => path === exempt || path.startsWith(exempt.replace(/\/+$/, '') + '/'));
+    }
+
+    /**
+     * Authenticate a request.
+     *
+     * @param request an incoming request
+     * @returns the authenticated caller
+     *
+     * @throws {@link AuthenticationError} if the request has no credentials that any authenticator recognizes,
+     *    or an authenticator recognizes them but they are not valid
+     */
+    async authenticate(request: Request): Promise<Principal> {
+        for (const authenticator of this.authenticators) {
+            const result = await authenticator.authenticate(request);
+            if (result) {
+                return result;
+            }
+        }
+        throw new AuthenticationError('Authentication required.');
+    }
+
+    /**
+     * Create a middleware that rejects requests that do not authenticate, unless they are exempt, and otherwise
+     * records the authenticated caller in the request context and as the `user` of the request.
+     *
+     * @returns the authentication middleware
+     */
+    middleware(): RequestHandler {
+        return (req: Request, res: Response, next: NextFunction) => {
+            if (!this.isRequired() || this.isExempt(req.path)) {
+                next();
+                return;
+            }
+
+            this.authenticate(req).then(
+                principal => {
+                    const context = RequestContext.get();
+                    if (context) {
+                        context.principal = principal;
+                    }
+                    (req as { user?: unknown }).user = principal;
+                    next();
+                },
+                error => this.reject(req, res, error)
+            );
+        };
+    }
+
+    protected reject(req: Request, res: Response, error: unknown): void {
+        let message: string;
+        if (error instanceof AuthenticationError) {
+            message = error.message;
+            this.logger.debug(`Rejected ${req.method} ${req.path}: ${message}`);
+        } else {
+            message = 'Authentication failed.';
+            this.logger.error(`Failed to authenticate ${req.method} ${req.path}: ${error}`);
+        }
+
+        if (WSUpgradeRequest.is(req)) {
+            req.ws.close(1008, message);
+            return;
+        }
+        res.status(401).header('WWW-Authenticate', 'Bearer').json({ type: 'error', data: message });
+    }
+}
@@ -0,0 +1,256 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import { Authenticator, Principal } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { createHash, createHmac, createPublicKey, KeyObject, timingSafeEqual, verify } from 'crypto';
+import { Request } from 'express';
+import * as fs from 'fs';
+
+/**
+ * Error indicating that the credentials of a request are missing or not valid.
+ */
+export class AuthenticationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = AuthenticationError.name;
+    }
+}
+
+/**
+ * Configuration of the verification of JSON Web Tokens.
+ */
+export interface JwtOptions {
+    /**
+     * The path of the file containing the key that verifies the signatures of tokens: either a PEM public key
+     * or certificate, for the `RS*`, `PS*`, and `ES*` algorithms, or otherwise a shared secret, for the `HS*` algorithms.
+     */
+    keyFile: string;
+    /** The signature algorithms to accept. By default, all of those that are applicable to the key are accepted. */
+    algorithms?: string[];
+    /** The issuer that tokens must declare in their `iss` claim, if any. */
+    issuer?: string;
+    /** The audience that tokens must include in their `aud` claim, if any. */
+    audience?: string;
+    /** The claim that identifies the caller. Defaults to `sub`. */
+    subjectClaim?: string;
+    /** The tolerance, in seconds, for differences between clocks in checking the expiry of tokens. Defaults to 30. */
+    clockTolerance?: number;
+}
+
+/** The key that verifies the signatures of JSON Web Tokens: a public key or a shared secret. */
+export type JwtKey = KeyObject | Buffer;
+
+interface SignatureAlgorithm {
+    hash: string;
+    hmac?: boolean;
+    dsaEncoding?: 'ieee-p1363';
+    padding?: number;
+}
+
+const RSA_PKCS1_PSS_PADDING = 6;
+
+const ALGORITHMS: Record<string, SignatureAlgorithm> = {
+    HS256: { hash: 'sha256', hmac: true },
+    HS384: { hash: 'sha384', hmac: true },
+    HS512: { hash: 'sha512', hmac: true },
+    RS256: { hash: 'sha256' },
+    RS384: { hash: 'sha384' },
+    RS512: { hash: 'sha512' },
+    PS256: { hash: 'sha256', padding: RSA_PKCS1_PSS_PADDING },
+    PS384: { hash: 'sha384', padding: RSA_PKCS1_PSS_PADDING },
+    PS512: { hash: 'sha512', padding: RSA_PKCS1_PSS_PADDING },
+    ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+    ES384: { hash: 'sha384', dsaEncoding: 'ieee-p1363' },
+    ES512: { hash: 'sha512', dsaEncoding: 'ieee-p1363' }
+};
+
+/**
+ * Obtain the bearer token in the `Authorization` header of a request.
+ *
+ * @param request an incoming request
+ * @returns the bearer token, or `undefined` if the request has none
+ */
+export function bearerToken(request: Request): string | undefined {
+    const match = /^Bearer\s+(\S+)\s*$/i.exec(request.header('Authorization') ?? '');
+    return match?.[1];
+}
+
+/**
+ * Read the key that verifies the signatures of JSON Web Tokens.
+ *
+ * @param keyFile the path of a file containing a PEM public key or certificate, or a shared secret
+ * @returns the key
+ */
+export function readJwtKey(keyFile: string): JwtKey {
+    const content = fs.readFileSync(keyFile);
+    const text = content.toString('utf-8');
+    return text.includes('-----BEGIN') ? createPublicKey(text) : Buffer.from(text.trim(), 'utf-8');
+}
+
+/**
+ * Verify a JSON Web Token: its signature, its validity period, and its issuer and audience, if required.
+ *
+ * @param token the encoded token
+ * @param key the key that verifies its signature
+ * @param options the requirements of the token
+ * @returns the claims of the token
+ *
+ * @throws {@link AuthenticationError} if the token is not valid
+ */
+export function verifyJwt(token: string, key: JwtKey, options: Omit<JwtOptions, 'keyFile'> = {}): Record<string, unknown> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+        throw new AuthenticationError('Malformed token.');
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = decodeJson(encodedHeader);
+    const claims = decodeJson(encodedPayload);
+
+    const alg = String(header.alg);
+    const algorithm = ALGORITHMS[alg];
+    if (!algorithm || !(options.algorithms ?? applicableAlgorithms(key)).includes(alg)) {
+        throw new AuthenticationError(`Unsupported token algorithm: ${alg}.`);
+    }
+
+    const signed = Buffer.from(`${encodedHeader}.${encodedPayload}`, 'utf-8');
+    const signature = decodeBase64URL(encodedSignature);
+    let valid: boolean;
+    if (algorithm.hmac) {
+        const expected = createHmac(algorithm.hash, key as Buffer)
+            .update(signed)
+            .digest();
+        valid = expected.length === signature.length && timingSafeEqual(expected, signature);
+    } else {
+        const { dsaEncoding, padding } = algorithm;
+        valid = verify(algorithm.hash, signed, { key: key as KeyObject, dsaEncoding, padding }, signature);
+    }
+    if (!valid) {
+        throw new AuthenticationError('Invalid token signature.');
+    }
+
+    const now = Date.now() / 1000;
+    const tolerance = options.clockTolerance ?? 30;
+    if (typeof claims.exp === 'number' && now > claims.exp + tolerance) {
+        throw new AuthenticationError('Token expired.');
+    }
+    if (typeof claims.nbf === 'number' && now + tolerance < claims.nbf) {
+        throw new AuthenticationError('Token not yet valid.');
+    }
+    if (options.issuer !== undefined && claims.iss !== options.issuer) {
+        throw new AuthenticationError('Token issuer not accepted.');
+    }
+    if (options.audience !== undefined) {
+        const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+        if (!audience.includes(options.audience)) {
+            throw new AuthenticationError('Token audience not accepted.');
+        }
+    }
+    return claims;
+}
+
+function decodeJson(encoded: string): Record<string, unknown> {
+    try {
+        const result = JSON.parse(decodeBase64URL(encoded).toString('utf-8'));
+        if (typeof result === 'object' && result && !Array.isArray(result)) {
+            return result;
+        }
+    } catch (error) {
+        // Report as malformed, below
+    }
+    throw new AuthenticationError('Malformed token.');
+}
+
+// The 'base64url' encoding of buffers is not available in all supported versions of Node
+function decodeBase64URL(encoded: string): Buffer {
+    const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+    return Buffer.from(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='), 'base64');
+}
+
+// Guard against substitution of algorithms: a public key must never be used as an HMAC secret
+function applicableAlgorithms(key: JwtKey): string[] {
+    if (!(key instanceof KeyObject)) {
+        return ['HS256', 'HS384', 'HS512'];
+    }
+    switch (key.asymmetricKeyType) {
+        case 'rsa':
+            return ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512'];
+        case 'rsa-pss':
+            return ['PS256', 'PS384', 'PS512'];
+        case 'ec':
+            return ['ES256', 'ES384', 'ES512'];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Built-in authenticator of static API tokens, presented as bearer tokens.
+ */
+export class TokenAuthenticator implements Authenticator {
+    /** The principals authenticated by the tokens, by hash of the token, so that they are not looked up by their plain value. */
+    protected readonly principals: Map<string, Principal> = new Map();
+
+    /**
+     * Initialize me with my API tokens.
+     *
+     * @param tokens a mapping of each API token to the principal that it authenticates or just its ID
+     */
+    constructor(tokens: Record<string, string | Omit<Principal, 'scheme'>>) {
+        Object.entries(tokens).forEach(([token, principal]) =>
+            this.principals.set(
+                hash(token),
+                typeof principal === 'string' ? { id: principal, scheme: 'token' } : { ...principal, scheme: 'token' }
+            )
+        );
+    }
+
+    authenticate(request: Request): Principal | undefined {
+        const token = bearerToken(request);
+        const result = token ? this.principals.get(hash(token)) : undefined;
+        return result && { ...result };
+    }
+}
+
+/**
+ * Built-in authenticator of JSON Web Tokens, presented as bearer tokens, that are verified against a local key file.
+ */
+export class JwtAuthenticator implements Authenticator {
+    protected readonly key: JwtKey;
+
+    constructor(protected readonly options: JwtOptions) {
+        this.key = readJwtKey(options.keyFile);
+    }
+
+    authenticate(request: Request): Principal | undefined {
+        const token = bearerToken(request);
+        if (!token || token.split('.').length !== 3) {
+            // Not a JSON Web Token
+            return undefined;
+        }
+
+        const claims = verifyJwt(token, this.key, this.options);
+        const id = claims[this.options.subjectClaim ?? 'sub'];
+        if (typeof id !== 'string' || !id) {
+            throw new AuthenticationError('Token does not identify the caller.');
+        }
+        const result: Principal = { id, scheme: 'jwt', claims };
+        if (typeof claims.name === 'string') {
+            result.name = claims.name;
+        }
+        if (Array.isArray(claims.roles) && claims.roles.every(role => typeof role === 'string')) {
+            result.roles = claims.roles;
+        }
+        return result;
+    }
+}
+
+function hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,210 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { Logger, Principal } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { inject, injectable, named } from 'inversify';
+import * as URI from 'urijs';
+
+import { validateModelURI } from '../client/uri-utils';
+import { RequestContext } from '../request-context';
+import { createModelURIFilter } from '../validation-provider-registry';
+
+/**
+ * The kinds of access to a model that are controlled.
+ * Reading includes subscription and validation, and editing includes creation, replacement, undo, and redo.
+ */
+export type ModelAccess = 'read' | 'edit' | 'save' | 'delete';
+
+/**
+ * A rule granting kinds of access to models. A rule applies to a caller if it names the caller's ID
+ * in its `users` or any of the caller's roles in its `roles`, or if it names neither.
+ */
+export interface AccessRule {
+    /** A substring or pattern to match in the URIs of the models to which the rule applies. If omitted, it applies to all models. */
+    modelURI?: string | RegExp;
+    /** The roles of the callers to which the rule applies. */
+    roles?: string[];
+    /** The IDs of the callers to which the rule applies. */
+    users?: string[];
+    /** The kinds of access that the rule grants. */
+    access: ModelAccess[];
+}
+
+export const AuthorizationOptions = Symbol('AuthorizationOptions');
+
+/**
+ * Configuration of the control of access to models.
+ */
+export interface AuthorizationOptions {
+    /**
+     * The rules that grant access to models. If there are none, then access to models is not controlled. Otherwise,
+     * any access that is not granted by some rule is denied.
+     */
+    rules: AccessRule[];
+    /**
+     * The roles of the callers that may administer the _Model Server_: its plug-ins, its log levels, and the
+     * description of its extensions. If omitted, then administration is denied when any rule is configured
+     * and is otherwise not controlled.
+     */
+    adminRoles?: string[];
+}
+
+/** Default authorization options, in which access to models is not controlled. */
+export const DEFAULT_AUTHORIZATION_OPTIONS: AuthorizationOptions = { rules: [] };
+
+/**
+ * Error rejecting a request for access to a model, or for administration of the server, that is not granted to the caller.
+ */
+export class AccessDeniedError extends Error {
+    /**
+     * Initializes me.
+     *
+     * @param access the kind of access that was denied
+     * @param modelURI the model to which access was denied, or `undefined` if access was requested to all models
+     */
+    constructor(readonly access: ModelAccess | 'administer', readonly modelURI?: string) {
+        super(
+            access === 'administer'
+                ? 'Not authorized to administer the server.'
+                : modelURI
+                ? `Not authorized to ${access} ${modelURI}.`
+                : `Not authorized to ${access} all models.`
+        );
+        this.name = AccessDeniedError.name;
+    }
+}
+
+/**
+ * The controller of access to models, which evaluates the configured rules for the caller of the request being handled.
+ */
+@injectable()
+export class AuthorizationManager {
+    @inject(Logger)
+    @named(AuthorizationManager.name)
+    protected readonly logger: Logger;
+
+    @inject(AuthorizationOptions)
+    protected readonly options: AuthorizationOptions;
+
+    /** Query whether access to models is controlled, which is the case when any rule is configured. */
+    isEnabled(): boolean {
+        return this.options.rules.length > 0;
+    }
+
+    /**
+     * Query whether a caller is granted access to a model.
+     *
+     * @param principal the caller, or `undefined` if the caller is not authenticated
+     * @param access the kind of access requested
+     * @param modelURI the model to access, or `undefined` to access all models, which is granted only by rules that apply to all models
+     * @returns whether the access is granted
+     */
+    isAllowed(principal: Principal | undefined, access: ModelAccess, modelURI?: URI | string): boolean {
+        if (!this.isEnabled()) {
+            return true;
+        }
+        // Match the URI as the Upstream Model Server will see it
+        const uri = modelURI ? validateModelURI(modelURI.toString()) : undefined;
+        return this.options.rules.some(
+            rule =>
+                rule.access.includes(access) &&
+                (uri ? createModelURIFilter(rule.modelURI)(uri) : !rule.modelURI) &&
+                appliesTo(rule, principal)
+        );
+    }
+
+    /**
+     * Check that a caller, by default the caller of the request currently being handled, is granted access to a model.
+     *
+     * @param access the kind of access requested
+     * @param modelURI the model to access, or `undefined` to access all models
+     * @param principal the caller, if it is not the caller of the request currently being handled
+     *
+     * @throws {@link AccessDeniedError} if the access is not granted
+     */
+    checkAccess(access: ModelAccess, modelURI?: URI | string, principal = RequestContext.getPrincipal()): void {
+        if (!this.isAllowed(principal, access, modelURI)) {
+            const error = new AccessDeniedError(access, modelURI?.toString());
+            this.logger.warn(`Denied ${principal?.id ?? 'anonymous caller'}: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Query whether a caller may administer the _Model Server_.
+     *
+     * @param principal the caller, or `undefined` if the caller is not authenticated
+     * @returns whether the caller has one of the configured admin roles or, if none are configured, whether access is not controlled
+     */
+    isAdmin(principal: Principal | undefined): boolean {
+        const adminRoles = this.options.adminRoles;
+        if (!adminRoles) {
+            return !this.isEnabled();
+        }
+        return !!principal?.roles?.some(role => adminRoles.includes(role));
+    }
+
+    /**
+     * Check that a caller, by default the caller of the request currently being handled, may administer the _Model Server_.
+     *
+     * @param principal the caller, if it is not the caller of the request currently being handled
+     *
+     * @throws {@link AccessDeniedError} if the caller may not administer the server
+     */
+    checkAdmin(principal = RequestContext.getPrincipal()): void {
+        if (!this.isAdmin(principal)) {
+            const error = new AccessDeniedError('administer');
+            this.logger.warn(`Denied ${principal?.id ?? 'anonymous caller'}: ${error.message}`);
+            throw error;
+        }
+    }
+}
+
+function appliesTo(rule: AccessRule, principal?: Principal): boolean {
+    if (!rule.users && !rule.roles) {
+        return true;
+    }
+    if (!principal) {
+        return false;
+    }
+    return !!rule.users?.includes(principal.id) || !!rule.roles?.some(role => principal.roles?.includes(role));
+}
+
+/**
+ * Determine the kind of access to a model that a request entails, for requests that the _Model Server_ does not
+ * itself handle but forwards to the _Upstream Model Server_.
+ *
+ * @param method the HTTP method of the request
+ * @param path the path of the request endpoint
+ * @returns the kind of access that the request entails
+ */
+export function accessOf(method: string, path: string): ModelAccess {
+    const endpoint = path.replace(/\/+$/, '').split('/').pop();
+    switch (endpoint) {
+        case 'save':
+        case 'saveall':
+            return 'save';
+        case 'undo':
+        case 'redo':
+        case 'close':
+            return 'edit';
+    }
+    switch (method.toUpperCase()) {
+        case 'GET':
+        case 'HEAD':
+        case 'OPTIONS':
+            return 'read';
+        case 'DELETE':
+            return 'delete';
+        default:
+            return 'edit';
+    }
+}
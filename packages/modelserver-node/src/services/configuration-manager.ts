@@ -0,0 +1,243 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { ConfigurationChangeListener, ConfigurationSchema, Logger } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import * as Ajv from 'ajv';
+import * as fs from 'fs';
+import { inject, injectable, named, postConstruct } from 'inversify';
+import { isDeepStrictEqual } from 'util';
+import { v4 as uuid } from 'uuid';
+
+export const ConfigurationOptions = Symbol('ConfigurationOptions');
+
+/**
+ * Configuration of the server's configuration file, which has a section of settings for each plug-in.
+ */
+export interface ConfigurationOptions {
+    /** The path of the configuration file, or absent if the server has no configuration file. */
+    file?: string;
+    /** The interval, in milliseconds, at which to check the configuration file for changes. */
+    pollInterval: number;
+}
+
+/** The default configuration, without a configuration file. */
+export const DEFAULT_CONFIGURATION_OPTIONS: ConfigurationOptions = { pollInterval: 1000 };
+
+/**
+ * Error indicating that the configuration of a plug-in does not conform to its schema.
+ */
+export class ConfigurationError extends Error {
+    constructor(readonly pluginId: string, reason: string) {
+        super(`Invalid configuration of plug-in ${pluginId}: ${reason}`);
+        this.name = ConfigurationError.name;
+    }
+}
+
+interface ListenerRegistration {
+    pluginId: string;
+    listener: ConfigurationChangeListener<any>;
+}
+
+/**
+ * The manager of the server's configuration file, which provides plug-ins with their configuration
+ * settings and notifies them when the file changes while the server is running.
+ */
+@injectable()
+export class ConfigurationManager {
+    @inject(Logger)
+    @named(ConfigurationManager.name)
+    protected readonly logger: Logger;
+
+    @inject(ConfigurationOptions)
+    protected readonly options: ConfigurationOptions;
+
+    protected readonly ajv = new Ajv({ useDefaults: true, allErrors: true });
+
+    /** The configuration sections of the plug-ins, by plug-in ID. */
+    protected sections: Record<string, unknown> = {};
+
+    /** Validators of the plug-ins' configurations, compiled from their schemas, by plug-in ID. */
+    protected readonly validators: Map<string, Ajv.ValidateFunction> = new Map();
+
+    protected readonly listeners: Map<string, ListenerRegistration> = new Map();
+
+    protected watcher?: (current: fs.Stats, previous: fs.Stats) => void;
+
+    @postConstruct()
+    protected initialize(): void {
+        const file = this.options.file;
+        if (!file) {
+            return;
+        }
+
+        this.sections = this.readFile(file) ?? {};
+        this.watcher = (current, previous) => {
+            if (current.mtimeMs !== previous.mtimeMs) {
+                this.reload(file);
+            }
+        };
+        fs.watchFile(file, { persistent: false, interval: this.options.pollInterval }, this.watcher);
+    }
+
+    /**
+     * Stop watching the configuration file for changes.
+     */
+    dispose(): void {
+        if (this.watcher && this.options.file) {
+            fs.unwatchFile(this.options.file, this.watcher);
+            this.watcher = undefined;
+        }
+    }
+
+    /**
+     * Obtain the configuration settings of a plug-in.
+     *
+     * @param pluginId the ID of the plug-in whose configuration to get
+     * @param schema an optional JSON Schema describing the configuration settings, with their defaults.
+     *     It replaces any schema previously given for the plug-in
+     * @returns the configuration settings, completed by the defaults of the schema
+     *
+     * @throws {@link ConfigurationError} if the configuration does not conform to the `schema`
+     */
+    getConfiguration<T = Record<string, unknown>>(pluginId: string, schema?: ConfigurationSchema): T {
+        if (schema) {
+            this.validators.set(pluginId, this.ajv.compile(schema));
+        }
+        return this.resolve(pluginId, this.sections[pluginId]);
+    }
+
+    /**
+     * Register a configuration change listener.
+     *
+     * @param pluginId the ID of the plug-in whose configuration changes to listen for
+     * @param listener the configuration change listener to register
+     * @returns the unique ID of the registration
+     */
+    register<T>(pluginId: string, listener: ConfigurationChangeListener<T>): string {
+        const id = uuid();
+        this.logger.debug(`Registering configuration change listener ${id} for plug-in ${pluginId}`);
+        this.listeners.set(id, { pluginId, listener });
+        return id;
+    }
+
+    /**
+     * Unregister a configuration change listener.
+     * Has no effect if the listener is not currently registered under the given ID.
+     *
+     * @param id the unique ID of the registration
+     * @param listener the configuration change listener to unregister
+     */
+    unregister<T>(id: string, listener: ConfigurationChangeListener<T>): void {
+        if (this.listeners.get(id)?.listener === listener) {
+            this.logger.debug(`Unregistering configuration change listener ${id}`);
+            this.listeners.delete(id);
+        }
+    }
+
+    /**
+     * Resolve the configuration of a plug-in from its section of the configuration file.
+     *
+     * @param pluginId the plug-in ID
+     * @param section the plug-in's section of the configuration file
+     * @returns the validated configuration, completed by the defaults of the plug-in's schema
+     */
+    protected resolve<T>(pluginId: string, section: unknown): T {
+        // Copy the section because validation fills in the defaults
+        const result = section === undefined ? {} : JSON.parse(JSON.stringify(section));
+        const validate = this.validators.get(pluginId);
+        if (validate && !validate(result)) {
+            throw new ConfigurationError(pluginId, this.ajv.errorsText(validate.errors, { dataVar: pluginId }));
+        }
+        return result;
+    }
+
+    /**
+     * Read the sections of the configuration file.
+     *
+     * @param file the configuration file
+     * @returns the configuration sections, by plug-in ID, or `undefined` if the file could not be parsed
+     */
+    protected readFile(file: string): Record<string, unknown> | undefined {
+        let content: string;
+        try {
+            content = fs.readFileSync(file, 'utf-8');
+        } catch (error) {
+            if (error.code === 'ENOENT') {
+                this.logger.warn(`Configuration file ${file} does not exist.`);
+                return {};
+            }
+            this.logger.error(`Failed to read configuration file ${file}: ${error.message}`);
+            return undefined;
+        }
+
+        try {
+            const result = JSON.parse(content);
+            if (!result || typeof result !== 'object' || Array.isArray(result)) {
+                throw new Error('The configuration is not a JSON object.');
+            }
+            return result;
+        } catch (error) {
+            this.logger.error(`Failed to parse configuration file ${file}: ${error.message}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Reload the configuration file after it changed and notify listeners of the plug-ins whose configuration changed.
+     * A plug-in's configuration that is not valid is not reloaded, retaining its previous configuration.
+     *
+     * @param file the configuration file
+     */
+    protected reload(file: string): void {
+        const sections = this.readFile(file);
+        if (!sections) {
+            return;
+        }
+
+        this.logger.info(`Reloading configuration file ${file}.`);
+        const previous = this.sections;
+        const changed = Array.from(new Set([...Object.keys(previous), ...Object.keys(sections)])).filter(
+            pluginId => !isDeepStrictEqual(previous[pluginId], sections[pluginId])
+        );
+
+        const valid: Record<string, unknown> = {};
+        for (const pluginId of changed) {
+            try {
+                valid[pluginId] = this.resolve(pluginId, sections[pluginId]);
+            } catch (error) {
+                this.logger.error(error.message);
+                sections[pluginId] = previous[pluginId];
+            }
+        }
+
+        this.sections = sections;
+        Object.entries(valid).forEach(([pluginId, configuration]) => this.notify(pluginId, configuration));
+    }
+
+    /**
+     * Notify the listeners of a plug-in of a change in its configuration.
+     * Any failure of a listener is logged.
+     *
+     * @param pluginId the ID of the plug-in whose configuration changed
+     * @param configuration the plug-in's new configuration
+     */
+    protected notify(pluginId: string, configuration: unknown): void {
+        Array.from(this.listeners.values())
+            .filter(registration => registration.pluginId === pluginId)
+            .forEach(async ({ listener }) => {
+                try {
+                    await listener({ pluginId, configuration });
+                } catch (error) {
+                    this.logger.error(`Configuration change listener failed for plug-in ${pluginId}: ${error}`);
+                }
+            });
+    }
+}
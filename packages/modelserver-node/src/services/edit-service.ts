@@ -11,13 +11,15 @@
 import { AddCommand, ModelServerCommand, ModelUpdateResult, RemoveCommand, SetCommand } from '@eclipse-emfcloud/modelserver-client';
 import { Executor, Logger, Transaction } from '@eclipse-emfcloud/modelserver-plugin-ext';
 import { Operation } from 'fast-json-patch';
-import { inject, injectable, named } from 'inversify';
+import { inject, injectable, named, postConstruct } from 'inversify';
 import * as URI from 'urijs';
 
-import { InternalModelServerClientApi, isModelServerCommand, TransactionContext } from '../client/model-server-client';
+import { InternalModelServerClientApi, isModelServerCommand, TransactionContext, TransactionScope } from '../client/model-server-client';
 import { CommandProviderRegistry } from '../command-provider-registry';
-import { ValidationManager } from '../services/validation-manager';
-import { TriggerProviderRegistry } from '../trigger-provider-registry';
+import { ValidationManager, ValidationVetoError } from '../services/validation-manager';
+import { TriggerLoopError, TriggerProviderRegistry } from '../trigger-provider-registry';
+import { AuditManager } from './audit-manager';
+import { HistogramMetric, MetricsRegistry } from './metrics';
 
 /**
  * The core implementation of editing via JSON Patch or Command.
@@ -40,16 +42,68 @@ export class EditService {
     @inject(ValidationManager)
     protected readonly validationManager: ValidationManager;
 
+    @inject(AuditManager)
+    protected readonly auditManager: AuditManager;
+
+    @inject(MetricsRegistry)
+    protected readonly metrics: MetricsRegistry;
+
+    protected editDuration: HistogramMetric;
+
+    @postConstruct()
+    protected initializeMetrics(): void {
+        this.editDuration = this.metrics.histogram({
+            name: 'modelserver_edit_duration_seconds',
+            help: 'Duration of edits of models, including custom commands and triggers, by command type or "patch".',
+            labelNames: ['command_type']
+        });
+    }
+
     async edit(modelURI: URI, patchOrCommand: Operation | Operation[] | ModelServerCommand): Promise<ModelUpdateResult> {
+        const endTimer = this.editDuration.startTimer({
+            command_type: isModelServerCommand(patchOrCommand) ? patchOrCommand.type : 'patch'
+        });
+        return this.performEdit(modelURI, patchOrCommand).finally(() => endTimer());
+    }
+
+    protected async performEdit(modelURI: URI, patchOrCommand: Operation | Operation[] | ModelServerCommand): Promise<ModelUpdateResult> {
         if (isModelServerCommand(patchOrCommand)) {
             // Case of executing a command
             const command = patchOrCommand;
-            return isCustomCommand(command) ? this.handleCommand(modelURI, command) : this.forwardEdit(modelURI, command);
+            const result = isCustomCommand(command) ? this.handleCommand(modelURI, command) : this.forwardEdit(modelURI, command);
+            return result.then(this.recordEdit(modelURI, command.type));
         }
 
         // Case of applying a patch
         const patch = patchOrCommand;
-        return this.forwardEdit(modelURI, patch);
+        return this.forwardEdit(modelURI, patch).then(this.recordEdit(modelURI));
+    }
+
+    /**
+     * Preview an edit of a model: perform it and the triggers that follow it up in a transaction, as an {@link edit}
+     * would, and then roll back that transaction. The model is left unchanged and nothing is added to its undo stack.
+     * An edit cannot be previewed in the scope of a transaction already open on the model.
+     *
+     * @param modelURI the model to edit
+     * @param patchOrCommand the edit to preview
+     * @returns the aggregate result of the changes that the edit would have performed
+     */
+    async preview(modelURI: URI, patchOrCommand: Operation | Operation[] | ModelServerCommand): Promise<ModelUpdateResult> {
+        if (TransactionScope.get(modelURI)) {
+            throw new Error(`Cannot preview an edit in the scope of a transaction open on ${modelURI}.`);
+        }
+
+        let providedEdit: ModelServerCommand | Operation | Operation[] | Transaction = patchOrCommand;
+        if (isModelServerCommand(patchOrCommand) && isCustomCommand(patchOrCommand)) {
+            this.logger.debug(`Getting commands provided for ${patchOrCommand.type}`);
+            providedEdit = await this.commandProviderRegistry.getCommands(modelURI, patchOrCommand);
+        }
+
+        return this.modelServerClient.openTransaction(modelURI).then(ctx =>
+            TransactionScope.run(ctx, () => this.transactionalEdit(modelURI, providedEdit)(ctx))
+                .then(previewTransaction(ctx))
+                .catch(rollbackTransaction(ctx))
+        );
     }
 
     protected async handleCommand(modelURI: URI, command: ModelServerCommand): Promise<ModelUpdateResult> {
@@ -59,12 +113,13 @@ export class EditService {
         return this.forwardEdit(modelURI, provided);
     }
 
-    protected forwardEdit(
+    protected async forwardEdit(
         modelURI: URI,
         providedEdit: ModelServerCommand | Operation | Operation[] | Transaction
     ): Promise<ModelUpdateResult> {
-        if (this.triggerProviderRegistry.hasProviders()) {
-            return this.forwardEditWithTriggers(modelURI, providedEdit);
+        const vetoEnabled = !TransactionScope.get(modelURI) && (await this.validationManager.isVetoEnabled(modelURI));
+        if (vetoEnabled || this.triggerProviderRegistry.hasProviders()) {
+            return this.forwardEditWithTriggers(modelURI, providedEdit, vetoEnabled);
         }
         return this.forwardEditSimple(modelURI, providedEdit);
     }
@@ -76,10 +131,10 @@ export class EditService {
         if (typeof providedEdit === 'function') {
             // It's a transaction function
             return this.modelServerClient.openTransaction(modelURI).then(ctx =>
-                providedEdit(ctx)
+                TransactionScope.run(ctx, () => providedEdit(ctx))
                     .then(completeTransaction(ctx))
                     .then(this.performPatchValidation(modelURI))
-                    .catch(error => ctx.rollback(error))
+                    .catch(rollbackTransaction(ctx))
             );
         } else {
             // It's a substitute command or JSON Patch. Just execute/apply it in the usual way
@@ -99,35 +154,65 @@ export class EditService {
 
     private async forwardEditWithTriggers(
         modelURI: URI,
-        providedEdit: ModelServerCommand | Operation | Operation[] | Transaction
+        providedEdit: ModelServerCommand | Operation | Operation[] | Transaction,
+        vetoErrors = false
     ): Promise<ModelUpdateResult> {
-        let result = true;
-
         // Perform the edit in a transaction, then gather triggers, and recurse
-        const triggeringTransaction = async (executor: Executor): Promise<boolean> => {
+        const triggeringTransaction = this.transactionalEdit(modelURI, providedEdit);
+        const veto = vetoErrors ? this.validationManager.vetoErrors(modelURI) : undefined;
+
+        return this.modelServerClient.openTransaction(modelURI).then(ctx =>
+            TransactionScope.run(ctx, () => triggeringTransaction(ctx))
+                .then(completeTransaction(ctx, veto)) // The transaction context performs the triggers and the veto
+                .then(this.performPatchValidation(modelURI))
+                .catch(rollbackTransaction(ctx))
+        );
+    }
+
+    /**
+     * Wrap a provided edit as a transaction that performs it.
+     *
+     * @param modelURI the model to edit
+     * @param providedEdit the edit to perform
+     * @returns a transaction call-back performing the edit
+     */
+    private transactionalEdit(modelURI: URI, providedEdit: ModelServerCommand | Operation | Operation[] | Transaction): Transaction {
+        return async (executor: Executor): Promise<boolean> => {
             if (typeof providedEdit === 'function') {
                 // It's a transaction function
-                result = await providedEdit(executor);
+                return providedEdit(executor);
+            }
+
+            // It's a command or JSON Patch. Just execute/apply it in the usual way
+            if (isModelServerCommand(providedEdit)) {
+                // Command case
+                await executor.execute(modelURI, providedEdit);
             } else {
-                // It's a command or JSON Patch. Just execute/apply it in the usual way
-                if (isModelServerCommand(providedEdit)) {
-                    // Command case
-                    await executor.execute(modelURI, providedEdit);
-                } else {
-                    // JSON Patch case
-                    await executor.applyPatch(providedEdit);
-                }
+                // JSON Patch case
+                await executor.applyPatch(providedEdit);
             }
+            return true;
+        };
+    }
 
+    /**
+     * Follow up an edit of a model with a record of it in the audit log.
+     *
+     * @param modelURI the model edited
+     * @param commandType the type of command that was executed, if the edit was not a JSON Patch
+     * @returns a function that records a model update result in the audit log if it was successful
+     */
+    protected recordEdit(modelURI: URI, commandType?: string): (result: ModelUpdateResult) => Promise<ModelUpdateResult> {
+        return async (result: ModelUpdateResult) => {
+            if (result.success) {
+                await this.auditManager.record(
+                    modelURI,
+                    'edit',
+                    commandType ? { commandType, patch: result.patch } : { patch: result.patch }
+                );
+            }
             return result;
         };
-
-        return this.modelServerClient.openTransaction(modelURI).then(ctx =>
-            triggeringTransaction(ctx)
-                .then(completeTransaction(ctx)) // The transaction context performs the triggers
-                .then(this.performPatchValidation(modelURI))
-                .catch(error => ctx.rollback(error))
-        );
     }
 
     /**
@@ -157,15 +242,54 @@ function isCustomCommand(command: ModelServerCommand): boolean {
  * Complete a `transaction`.
  *
  * @param transaction the transaction context to complete
+ * @param veto an optional call-back that may veto the commit of the transaction
  * @returns a function that takes a downstream response and returns a model update result, possibly rejected
  */
-function completeTransaction(transaction: TransactionContext): (downstream: boolean) => Promise<ModelUpdateResult> {
+function completeTransaction(
+    transaction: TransactionContext,
+    veto?: (result: ModelUpdateResult) => Promise<void>
+): (downstream: boolean) => Promise<ModelUpdateResult> {
     return async downstream => {
         if (!downstream) {
             const reason = 'Transaction failed';
             return transaction.rollback(reason);
         } else {
-            return transaction.commit();
+            return transaction.commit(veto);
+        }
+    };
+}
+
+/**
+ * Complete a `transaction` by previewing its changes and rolling it back.
+ *
+ * @param transaction the transaction context to preview
+ * @returns a function that takes a downstream response and returns the model update result that committing the
+ *    transaction would have produced, possibly rejected
+ */
+function previewTransaction(transaction: TransactionContext): (downstream: boolean) => Promise<ModelUpdateResult> {
+    return async downstream => {
+        if (!downstream) {
+            const reason = 'Transaction failed';
+            return transaction.rollback(reason);
+        } else {
+            return transaction.preview();
+        }
+    };
+}
+
+/**
+ * Roll back a `transaction` that failed.
+ *
+ * @param transaction the transaction context to roll back
+ * @returns a function that takes the reason for failure and returns a model update result, rejected
+ *    if the failure is one that should be reported to the client
+ */
+function rollbackTransaction(transaction: TransactionContext): (error: any) => Promise<ModelUpdateResult> {
+    return async error => {
+        const result = await transaction.rollback(error);
+        if (error instanceof TriggerLoopError || error instanceof ValidationVetoError) {
+            throw error;
         }
+        return result;
     };
 }
@@ -0,0 +1,129 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { IRouter } from 'express';
+import { inject, injectable } from 'inversify';
+
+import { CommandProviderDescription, CommandProviderRegistry } from '../command-provider-registry';
+import { InternalModelServerPluginContext, PluginDescription } from '../plugin-context';
+import { TriggerProviderDescription, TriggerProviderRegistry } from '../trigger-provider-registry';
+import { ValidationProviderDescription, ValidationProviderRegistry } from '../validation-provider-registry';
+
+/**
+ * Description of a router installed by a route provider, for diagnostic purposes.
+ */
+export interface RouteDescription {
+    /** The class name of the route provider. */
+    provider: string;
+    /** The route on which the router is installed. */
+    route: string;
+    routerId?: string;
+    /** The endpoints handled by the router, each as an HTTP method and path. */
+    endpoints: string[];
+}
+
+/**
+ * Description of the middlewares installed by a middleware provider, for diagnostic purposes.
+ */
+export interface MiddlewareDescription {
+    /** The class name of the middleware provider. */
+    provider: string;
+    /** Whether the middlewares are invoked before or after the route handlers. */
+    phase: 'before' | 'after';
+    /** The route in which the middlewares are installed, or absent if they are installed globally. */
+    route?: string;
+    routerId?: string;
+    /** The number of middlewares installed. */
+    count: number;
+}
+
+/**
+ * Description of everything that extends the _Model Server_, for diagnostic purposes.
+ */
+export interface ExtensionsDescription {
+    plugins: PluginDescription[];
+    commandProviders: CommandProviderDescription[];
+    triggerProviders: TriggerProviderDescription[];
+    validationProviders: ValidationProviderDescription[];
+    routes: RouteDescription[];
+    middlewares: MiddlewareDescription[];
+}
+
+/**
+ * An inventory of the extensions of the _Model Server_: plug-ins and the providers that they registered,
+ * and the routes and middlewares installed when the server started.
+ */
+@injectable()
+export class ExtensionsInventory {
+    @inject(InternalModelServerPluginContext)
+    protected readonly pluginContext: InternalModelServerPluginContext;
+
+    @inject(CommandProviderRegistry)
+    protected readonly commandProviderRegistry: CommandProviderRegistry;
+
+    @inject(TriggerProviderRegistry)
+    protected readonly triggerProviderRegistry: TriggerProviderRegistry;
+
+    @inject(ValidationProviderRegistry)
+    protected readonly validationProviderRegistry: ValidationProviderRegistry;
+
+    protected readonly routers: { provider: string; route: string; routerId?: string; router: IRouter }[] = [];
+
+    protected readonly middlewares: MiddlewareDescription[] = [];
+
+    /**
+     * Record a router installed by a route provider. Its endpoints are described from its current state.
+     *
+     * @param provider the class name of the route provider
+     * @param route the route on which the router is installed
+     * @param router the router
+     * @param routerId the router's identifier, if any
+     */
+    recordRouter(provider: string, route: string, router: IRouter, routerId?: string): void {
+        this.routers.push({ provider, route, router, ...(routerId ? { routerId } : {}) });
+    }
+
+    /**
+     * Record the middlewares installed by a middleware provider.
+     *
+     * @param middlewares description of the installed middlewares
+     */
+    recordMiddlewares(middlewares: MiddlewareDescription): void {
+        this.middlewares.push(middlewares);
+    }
+
+    /**
+     * Describe the extensions of the _Model Server_ in their current state.
+     */
+    describe(): ExtensionsDescription {
+        return {
+            plugins: this.pluginContext.describePlugins(),
+            commandProviders: this.commandProviderRegistry.describeProviders(),
+            triggerProviders: this.triggerProviderRegistry.describeProviders(),
+            validationProviders: this.validationProviderRegistry.describeProviders(),
+            routes: this.routers.map(({ router, ...route }) => ({ ...route, endpoints: describeEndpoints(route.route, router) })),
+            middlewares: [...this.middlewares]
+        };
+    }
+}
+
+/**
+ * Describe the endpoints handled by a router.
+ *
+ * @param route the route on which the router is installed
+ * @param router the router
+ * @returns the endpoints, each as an HTTP method and path
+ */
+function describeEndpoints(route: string, router: IRouter): string[] {
+    return router.stack
+        .filter(layer => layer?.route)
+        .flatMap(layer => Object.keys(layer.route.methods).map(method => `${method.toUpperCase()} ${route}${layer.route.path}`));
+}
@@ -0,0 +1,211 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { Logger } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { inject, injectable, named, postConstruct } from 'inversify';
+
+import { InternalModelServerClientApi } from '../client/model-server-client';
+import { withTimeout } from '../client/promise-utils';
+import { InternalModelServerPluginContext } from '../plugin-context';
+import { CounterMetric, MetricsRegistry, UPSTREAM_ERRORS } from './metrics';
+import { SubscriptionManager } from './subscription-manager';
+
+export const HealthOptions = Symbol('HealthOptions');
+
+/**
+ * Configuration of the monitoring of the health of the _Model Server_.
+ */
+export interface HealthOptions {
+    /** How often, in milliseconds, to probe the _Upstream Model Server_. A non-positive value means not to probe periodically. */
+    probeInterval: number;
+    /** How long, in milliseconds, to wait for the _Upstream Model Server_ to respond to a probe before it is deemed unreachable. */
+    probeTimeout: number;
+}
+
+/** Default health monitoring options. */
+export const DEFAULT_HEALTH_OPTIONS: HealthOptions = { probeInterval: 10000, probeTimeout: 5000 };
+
+/**
+ * The result of the latest probe of the _Upstream Model Server_.
+ */
+export interface UpstreamStatus {
+    /** Whether the _Upstream Model Server_ responded to the probe. */
+    reachable: boolean;
+    /** When the probe was made, as an ISO date-time. */
+    lastProbe: string;
+    /** Why the _Upstream Model Server_ is not reachable, if it is not. */
+    reason?: string;
+}
+
+/**
+ * Description of the readiness of the _Model Server_ to serve requests.
+ */
+export interface HealthStatus {
+    /** Whether the _Model Server_ is ready, which is when the _Upstream Model Server_ is reachable and plug-ins are initialized. */
+    ready: boolean;
+    upstream: UpstreamStatus;
+    plugins: {
+        /** Whether initialization of the plug-ins has finished. */
+        initialized: boolean;
+    };
+    subscriptions: {
+        /** The number of subscribed clients. */
+        clients: number;
+        /** The number of upstream subscriptions that the clients share. */
+        upstream: number;
+    };
+    /** The number of transactions open on models. */
+    transactions: number;
+}
+
+/**
+ * A monitor of the health of the _Model Server_, which probes the _Upstream Model Server_ periodically in the background.
+ */
+@injectable()
+export class HealthMonitor {
+    @inject(Logger)
+    @named(HealthMonitor.name)
+    protected readonly logger: Logger;
+
+    @inject(HealthOptions)
+    protected readonly options: HealthOptions;
+
+    @inject(InternalModelServerClientApi)
+    protected readonly modelServerClient: InternalModelServerClientApi;
+
+    @inject(InternalModelServerPluginContext)
+    protected readonly pluginContext: InternalModelServerPluginContext;
+
+    @inject(SubscriptionManager)
+    protected readonly subscriptionManager: SubscriptionManager;
+
+    @inject(MetricsRegistry)
+    protected readonly metrics: MetricsRegistry;
+
+    protected upstreamErrors: CounterMetric;
+
+    protected upstream?: UpstreamStatus;
+
+    /** The probe in progress, if any, so that probes do not overlap. */
+    protected probing?: Promise<UpstreamStatus>;
+
+    protected timer?: NodeJS.Timeout;
+
+    protected ready?: boolean;
+
+    @postConstruct()
+    protected initializeMetrics(): void {
+        this.upstreamErrors = this.metrics.counter(UPSTREAM_ERRORS);
+    }
+
+    /**
+     * Start probing the _Upstream Model Server_ periodically. Has no effect if already started.
+     */
+    start(): void {
+        if (this.timer || this.options.probeInterval <= 0) {
+            return;
+        }
+
+        this.probe();
+        this.timer = setInterval(() => this.probe(), this.options.probeInterval);
+        // Don't keep the process alive only for probing
+        this.timer.unref();
+    }
+
+    /**
+     * Stop probing the _Upstream Model Server_.
+     */
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    /**
+     * Probe the _Upstream Model Server_ now. If a probe is already in progress, then its result is awaited instead.
+     *
+     * @returns the status of the _Upstream Model Server_
+     */
+    probe(): Promise<UpstreamStatus> {
+        if (!this.probing) {
+            this.probing = this.ping()
+                .then(status => {
+                    this.update(status);
+                    return status;
+                })
+                .finally(() => {
+                    this.probing = undefined;
+                });
+        }
+        return this.probing;
+    }
+
+    /**
+     * Describe the readiness of the _Model Server_. If the _Upstream Model Server_ has not yet been probed,
+     * then it is probed first.
+     *
+     * @returns the health status
+     */
+    async getStatus(): Promise<HealthStatus> {
+        const upstream = this.upstream ?? (await this.probe());
+        const initialized = this.pluginContext.isInitialized();
+        return {
+            ready: upstream.reachable && initialized,
+            upstream,
+            plugins: { initialized },
+            subscriptions: this.subscriptionManager.getSubscriptionCounts(),
+            transactions: this.modelServerClient.getOpenTransactionCount()
+        };
+    }
+
+    protected async ping(): Promise<UpstreamStatus> {
+        const lastProbe = new Date().toISOString();
+        const timeout = this.options.probeTimeout;
+        try {
+            const reachable = await withTimeout(
+                this.modelServerClient.ping(),
+                timeout,
+                () => new Error(`No response within ${timeout} ms.`)
+            );
+            if (reachable) {
+                return { reachable, lastProbe };
+            }
+            this.upstreamErrors.inc({ source: 'health' });
+            return { reachable, lastProbe, reason: 'Ping failed.' };
+        } catch (error) {
+            this.upstreamErrors.inc({ source: 'health' });
+            return { reachable: false, lastProbe, reason: error instanceof Error ? error.message : String(error) };
+        }
+    }
+
+    /**
+     * Record the latest status of the _Upstream Model Server_, logging changes in its reachability and in readiness.
+     */
+    protected update(status: UpstreamStatus): void {
+        const previous = this.upstream;
+        this.upstream = status;
+
+        if (previous?.reachable !== status.reachable) {
+            if (status.reachable) {
+                this.logger.info('Upstream Model Server is reachable.');
+            } else {
+                this.logger.warn('Upstream Model Server is not reachable: %s', status.reason);
+            }
+        }
+
+        const ready = status.reachable && this.pluginContext.isInitialized();
+        if (this.ready !== ready) {
+            this.ready = ready;
+            this.logger.info(ready ? 'Model Server is ready.' : 'Model Server is not ready.');
+        }
+    }
+}
@@ -0,0 +1,154 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import { inject, injectable, postConstruct } from 'inversify';
+import { config } from 'winston';
+
+import { LogLevel } from '../di';
+
+export const LoggingOptions = Symbol('LoggingOptions');
+
+/** The output formats of the logs: human-readable lines or JSON lines for log aggregation. */
+export type LogFormat = 'console' | 'json';
+
+/**
+ * Configuration of the logging of the _Model Server_.
+ */
+export interface LoggingOptions {
+    /** The format in which to write logs. */
+    format: LogFormat;
+    /** A file to which to write logs in addition to the console, if any. */
+    file?: string;
+    /** The size, in bytes, at which the log file is rotated. */
+    maxSize: number;
+    /** How many rotated log files to keep, including the current one. */
+    maxFiles: number;
+    /** Overrides of the root log level for loggers, by logger name. */
+    levels?: Record<string, LogLevel>;
+}
+
+/** The default logging configuration, logging to the console only. */
+export const DEFAULT_LOGGING_OPTIONS: LoggingOptions = { format: 'console', maxSize: 10 * 1024 * 1024, maxFiles: 5 };
+
+/** Severities of the log levels, the most severe being the lowest, as in the `npm` levels of winston. */
+const SEVERITIES: Record<LogLevel, number> = { error: 0, warn: 1, info: 2, debug: 5 };
+
+/** Query whether some value is a supported log level. */
+export function isLogLevel(level: unknown): level is LogLevel {
+    return typeof level === 'string' && Object.prototype.hasOwnProperty.call(SEVERITIES, level);
+}
+
+/**
+ * Error indicating an attempt to set an unsupported log level.
+ */
+export class InvalidLogLevelError extends Error {
+    constructor(readonly level: unknown) {
+        super(`Invalid log level: ${level}. Expected one of ${Object.keys(SEVERITIES).join(', ')}.`);
+        this.name = InvalidLogLevelError.name;
+    }
+}
+
+/**
+ * The current log levels: that of the root logger, which applies to all loggers
+ * by default, and those of loggers that override it, by logger name.
+ */
+export interface LogLevels {
+    root: LogLevel;
+    loggers: Record<string, LogLevel>;
+}
+
+/**
+ * The manager of log levels, which may be changed while the server is running,
+ * either for all loggers or for individual loggers by name.
+ */
+@injectable()
+export class LoggingManager {
+    @inject(LogLevel)
+    protected readonly initialLevel: LogLevel;
+
+    @inject(LoggingOptions)
+    protected readonly options: LoggingOptions;
+
+    protected rootLevel: LogLevel;
+
+    /** Overrides of the root log level, by logger name. */
+    protected readonly levels: Map<string, LogLevel> = new Map();
+
+    @postConstruct()
+    protected initialize(): void {
+        this.rootLevel = checkLevel(this.initialLevel);
+        Object.entries(this.options.levels ?? {}).forEach(([logger, level]) => this.levels.set(logger, checkLevel(level)));
+    }
+
+    /**
+     * Obtain the current log levels.
+     */
+    getLevels(): LogLevels {
+        const loggers: Record<string, LogLevel> = {};
+        this.levels.forEach((level, logger) => (loggers[logger] = level));
+        return { root: this.rootLevel, loggers };
+    }
+
+    /**
+     * Obtain the effective log level of a logger.
+     *
+     * @param logger the name of a logger, or omitted for the root log level
+     * @returns the logger's own level, if it overrides the root level, otherwise the root level
+     */
+    getLevel(logger?: string): LogLevel {
+        return (logger !== undefined && this.levels.get(logger)) || this.rootLevel;
+    }
+
+    /**
+     * Set a log level.
+     *
+     * @param level the log level to set
+     * @param logger the name of a logger to set its level, overriding the root level, or omitted to set the root level
+     *
+     * @throws {@link InvalidLogLevelError} if the `level` is not a supported log level
+     */
+    setLevel(level: LogLevel, logger?: string): void {
+        checkLevel(level);
+        if (logger === undefined) {
+            this.rootLevel = level;
+        } else {
+            this.levels.set(logger, level);
+        }
+    }
+
+    /**
+     * Remove the override of the root log level for a logger, if it has one.
+     *
+     * @param logger the name of the logger
+     * @returns whether the logger had its own level
+     */
+    resetLevel(logger: string): boolean {
+        return this.levels.delete(logger);
+    }
+
+    /**
+     * Query whether messages of some level are logged by a logger.
+     *
+     * @param level the level of a message, which may be any of the `npm` levels of winston
+     * @param logger the name of the logger, or omitted for the root logger
+     * @returns whether the message is to be logged
+     */
+    isEnabled(level: string, logger?: string): boolean {
+        const severity = config.npm.levels[level];
+        return severity !== undefined && severity <= SEVERITIES[this.getLevel(logger)];
+    }
+}
+
+function checkLevel(level: unknown): LogLevel {
+    if (!isLogLevel(level)) {
+        throw new InvalidLogLevelError(level);
+    }
+    return level;
+}
@@ -0,0 +1,324 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { Counter, MetricLabels, MetricOptions } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { injectable } from 'inversify';
+
+/** Default buckets of histograms of durations, in seconds. */
+export const DEFAULT_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/** The counter of errors in communication with the _Upstream Model Server_, by the source of the communication. */
+export const UPSTREAM_ERRORS: MetricOptions = {
+    name: 'modelserver_upstream_errors_total',
+    help: 'Errors in communication with the Upstream Model Server, by source.',
+    labelNames: ['source']
+};
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Error reporting an invalid metric or an invalid use of a metric.
+ */
+export class MetricError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = MetricError.name;
+    }
+}
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Options for registration of a gauge.
+ */
+export interface GaugeOptions extends MetricOptions {
+    /** Optional call-back that computes the value of an unlabelled gauge whenever the metrics are collected. */
+    collect?: () => number;
+}
+
+/**
+ * Options for registration of a histogram.
+ */
+export interface HistogramOptions extends MetricOptions {
+    /** The upper bounds of the buckets of the histogram, in increasing order. Defaults to {@link DEFAULT_DURATION_BUCKETS}. */
+    buckets?: number[];
+}
+
+/**
+ * Common behaviour of metrics, which record samples by the values of their labels.
+ */
+abstract class Metric<S> {
+    protected readonly samples: Map<string, { labels: MetricLabels; sample: S }> = new Map();
+
+    readonly labelNames: string[];
+
+    constructor(readonly type: MetricType, readonly name: string, readonly help: string, labelNames: string[] = []) {
+        if (!METRIC_NAME.test(name)) {
+            throw new MetricError(`Invalid metric name: ${name}`);
+        }
+        const invalid = labelNames.find(label => !LABEL_NAME.test(label) || label.startsWith('__'));
+        if (invalid !== undefined) {
+            throw new MetricError(`Invalid label name of metric ${name}: ${invalid}`);
+        }
+        this.labelNames = labelNames;
+    }
+
+    /**
+     * Obtain the sample of the metric for the given label values, creating it if necessary.
+     *
+     * @throws {@link MetricError} if the `labels` do not match the label names of the metric
+     */
+    protected sample(labels: MetricLabels = {}, create: () => S): S {
+        const names = Object.keys(labels);
+        if (names.length !== this.labelNames.length || names.some(label => !this.labelNames.includes(label))) {
+            throw new MetricError(`Labels of metric ${this.name} must be [${this.labelNames.join(', ')}] but are [${names.join(', ')}].`);
+        }
+
+        const key = JSON.stringify(this.labelNames.map(label => String(labels[label])));
+        let result = this.samples.get(key);
+        if (!result) {
+            result = { labels, sample: create() };
+            this.samples.set(key, result);
+        }
+        return result.sample;
+    }
+
+    /**
+     * Render the metric in the Prometheus text exposition format.
+     *
+     * @returns the lines of the metric's exposition
+     */
+    expose(): string[] {
+        const result = [`# HELP ${this.name} ${escapeHelp(this.help)}`, `# TYPE ${this.name} ${this.type}`];
+        this.samples.forEach(({ labels, sample }) => result.push(...this.exposeSample(labels, sample)));
+        return result;
+    }
+
+    protected abstract exposeSample(labels: MetricLabels, sample: S): string[];
+}
+
+/**
+ * A metric that only ever increases.
+ */
+export class CounterMetric extends Metric<{ value: number }> implements Counter {
+    constructor(options: MetricOptions) {
+        super('counter', options.name, options.help, options.labelNames);
+    }
+
+    inc(labels?: MetricLabels, value = 1): void {
+        if (value < 0) {
+            throw new MetricError(`Counter ${this.name} cannot be decremented.`);
+        }
+        this.sample(labels, () => ({ value: 0 })).value += value;
+    }
+
+    protected exposeSample(labels: MetricLabels, sample: { value: number }): string[] {
+        return [`${this.name}${formatLabels(labels)} ${formatValue(sample.value)}`];
+    }
+}
+
+/**
+ * A metric that may go up and down, such as the number of some resource in use.
+ */
+export class GaugeMetric extends Metric<{ value: number }> {
+    protected readonly collect?: () => number;
+
+    constructor(options: GaugeOptions) {
+        super('gauge', options.name, options.help, options.labelNames);
+        this.collect = options.collect;
+    }
+
+    set(value: number, labels?: MetricLabels): void {
+        this.sample(labels, () => ({ value: 0 })).value = value;
+    }
+
+    inc(labels?: MetricLabels, value = 1): void {
+        this.sample(labels, () => ({ value: 0 })).value += value;
+    }
+
+    dec(labels?: MetricLabels, value = 1): void {
+        this.inc(labels, -value);
+    }
+
+    expose(): string[] {
+        if (this.collect) {
+            this.set(this.collect());
+        }
+        return super.expose();
+    }
+
+    protected exposeSample(labels: MetricLabels, sample: { value: number }): string[] {
+        return [`${this.name}${formatLabels(labels)} ${formatValue(sample.value)}`];
+    }
+}
+
+interface HistogramSample {
+    /** The number of observations in each bucket, not cumulative. */
+    counts: number[];
+    sum: number;
+    count: number;
+}
+
+/**
+ * A metric that counts observations, such as durations, in buckets.
+ */
+export class HistogramMetric extends Metric<HistogramSample> {
+    readonly buckets: number[];
+
+    constructor(options: HistogramOptions) {
+        super('histogram', options.name, options.help, options.labelNames);
+        if (this.labelNames.includes('le')) {
+            throw new MetricError(`Histogram ${this.name} cannot have an 'le' label.`);
+        }
+        this.buckets = [...(options.buckets ?? DEFAULT_DURATION_BUCKETS)].sort((a, b) => a - b);
+    }
+
+    observe(value: number, labels?: MetricLabels): void {
+        const sample = this.sample(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 }));
+        const bucket = this.buckets.findIndex(bound => value <= bound);
+        if (bucket >= 0) {
+            sample.counts[bucket]++;
+        }
+        sample.sum += value;
+        sample.count++;
+    }
+
+    /**
+     * Start timing something, to observe its duration in seconds.
+     *
+     * @param labels the values of the labels of the sample in which to observe the duration, if not given when it ends
+     * @returns a function that ends the timing, observing the duration, which it returns
+     */
+    startTimer(labels?: MetricLabels): (endLabels?: MetricLabels) => number {
+        const start = process.hrtime();
+        return endLabels => {
+            const [secs, nanos] = process.hrtime(start);
+            const seconds = secs + nanos / 1e9;
+            this.observe(seconds, { ...labels, ...endLabels });
+            return seconds;
+        };
+    }
+
+    protected exposeSample(labels: MetricLabels, sample: HistogramSample): string[] {
+        let cumulative = 0;
+        const result = this.buckets.map((bound, index) => {
+            cumulative += sample.counts[index];
+            return `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${cumulative}`;
+        });
+        result.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${sample.count}`);
+        result.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sample.sum)}`);
+        result.push(`${this.name}_count${formatLabels(labels)} ${sample.count}`);
+        return result;
+    }
+}
+
+type AnyMetric = CounterMetric | GaugeMetric | HistogramMetric;
+
+/**
+ * The registry of the metrics of the _Model Server_, which are exposed in the Prometheus text format.
+ * Metrics are created on first request and subsequent requests for a metric of the same name obtain the same metric.
+ */
+@injectable()
+export class MetricsRegistry {
+    protected readonly metrics: Map<string, AnyMetric> = new Map();
+
+    /**
+     * Obtain a counter, creating it if necessary.
+     *
+     * @throws {@link MetricError} if a metric of the same name but a different type is registered
+     */
+    counter(options: MetricOptions): CounterMetric {
+        return this.getOrCreate(options.name, CounterMetric, () => new CounterMetric(options));
+    }
+
+    /**
+     * Obtain a gauge, creating it if necessary.
+     *
+     * @throws {@link MetricError} if a metric of the same name but a different type is registered
+     */
+    gauge(options: GaugeOptions): GaugeMetric {
+        return this.getOrCreate(options.name, GaugeMetric, () => new GaugeMetric(options));
+    }
+
+    /**
+     * Obtain a histogram, creating it if necessary.
+     *
+     * @throws {@link MetricError} if a metric of the same name but a different type is registered
+     */
+    histogram(options: HistogramOptions): HistogramMetric {
+        return this.getOrCreate(options.name, HistogramMetric, () => new HistogramMetric(options));
+    }
+
+    /** Query whether a metric of the given name is registered. */
+    has(name: string): boolean {
+        return this.metrics.has(name);
+    }
+
+    /**
+     * Remove a metric. Has no effect if the metric is not registered.
+     *
+     * @param name the name of the metric to remove
+     * @param metric if given, the metric is only removed if it is the one registered under the `name`
+     */
+    unregister(name: string, metric?: Counter): void {
+        if (!metric || this.metrics.get(name) === metric) {
+            this.metrics.delete(name);
+        }
+    }
+
+    /**
+     * Render all metrics in the Prometheus text exposition format.
+     *
+     * @returns the exposition of the metrics
+     */
+    expose(): string {
+        const lines = Array.from(this.metrics.values()).reduce((acc, metric) => acc.concat(metric.expose()), [] as string[]);
+        return lines.length > 0 ? lines.join('\n') + '\n' : '';
+    }
+
+    protected getOrCreate<M extends AnyMetric>(name: string, type: new (...args: any[]) => M, create: () => M): M {
+        const existing = this.metrics.get(name);
+        if (existing) {
+            if (!(existing instanceof type)) {
+                throw new MetricError(`Metric ${name} is already registered as a ${existing.type}.`);
+            }
+            return existing;
+        }
+
+        const result = create();
+        this.metrics.set(name, result);
+        return result;
+    }
+}
+
+function escapeHelp(help: string): string {
+    return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels): string {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) {
+        return '';
+    }
+    const escape = (value: string | number): string => String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+    return `{${entries.map(([name, value]) => `${name}="${escape(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+    if (Number.isNaN(value)) {
+        return 'NaN';
+    }
+    if (!Number.isFinite(value)) {
+        return value > 0 ? '+Inf' : '-Inf';
+    }
+    return String(value);
+}
@@ -0,0 +1,89 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { ModelUpdateResult } from '@eclipse-emfcloud/modelserver-client';
+import { Logger, ModelChangeEvent, ModelChangeKind, ModelChangeListener } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { inject, injectable, named } from 'inversify';
+import * as URI from 'urijs';
+import { v4 as uuid } from 'uuid';
+
+import { createModelURIFilter } from '../validation-provider-registry';
+
+interface ListenerRegistration {
+    listener: ModelChangeListener;
+    filter: (modelURI: URI) => boolean;
+}
+
+/**
+ * The registry of model change listeners contributed by plug-ins, which notifies them
+ * of changes to models after those changes are completed.
+ */
+@injectable()
+export class ModelChangeNotifier {
+    @inject(Logger)
+    @named(ModelChangeNotifier.name)
+    protected readonly logger: Logger;
+
+    protected readonly listeners: Map<string, ListenerRegistration> = new Map();
+
+    /**
+     * Register a model change listener.
+     *
+     * @param modelURI a substring or pattern to match in the URIs of models of which the listener is notified
+     * @param listener the model change listener to register
+     * @returns the unique ID of the registration
+     */
+    register(modelURI: string | RegExp, listener: ModelChangeListener): string {
+        const id = uuid();
+        this.logger.debug(`Registering model change listener ${id}`);
+        this.listeners.set(id, { listener, filter: createModelURIFilter(modelURI) });
+        return id;
+    }
+
+    /**
+     * Unregister a model change listener.
+     * Has no effect if the listener is not currently registered under the given ID.
+     *
+     * @param id the unique ID of the registration
+     * @param listener the model change listener to unregister
+     */
+    unregister(id: string, listener: ModelChangeListener): void {
+        if (this.listeners.get(id)?.listener === listener) {
+            this.logger.debug(`Unregistering model change listener ${id}`);
+            this.listeners.delete(id);
+        }
+    }
+
+    /**
+     * Notify listeners of a change to a model. The listeners are invoked asynchronously, so that
+     * they do not delay the completion of the change, and any failure of a listener is logged.
+     *
+     * @param modelURI the model that changed
+     * @param kind the kind of change
+     * @param result for a change to the content of the model, the final result of the change
+     */
+    notify(modelURI: URI | string, kind: ModelChangeKind, result?: ModelUpdateResult): void {
+        const uri = typeof modelURI === 'string' ? new URI(modelURI) : modelURI;
+        const event: ModelChangeEvent = { modelURI: uri, kind, ...(result ? { result } : {}) };
+
+        Array.from(this.listeners.values())
+            .filter(registration => registration.filter(uri))
+            .forEach(({ listener }) =>
+                setImmediate(async () => {
+                    try {
+                        await listener(event);
+                    } catch (error) {
+                        this.logger.error(`Model change listener failed on ${kind} of ${uri}: ${error}`);
+                    }
+                })
+            );
+    }
+}
@@ -17,12 +17,13 @@ import {
     ModelUpdateResult,
     TypeGuard
 } from '@eclipse-emfcloud/modelserver-client';
-import { EditTransaction, Logger, ModelService } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { EditTransaction, Logger, ModelService, Principal } from '@eclipse-emfcloud/modelserver-plugin-ext';
 import { Operation } from 'fast-json-patch';
 import { inject, injectable, named } from 'inversify';
 import * as URI from 'urijs';
 
-import { InternalModelServerClientApi } from '../client/model-server-client';
+import { InternalModelServerClientApi, TransactionContext, TransactionScope } from '../client/model-server-client';
+import { RequestContext } from '../request-context';
 import { EditService } from './edit-service';
 import { ValidationManager } from './validation-manager';
 
@@ -47,10 +48,19 @@ export class DefaultModelService implements ModelService {
     @inject(EditService)
     protected readonly editService: EditService;
 
+    /** The top-level transaction that I have opened on my model, if any. */
+    protected transaction?: TransactionContext;
+
     getModelURI(): URI {
         return this.modeluri;
     }
 
+    getPrincipal(): Principal | undefined {
+        // A transaction remembers the caller that opened it, even when its triggers run later
+        const transaction = this.transaction?.isOpen() ? this.transaction : TransactionScope.get(this.getModelURI());
+        return transaction ? transaction.getPrincipal() : RequestContext.getPrincipal();
+    }
+
     getModel(format?: string): Promise<AnyObject>;
     getModel<M>(typeGuard: TypeGuard<M>, format?: string): Promise<M>;
     getModel<M>(typeGuardOrFormat: TypeGuard<M> | string, format?: string): Promise<M | AnyObject> {
@@ -69,7 +79,11 @@ export class DefaultModelService implements ModelService {
     edit(patch: Operation | Operation[]): Promise<ModelUpdateResult>;
     edit(command: ModelServerCommand): Promise<ModelUpdateResult>;
     edit(patchOrCommand: Operation | Operation[] | ModelServerCommand): Promise<ModelUpdateResult> {
-        return this.editService.edit(this.getModelURI(), patchOrCommand);
+        return this.inTransactionScope(() => this.editService.edit(this.getModelURI(), patchOrCommand));
+    }
+
+    preview(patchOrCommand: Operation | Operation[] | ModelServerCommand): Promise<ModelUpdateResult> {
+        return this.inTransactionScope(() => this.editService.preview(this.getModelURI(), patchOrCommand));
     }
 
     undo(): Promise<ModelUpdateResult> {
@@ -80,8 +94,28 @@ export class DefaultModelService implements ModelService {
         return this.client.redo(this.getModelURI().toString());
     }
 
-    openTransaction(): Promise<EditTransaction> {
-        return this.client.openTransaction(this.getModelURI());
+    async openTransaction(): Promise<EditTransaction> {
+        if (this.transaction?.isOpen()) {
+            return this.inTransactionScope(() => this.client.openTransaction(this.getModelURI()));
+        }
+
+        const result = await this.client.openTransaction(this.getModelURI());
+        this.transaction = result;
+        return result;
+    }
+
+    /**
+     * Perform an operation on my model in the scope of the transaction that I have open on it, if any,
+     * so that it is not queued behind that transaction but included in it.
+     *
+     * @param operation the operation to perform
+     * @returns the result of the `operation`
+     */
+    protected inTransactionScope<T>(operation: () => T): T {
+        if (this.transaction?.isOpen()) {
+            return TransactionScope.run(this.transaction, operation);
+        }
+        return operation();
     }
 
     validate(): Promise<Diagnostic> {
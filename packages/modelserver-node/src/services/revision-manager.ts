@@ -0,0 +1,203 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { Logger } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { AsyncLocalStorage } from 'async_hooks';
+import { inject, injectable, named } from 'inversify';
+import * as URI from 'urijs';
+
+import { modelURIKey } from '../client/uri-utils';
+
+/**
+ * Error rejecting an edit whose precondition on the revision of the model was not met,
+ * because the model was changed since the client last saw it.
+ */
+export class PreconditionFailedError extends Error {
+    /**
+     * Initializes me.
+     *
+     * @param modelURI the model that was to be edited
+     * @param ifMatch the entity tag(s) that the client expected the model to match
+     * @param revision the current revision of the model
+     */
+    constructor(readonly modelURI: string, readonly ifMatch: string, readonly revision: number) {
+        super(`Model ${modelURI} is at revision ${revision}, which does not match ${ifMatch}.`);
+        this.name = PreconditionFailedError.name;
+    }
+}
+
+/**
+ * The result of an edit operation together with the revision of the model that it produced.
+ */
+export interface RevisedResult<T> {
+    /** The result of the edit operation. */
+    result: T;
+    /** The revision of the model produced by the edit or, if it did not change the model, the revision at which the model stands. */
+    revision: number;
+}
+
+/**
+ * Tracking of a client request to edit a model.
+ */
+interface RevisionContext {
+    readonly key: string;
+    /** A precondition on the revision of the model, to be checked when it is our turn to edit the model. */
+    readonly ifMatch?: string;
+    /** Whether the precondition has been checked. */
+    checked: boolean;
+    /** The revision produced by the edit, once it has succeeded. */
+    revision?: number;
+}
+
+/** The tracking of the client edit request, if any, in the current asynchronous call chain. */
+const revisionContext = new AsyncLocalStorage<RevisionContext>();
+
+/**
+ * Tracking of the revision of each model, for optimistic concurrency control of edits.
+ * The revision of a model counts the changes successfully performed in it via this server.
+ * It is reported to clients as an entity tag (`ETag`).
+ */
+@injectable()
+export class RevisionManager {
+    @inject(Logger)
+    @named(RevisionManager.name)
+    protected readonly logger: Logger;
+
+    /** Map of model key to its current revision. */
+    protected readonly revisions: Map<string, number> = new Map();
+
+    /** Map of model key to the number of edits in progress on it. */
+    protected readonly pending: Map<string, number> = new Map();
+
+    /**
+     * Get the current revision of a model.
+     *
+     * @param modelURI the model URI
+     * @returns its current revision
+     */
+    getRevision(modelURI: URI | string): number {
+        return this.revisions.get(modelURIKey(modelURI)) ?? 0;
+    }
+
+    /**
+     * Get the revision of a model that includes any change currently being performed in it.
+     * This is the revision to report in notifications of changes that the _Upstream Model Server_
+     * may send before the edit that performs them has completed.
+     *
+     * @param modelURI the model URI
+     * @returns its current revision or the revision that an edit in progress will produce
+     */
+    getLatestRevision(modelURI: URI | string): number {
+        const key = modelURIKey(modelURI);
+        return (this.revisions.get(key) ?? 0) + (this.pending.has(key) ? 1 : 0);
+    }
+
+    /**
+     * Note the start of an edit of a model.
+     *
+     * @param modelURI the model being edited
+     * @returns a function to call when the edit is complete, indicating whether it succeeded and so advanced the revision
+     */
+    startEdit(modelURI: URI | string): (success: boolean) => void {
+        const key = modelURIKey(modelURI);
+        this.pending.set(key, (this.pending.get(key) ?? 0) + 1);
+        const context = revisionContext.getStore();
+
+        let done = false;
+        return success => {
+            if (done) {
+                return;
+            }
+            done = true;
+
+            const remaining = this.pending.get(key) - 1;
+            if (remaining > 0) {
+                this.pending.set(key, remaining);
+            } else {
+                this.pending.delete(key);
+            }
+
+            if (success) {
+                const revision = (this.revisions.get(key) ?? 0) + 1;
+                this.revisions.set(key, revision);
+                this.logger.debug(`Model ${key} is now at revision ${revision}.`);
+                if (context?.key === key) {
+                    context.revision = revision;
+                }
+            }
+        };
+    }
+
+    /**
+     * Perform an `operation` that edits a model on behalf of a client, optionally under the precondition that the model
+     * still be at a revision expected by the client. The precondition is checked when the edit gets its turn on the model.
+     *
+     * @param modelURI the model to edit
+     * @param ifMatch the value of an `If-Match` header from the client, if any. If absent, there is no precondition
+     * @param operation the edit operation to perform
+     * @returns the result of the `operation` and the revision of the model that it produced
+     */
+    async withRevision<T>(modelURI: URI | string, ifMatch: string | undefined, operation: () => Promise<T>): Promise<RevisedResult<T>> {
+        const context: RevisionContext = { key: modelURIKey(modelURI), ifMatch, checked: false };
+        const result = await revisionContext.run(context, operation);
+        return { result, revision: context.revision ?? this.getRevision(modelURI) };
+    }
+
+    /**
+     * Check the precondition, if any, on edits of a model in the current asynchronous call chain.
+     * A precondition is only checked once, by the first edit of the model that gets its turn.
+     *
+     * @param modelURI the model about to be edited
+     * @throws a `PreconditionFailedError` if the precondition is not met
+     */
+    checkPrecondition(modelURI: URI | string): void {
+        const context = revisionContext.getStore();
+        const key = modelURIKey(modelURI);
+        if (context?.ifMatch === undefined || context.checked || context.key !== key) {
+            return;
+        }
+
+        context.checked = true;
+        const revision = this.getRevision(key);
+        if (!matchesETag(context.ifMatch, revision)) {
+            throw new PreconditionFailedError(key, context.ifMatch, revision);
+        }
+    }
+}
+
+/**
+ * Format a model revision as an entity tag for the `ETag` header.
+ *
+ * @param revision the model revision
+ * @returns its entity tag
+ */
+export function toETag(revision: number): string {
+    return `"${revision}"`;
+}
+
+/**
+ * Query whether the value of an `If-Match` header matches a revision.
+ *
+ * @param ifMatch the `If-Match` header value: `*` or a comma-separated list of (possibly weak) entity tags
+ * @param revision the revision to match
+ * @returns whether the `revision` matches
+ */
+function matchesETag(ifMatch: string, revision: number): boolean {
+    return ifMatch
+        .split(',')
+        .map(tag =>
+            tag
+                .trim()
+                .replace(/^W\//, '')
+                .replace(/^"(.*)"$/, '$1')
+        )
+        .some(tag => tag === '*' || tag === String(revision));
+}
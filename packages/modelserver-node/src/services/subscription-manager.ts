@@ -9,16 +9,20 @@
  * SPDX-License-Identifier: EPL-2.0 OR MIT
  *******************************************************************************/
 
-import { Diagnostic, MessageType, ModelServerMessage } from '@eclipse-emfcloud/modelserver-client';
+import { AnyObject, Diagnostic, Format, FORMAT_JSON_V2, MessageType, ModelServerMessage } from '@eclipse-emfcloud/modelserver-client';
 import { Logger } from '@eclipse-emfcloud/modelserver-plugin-ext';
 import { EventEmitter } from 'events';
-import { inject, injectable, named } from 'inversify';
+import { inject, injectable, named, postConstruct } from 'inversify';
 import { stringify as unparseQuery } from 'qs';
 import * as URI from 'urijs';
 import * as WebSocket from 'ws';
 
-import { UpstreamConnectionConfig } from '../client/model-server-client';
+import { InternalModelServerClientApi, UpstreamConnectionConfig } from '../client/model-server-client';
+import { modelURIKey } from '../client/uri-utils';
+import { upstreamWebSocketOptions, upstreamWebSocketURL } from '../client/upstream-connection';
 import { handleClose, handleError, JSONSocket } from '../client/web-socket-utils';
+import { CounterMetric, MetricsRegistry, UPSTREAM_ERRORS } from './metrics';
+import { RevisionManager } from './revision-manager';
 
 /**
  * Query parameters for the `GET` request on the `subscribe` endpoint.
@@ -37,7 +41,68 @@ export interface SubscriptionQuery {
 
 type Client = JSONSocket & { options?: SubscriptionQuery };
 
-export type EventType = 'subscribed' | 'unsubscribed';
+export const SubscriptionOptions = Symbol('SubscriptionOptions');
+
+/**
+ * Configuration of the recovery of subscriptions to the _Upstream Model Server_ when their connection drops.
+ */
+export interface SubscriptionOptions {
+    /**
+     * How long, in milliseconds, to wait before the first attempt to reconnect a dropped upstream subscription.
+     * The delay doubles with each subsequent attempt.
+     */
+    reconnectDelay: number;
+    /** The maximal delay, in milliseconds, between attempts to reconnect a dropped upstream subscription. */
+    maxReconnectDelay: number;
+    /**
+     * How long, in milliseconds, to keep trying to reconnect a dropped upstream subscription before giving up
+     * and closing its downstream subscribers.
+     */
+    giveUpAfter: number;
+}
+
+/** Default subscription recovery options. */
+export const DEFAULT_SUBSCRIPTION_OPTIONS: SubscriptionOptions = { reconnectDelay: 500, maxReconnectDelay: 10000, giveUpAfter: 60000 };
+
+/**
+ * The state of the attempts to reconnect a dropped upstream subscription.
+ */
+interface Reconnection {
+    /** When the upstream subscription dropped, in milliseconds since the epoch. */
+    readonly since: number;
+    /** The number of attempts made so far to reconnect. */
+    attempts: number;
+    /** The pending next attempt to reconnect, if any. */
+    timer?: NodeJS.Timeout;
+}
+
+/**
+ * A subscription to the _Upstream Model Server_ that is shared by all of the downstream clients
+ * subscribed to the same model with the same options.
+ */
+interface SharedSubscription {
+    /** The key identifying the model and options of the subscription. */
+    readonly key: string;
+    /** The URL of the subscription to the _Upstream Model Server_. */
+    readonly url: string;
+    /** The model URI to which the subscription pertains. */
+    readonly modelURI: string;
+    /** The format in which the subscription receives model content. */
+    readonly format: Format;
+    /** The socket of the subscription to the _Upstream Model Server_, which is replaced when it is reconnected. */
+    upstream?: JSONSocket;
+    /** The state of reconnection, if the upstream subscription has dropped. */
+    reconnection?: Reconnection;
+    /** The downstream clients to which upstream messages are fanned out. */
+    readonly clients: Set<Client>;
+    /**
+     * Messages from upstream, by type, with which to welcome clients that join the subscription after it was opened:
+     * the confirmation of the subscription and the latest dirty state of the model.
+     */
+    readonly welcome: Map<string, ModelServerMessage<AnyObject>>;
+}
+
+export type EventType = 'subscribed' | 'unsubscribed' | 'reconnected';
 
 @injectable()
 export class SubscriptionManager {
@@ -48,44 +113,70 @@ export class SubscriptionManager {
     @inject(UpstreamConnectionConfig)
     protected readonly upstreamConnectionConfig: UpstreamConnectionConfig;
 
+    @inject(RevisionManager)
+    protected readonly revisionManager: RevisionManager;
+
+    @inject(InternalModelServerClientApi)
+    protected readonly modelServerClient: InternalModelServerClientApi;
+
+    @inject(SubscriptionOptions)
+    protected readonly options: SubscriptionOptions;
+
+    @inject(MetricsRegistry)
+    protected readonly metrics: MetricsRegistry;
+
+    protected upstreamErrors: CounterMetric;
+
     /** Map of downstream (client) socket to upstream (Upstream Model Server) socket. */
     protected readonly subscriptions: Map<Client, JSONSocket> = new Map();
 
+    /** Map of shared upstream subscriptions by key of model URI and options. */
+    protected readonly upstreamSubscriptions: Map<string, SharedSubscription> = new Map();
+
     protected readonly eventEmitter = new EventEmitter();
 
+    @postConstruct()
+    protected initializeMetrics(): void {
+        this.upstreamErrors = this.metrics.counter(UPSTREAM_ERRORS);
+        this.metrics.gauge({
+            name: 'modelserver_subscriptions',
+            help: 'Number of clients subscribed to notifications of model changes.',
+            collect: () => this.getSubscriptionCounts().clients
+        });
+        this.metrics.gauge({
+            name: 'modelserver_upstream_subscriptions',
+            help: 'Number of subscriptions to the Upstream Model Server shared by subscribed clients.',
+            collect: () => this.getSubscriptionCounts().upstream
+        });
+    }
+
     addSubscription(client: WebSocket, endpoint: string, params: SubscriptionQuery): JSONSocket {
         // Drop the livevalidation option from the upstream subscription because we handle
         // live validation broadcasts in the Model Server node.js layer
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
         const { livevalidation, ...upstreamParams } = params;
-        const { serverPort, hostname } = this.upstreamConnectionConfig;
-        const url = `ws://${hostname}:${serverPort}${endpoint}?${unparseQuery(upstreamParams)}`;
-        this.logger.info(`Forwarding subscriptions to ${url}`);
 
         const downstream: Client = new JSONSocket(client);
         downstream.options = params;
-        let upstream: JSONSocket;
 
         try {
-            upstream = new JSONSocket(new WebSocket(url));
-
-            this.subscriptions.set(downstream, upstream);
+            const { modeluri, ...options } = upstreamParams;
+            const key = subscriptionKey(endpoint, modeluri, options);
+            let shared = this.upstreamSubscriptions.get(key);
+            if (!shared) {
+                const url = `${upstreamWebSocketURL(this.upstreamConnectionConfig, endpoint)}?${unparseQuery(upstreamParams)}`;
+                this.logger.info(`Forwarding subscriptions to ${url}`);
+                shared = this.openUpstreamSubscription(key, url, params.modeluri, formatOf(params));
+            }
 
-            upstream.onMessage(msg => downstream.send(msg));
-            downstream.onMessage(msg => upstream.send(msg));
+            this.joinSubscription(shared, downstream);
 
             // Clean-up on close
-            const cleanupHandler: () => void = () => {
-                this.subscriptions.delete(downstream);
+            downstream.onClose(() => {
+                this.leaveSubscription(shared, downstream);
                 this.fireEvent('unsubscribed', downstream, params);
-            };
-            downstream.onClose(cleanupHandler);
-            upstream.onClose(cleanupHandler);
-
-            downstream.onError(handleError('downstream', this.logger, upstream));
-            upstream.onError(handleError('upstream', this.logger, downstream));
-            downstream.onClose(handleClose('downstream', this.logger, upstream));
-            upstream.onClose(handleClose('upstream', this.logger, downstream));
+            });
+            downstream.onError(handleError('downstream', this.logger));
         } catch (error) {
             // The only exception caught here should be in creating the upstream socket
             handleError('upstream', this.logger, downstream)(error);
@@ -96,6 +187,240 @@ export class SubscriptionManager {
         return downstream;
     }
 
+    /**
+     * Open a subscription to the _Upstream Model Server_ to be shared by downstream clients.
+     *
+     * @param key the key identifying the model and options of the subscription
+     * @param url the URL of the upstream subscription
+     * @param modelURI the model URI to which the subscription pertains
+     * @param format the format in which the subscription receives model content
+     * @returns the new shared subscription, as yet without any clients
+     */
+    protected openUpstreamSubscription(key: string, url: string, modelURI: string, format: Format): SharedSubscription {
+        const shared: SharedSubscription = { key, url, modelURI, format, clients: new Set(), welcome: new Map() };
+        this.upstreamSubscriptions.set(key, shared);
+        this.connectUpstream(shared);
+        return shared;
+    }
+
+    /**
+     * Connect, or reconnect, the socket of a shared subscription to the _Upstream Model Server_.
+     *
+     * @param shared the shared subscription to connect
+     */
+    protected connectUpstream(shared: SharedSubscription): void {
+        const upstream = this.createUpstreamSocket(shared.url);
+        shared.upstream = upstream;
+        shared.clients.forEach(client => this.subscriptions.set(client, upstream));
+
+        upstream.onMessage(msg => this.fanOut(shared, msg));
+        upstream.onClose((code, reason) => this.handleUpstreamClose(shared, upstream, code, reason));
+        upstream.onError(error => {
+            this.upstreamErrors.inc({ source: 'subscription' });
+            // The socket will be closed, so let the close handler deal with recovery
+            if (shared.reconnection) {
+                this.logger.warn(`Failed to reconnect upstream subscription ${shared.key}: ${error.message}`);
+            } else {
+                this.logger.error(`Error on upstream socket of subscription ${shared.key}.`, error);
+            }
+        });
+    }
+
+    /**
+     * Create a socket for a subscription to the _Upstream Model Server_.
+     *
+     * @param url the URL of the upstream subscription
+     * @returns the upstream socket
+     */
+    protected createUpstreamSocket(url: string): JSONSocket {
+        return new JSONSocket(new WebSocket(url, upstreamWebSocketOptions(this.upstreamConnectionConfig)));
+    }
+
+    /**
+     * Handle the closure of the socket of a shared subscription to the _Upstream Model Server_.
+     * A normal closure or failure to establish the subscription in the first place is propagated to
+     * the downstream clients but any other closure is taken to be a dropped connection, which is
+     * reconnected while the downstream clients are kept open.
+     *
+     * @param shared the shared subscription
+     * @param upstream the upstream socket that closed
+     * @param code the close code
+     * @param reason the reason for closure
+     */
+    protected handleUpstreamClose(shared: SharedSubscription, upstream: JSONSocket, code: number, reason: string): void {
+        if (this.upstreamSubscriptions.get(shared.key) !== shared || shared.upstream !== upstream) {
+            // We closed it ourselves after the last client left or this socket was already replaced
+            return;
+        }
+        if (code === 1000 || shared.clients.size === 0 || !shared.welcome.has(MessageType.success)) {
+            this.closeUpstreamSubscription(shared);
+            handleClose('upstream', this.logger, ...shared.clients)(code, reason);
+            return;
+        }
+
+        const now = Date.now();
+        if (!shared.reconnection) {
+            shared.reconnection = { since: now, attempts: 0 };
+        }
+        const { since, attempts } = shared.reconnection;
+        const remaining = since + this.options.giveUpAfter - now;
+        if (remaining <= 0) {
+            this.logger.error(`Giving up reconnecting upstream subscription ${shared.key} after ${attempts} attempts.`);
+            this.closeUpstreamSubscription(shared);
+            handleClose('upstream', this.logger, ...shared.clients)(code, reason);
+            return;
+        }
+
+        const delay = Math.min(this.options.reconnectDelay * 2 ** attempts, this.options.maxReconnectDelay, remaining);
+        this.logger.warn(`Upstream subscription ${shared.key} dropped with code ${code}. Reconnecting in ${delay} ms.`);
+        shared.reconnection.attempts++;
+        shared.reconnection.timer = setTimeout(() => {
+            shared.reconnection.timer = undefined;
+            try {
+                this.connectUpstream(shared);
+            } catch (error) {
+                this.logger.error(`Failed to reconnect upstream subscription ${shared.key}.`, error);
+                this.handleUpstreamClose(shared, upstream, 1006, error.message);
+            }
+        }, delay);
+    }
+
+    /**
+     * Complete the reconnection of a shared subscription when the _Upstream Model Server_ confirms it.
+     * As the subscribers may have missed changes while the upstream subscription was down, they are sent
+     * a full update of the model.
+     *
+     * @param shared the shared subscription that is reconnected
+     */
+    protected async handleReconnected(shared: SharedSubscription): Promise<void> {
+        const attempts = shared.reconnection?.attempts;
+        shared.reconnection = undefined;
+        this.logger.info(`Reconnected upstream subscription ${shared.key} after ${attempts} attempts.`);
+
+        try {
+            const model = await this.modelServerClient.get(new URI(shared.modelURI), shared.format);
+            this.fanOut(shared, { type: MessageType.fullUpdate, data: model });
+        } catch (error) {
+            this.logger.error(`Failed to resynchronize subscribers of ${shared.modelURI}.`, error);
+        }
+
+        shared.clients.forEach(client => this.fireEvent('reconnected', client, client.options));
+    }
+
+    /**
+     * Forget a shared subscription whose upstream socket has closed, so that new subscribers will open a new one.
+     *
+     * @param shared the shared subscription that is closed
+     */
+    protected closeUpstreamSubscription(shared: SharedSubscription): void {
+        if (this.upstreamSubscriptions.get(shared.key) === shared) {
+            this.upstreamSubscriptions.delete(shared.key);
+        }
+        if (shared.reconnection?.timer) {
+            clearTimeout(shared.reconnection.timer);
+        }
+        shared.reconnection = undefined;
+    }
+
+    /**
+     * Add a downstream client to a shared subscription, welcoming it with the messages that it missed if it
+     * joins a subscription that is already established.
+     *
+     * @param shared the shared subscription to join
+     * @param downstream the downstream client joining the subscription
+     */
+    protected joinSubscription(shared: SharedSubscription, downstream: Client): void {
+        shared.clients.add(downstream);
+        this.subscriptions.set(downstream, shared.upstream);
+
+        shared.welcome.forEach(msg => downstream.send(this.addRevision(msg, downstream.options.modeluri)));
+        downstream.onMessage(msg => this.forwardUpstream(shared, downstream, msg));
+    }
+
+    /**
+     * Remove a downstream client from a shared subscription, closing the upstream subscription when the last
+     * client has left.
+     *
+     * @param shared the shared subscription to leave
+     * @param downstream the downstream client leaving the subscription
+     */
+    protected leaveSubscription(shared: SharedSubscription, downstream: Client): void {
+        this.subscriptions.delete(downstream);
+        if (shared.clients.delete(downstream) && shared.clients.size === 0) {
+            this.closeUpstreamSubscription(shared);
+            if (shared.upstream?.isOpen) {
+                this.logger.debug(`Closing upstream subscription ${shared.key} after its last subscriber left.`);
+                shared.upstream.close(1000, 'No more subscribers.');
+            }
+        }
+    }
+
+    /**
+     * Fan out a message from the _Upstream Model Server_ to all clients of a shared subscription.
+     *
+     * @param shared the shared subscription
+     * @param msg the message from upstream
+     */
+    protected fanOut(shared: SharedSubscription, msg: ModelServerMessage<AnyObject>): void {
+        switch (msg.type) {
+            case MessageType.keepAlive:
+                // Replies to keep-alive are sent to each client by us
+                return;
+            case MessageType.success:
+                if (shared.reconnection) {
+                    // The clients already have their confirmation of the subscription
+                    this.handleReconnected(shared);
+                    return;
+                }
+                if (!shared.welcome.has(msg.type)) {
+                    shared.welcome.set(msg.type, msg);
+                }
+                break;
+            case MessageType.dirtyState:
+                shared.welcome.set(msg.type, msg);
+                break;
+        }
+
+        const message = this.addRevision(msg, shared.modelURI);
+        shared.clients.forEach(client => {
+            if (client.isOpen) {
+                client.send(message);
+            }
+        });
+    }
+
+    /**
+     * Forward a message from a downstream client to the _Upstream Model Server_.
+     * A keep-alive message is answered directly because the upstream reply would be fanned out to all clients.
+     *
+     * @param shared the shared subscription
+     * @param downstream the downstream client that sent the message
+     * @param msg the message from downstream
+     */
+    protected forwardUpstream(shared: SharedSubscription, downstream: Client, msg: ModelServerMessage<AnyObject>): void {
+        if (msg.type === MessageType.keepAlive) {
+            const reply: ModelServerMessage<any> = { type: MessageType.keepAlive, data: 'ok' };
+            downstream.send(reply);
+        }
+        if (shared.upstream?.isOpen) {
+            shared.upstream.send(msg);
+        }
+    }
+
+    /**
+     * Add the current revision of the model to a message from the _Upstream Model Server_ that reports changes in it.
+     *
+     * @param message a subscription message from the _Upstream Model Server_
+     * @param modelURI the model URI to which the subscription pertains
+     * @returns the message to send to the subscriber
+     */
+    protected addRevision(message: ModelServerMessage<AnyObject>, modelURI: string): ModelServerMessage<AnyObject> & { revision?: number } {
+        if (message.type === MessageType.incrementalUpdate || message.type === MessageType.fullUpdate) {
+            return { ...message, revision: this.revisionManager.getLatestRevision(modelURI) };
+        }
+        return message;
+    }
+
     protected fireEvent(eventType: EventType, client: JSONSocket, params: SubscriptionQuery): void {
         this.eventEmitter.emit(eventType, client, params);
     }
@@ -120,6 +445,16 @@ export class SubscriptionManager {
         return this;
     }
 
+    addReconnectedListener(listener: (client: JSONSocket, params: SubscriptionQuery) => void): this {
+        this.eventEmitter.on('reconnected', listener);
+        return this;
+    }
+
+    removeReconnectedListener(listener: (client: JSONSocket, params: SubscriptionQuery) => void): this {
+        this.eventEmitter.off('reconnected', listener);
+        return this;
+    }
+
     /**
      * Retrieve subscribers on a model URI. If provided, the `filter` may be either
      *
@@ -152,6 +487,37 @@ export class SubscriptionManager {
             .some(subscriberFilter(filter));
     }
 
+    /**
+     * Close all subscriptions, for shut-down: downstream subscribers and the upstream subscriptions that they share
+     * are closed without attempting to reconnect.
+     *
+     * @param code the close code to send to the subscribers
+     * @param reason the reason for closure
+     */
+    closeAll(code: number, reason: string): void {
+        const shared = Array.from(this.upstreamSubscriptions.values());
+        if (shared.length > 0) {
+            this.logger.info(`Closing ${this.subscriptions.size} subscriptions: ${reason}`);
+        }
+        for (const next of shared) {
+            // Forget it first so that closure of the upstream socket is not taken to be a dropped connection
+            this.closeUpstreamSubscription(next);
+            next.clients.forEach(client => client.close(code, reason));
+            if (next.upstream?.isOpen) {
+                next.upstream.close(code, reason);
+            }
+        }
+    }
+
+    /**
+     * Count the subscriptions, for diagnostic purposes.
+     *
+     * @returns the number of subscribed clients and the number of upstream subscriptions that they share
+     */
+    getSubscriptionCounts(): { clients: number; upstream: number } {
+        return { clients: this.subscriptions.size, upstream: this.upstreamSubscriptions.size };
+    }
+
     hasValidationSubscribers(modelURI: URI): boolean {
         return this.hasSubscribers(modelURI, 'livevalidation');
     }
@@ -201,3 +567,25 @@ const subscriberFilter: (
         : typeof filter === 'function'
         ? client => client.options && filter(client.options)
         : () => true;
+
+/**
+ * Compute the key of a shared upstream subscription, identifying the subscribed model and the options of the subscription.
+ *
+ * @param endpoint the subscription endpoint
+ * @param modeluri the subscribed model URI
+ * @param options the other parameters of the upstream subscription
+ * @returns the subscription key
+ */
+function subscriptionKey(endpoint: string, modeluri: string, options: AnyObject): string {
+    return `${endpoint} ${modelURIKey(modeluri)} ${unparseQuery(options, { sort: (a: string, b: string) => a.localeCompare(b) })}`;
+}
+
+/**
+ * Determine the format in which a subscription receives model content.
+ *
+ * @param params the subscription parameters
+ * @returns the subscription format
+ */
+function formatOf(params: SubscriptionQuery): Format {
+    return typeof params.format === 'string' ? params.format : FORMAT_JSON_V2;
+}
@@ -8,7 +8,7 @@
  *
  * SPDX-License-Identifier: EPL-2.0 OR MIT
  *******************************************************************************/
-import { Diagnostic, encode, ModelServerObjectV2 } from '@eclipse-emfcloud/modelserver-client';
+import { Diagnostic, encode, ERROR, ModelServerObjectV2, ModelUpdateResult } from '@eclipse-emfcloud/modelserver-client';
 import { Logger } from '@eclipse-emfcloud/modelserver-plugin-ext';
 import { inject, injectable, named, postConstruct } from 'inversify';
 import * as URI from 'urijs';
@@ -16,9 +16,51 @@ import * as URI from 'urijs';
 import { InternalModelServerClientApi } from '../client/model-server-client';
 import { validateModelURI } from '../client/uri-utils';
 import { JSONSocket } from '../client/web-socket-utils';
-import { ValidationProviderRegistry } from '../validation-provider-registry';
+import { createModelTypeFilter, createModelURIFilter, ValidationProviderRegistry } from '../validation-provider-registry';
 import { SubscriptionManager } from './subscription-manager';
 
+/**
+ * A pattern selecting models by URI and/or type. A model matches if it matches all of the properties that are specified.
+ */
+export interface ModelPattern {
+    /** A substring or pattern to match in the model URI. */
+    modelURI?: string | RegExp;
+    /** The `$type` of the root object of the model or a pattern to match it. */
+    modelType?: string | RegExp;
+}
+
+export const ValidationOptions = Symbol('ValidationOptions');
+
+/**
+ * Configuration of model validation.
+ */
+export interface ValidationOptions {
+    /**
+     * Patterns of the models whose edits are validated before they are committed. An edit that results
+     * in a diagnostic of `ERROR` severity or worse is vetoed: it is rolled back.
+     */
+    veto: ModelPattern[];
+}
+
+/** The default configuration of model validation, in which no edits are vetoed. */
+export const DEFAULT_VALIDATION_OPTIONS: ValidationOptions = { veto: [] };
+
+/**
+ * Error rejecting an edit that was rolled back because validation of its result found errors.
+ */
+export class ValidationVetoError extends Error {
+    /**
+     * Initializes me.
+     *
+     * @param modelURI the model that was to be edited
+     * @param diagnostic the result of validation of the edited model
+     */
+    constructor(readonly modelURI: string, readonly diagnostic: Diagnostic) {
+        super(`Edit of ${modelURI} was rolled back because it failed validation: ${diagnostic.message}`);
+        this.name = ValidationVetoError.name;
+    }
+}
+
 /**
  * Custom routing of requests on the `/api/v2/validation` endpoint.
  * The primary such customization is an intercept of the `GET` request for validation
@@ -39,6 +81,9 @@ export class ValidationManager {
     @inject(SubscriptionManager)
     protected readonly subscriptionManager: SubscriptionManager;
 
+    @inject(ValidationOptions)
+    protected readonly options: ValidationOptions;
+
     @postConstruct()
     initialize(): void {
         this.subscriptionManager.addSubscribedListener((client, params) => {
@@ -70,6 +115,44 @@ export class ValidationManager {
         return result;
     }
 
+    /**
+     * Query whether edits of a model are to be validated before they are committed, to veto those that introduce errors.
+     *
+     * @param modelURI the model to be edited
+     * @returns whether edits of the model are subject to veto
+     */
+    async isVetoEnabled(modelURI: URI): Promise<boolean> {
+        const patterns = this.options.veto.filter(pattern => createModelURIFilter(pattern.modelURI)(modelURI));
+        if (patterns.length === 0) {
+            return false;
+        }
+        if (patterns.some(pattern => !pattern.modelType)) {
+            return true;
+        }
+
+        const model = await this.modelServerClient.get(modelURI).then(asModelServerObject);
+        return !!model && patterns.some(pattern => createModelTypeFilter(pattern.modelType)(model));
+    }
+
+    /**
+     * Create a call-back that vetoes an edit of a model if validation of the edited model finds errors.
+     *
+     * @param modelURI the model being edited
+     * @returns a function that validates the model, rejecting with a {@link ValidationVetoError} if the diagnostic has
+     *    `ERROR` severity or worse
+     */
+    vetoErrors(modelURI: URI): (result: ModelUpdateResult) => Promise<void> {
+        return async () => {
+            this.logger.debug(`Validating edit of ${modelURI} before commit.`);
+            const diagnostic = await this.validate(modelURI);
+            if (diagnostic.severity >= ERROR) {
+                const error = new ValidationVetoError(modelURI.toString(), diagnostic);
+                this.logger.warn(error.message);
+                throw error;
+            }
+        };
+    }
+
     /**
      * Perform live validation of a model. The result is not a validation result but
      * success (or not) of the validation operation, itself.
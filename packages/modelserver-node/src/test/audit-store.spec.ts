@@ -0,0 +1,75 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import { AuditRecord } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { expect } from 'chai';
+import * as fs from 'fs';
+import { Container } from 'inversify';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { v4 as uuid } from 'uuid';
+
+import { AuditOptions, JSONLinesAuditStore } from '../services/audit-store';
+import { removePath } from './test-helpers';
+
+describe('JSONLinesAuditStore', () => {
+    let file: string;
+    let store: JSONLinesAuditStore;
+
+    const record = (modelURI: string, timestamp: string): AuditRecord => ({ modelURI, timestamp, operation: 'edit' });
+
+    beforeEach(() => {
+        file = join(tmpdir(), `modelserver-audit-${uuid()}.jsonl`);
+
+        const container = new Container();
+        container.bind(AuditOptions).toConstantValue({ file });
+        container.bind(JSONLinesAuditStore).toSelf();
+        store = container.get(JSONLinesAuditStore);
+    });
+
+    afterEach(() => removePath(file));
+
+    it('is empty before anything is recorded', async () => {
+        expect(await store.query({})).to.be.empty;
+    });
+
+    it('appends one record per line', async () => {
+        const first = record('a.coffee', '2022-03-01T10:00:00.000Z');
+        const second = record('b.coffee', '2022-03-01T11:00:00.000Z');
+        store.record(first);
+        await store.record(second);
+
+        const lines = fs.readFileSync(file, 'utf-8').split('\n');
+        expect(lines.map(line => line && JSON.parse(line))).to.eql([first, second, '']);
+        expect(await store.query({})).to.eql([first, second]);
+    });
+
+    it('filters by model URI and time', async () => {
+        const records = [
+            record('a.coffee', '2022-03-01T10:00:00.000Z'),
+            record('b.coffee', '2022-03-01T11:00:00.000Z'),
+            record('a.coffee', '2022-03-01T12:00:00.000Z')
+        ];
+        await Promise.all(records.map(r => store.record(r)));
+
+        expect(await store.query({ modelURI: 'a.coffee' })).to.eql([records[0], records[2]]);
+        expect(await store.query({ since: new Date('2022-03-01T11:00:00.000Z') })).to.eql([records[1], records[2]]);
+        expect(await store.query({ until: new Date('2022-03-01T11:00:00.000Z') })).to.eql([records[0], records[1]]);
+        expect(await store.query({ modelURI: 'a.coffee', since: new Date('2022-03-01T10:30:00.000Z') })).to.eql([records[2]]);
+    });
+
+    it('skips corrupt lines', async () => {
+        const good = record('a.coffee', '2022-03-01T10:00:00.000Z');
+        fs.writeFileSync(file, '{"modelURI": "a.co\n');
+        await store.record(good);
+
+        expect(await store.query({})).to.eql([good]);
+    });
+});
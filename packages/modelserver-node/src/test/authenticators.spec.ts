@@ -0,0 +1,98 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import { expect } from 'chai';
+import { createHmac, generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { Request } from 'express';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { v4 as uuid } from 'uuid';
+
+import { AuthenticationError, JwtAuthenticator, TokenAuthenticator, verifyJwt } from '../services/authenticators';
+import { removePath } from './test-helpers';
+
+const base64URL = (buffer: Buffer): string => buffer.toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+const encode = (object: object): string => base64URL(Buffer.from(JSON.stringify(object), 'utf-8'));
+
+const hs256 = (claims: object, secret: string): string => {
+    const signed = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+    return `${signed}.${base64URL(createHmac('sha256', secret).update(signed).digest())}`;
+};
+
+const es256 = (claims: object, key: KeyObject): string => {
+    const signed = `${encode({ alg: 'ES256', typ: 'JWT' })}.${encode(claims)}`;
+    return `${signed}.${base64URL(sign('sha256', Buffer.from(signed), { key, dsaEncoding: 'ieee-p1363' }))}`;
+};
+
+const request = (authorization?: string): Request => ({ header: () => authorization } as unknown as Request);
+
+describe('Authenticators', () => {
+    const secret = Buffer.from('not-so-secret');
+    const now = Math.floor(Date.now() / 1000);
+
+    it('verifies signatures and validity of JSON Web Tokens', () => {
+        const claims = { sub: 'alice', exp: now + 60 };
+        expect(verifyJwt(hs256(claims, 'not-so-secret'), secret)).to.eql(claims);
+
+        expect(() => verifyJwt(hs256(claims, 'guessed'), secret)).to.throw(AuthenticationError, 'Invalid token signature.');
+        expect(() => verifyJwt(hs256({ sub: 'alice', exp: now - 60 }, 'not-so-secret'), secret)).to.throw(
+            AuthenticationError,
+            'Token expired.'
+        );
+        expect(() => verifyJwt(hs256({ sub: 'alice', nbf: now + 60 }, 'not-so-secret'), secret)).to.throw(
+            AuthenticationError,
+            'not yet valid'
+        );
+        expect(() => verifyJwt(hs256({ sub: 'alice', iss: 'other' }, 'not-so-secret'), secret, { issuer: 'me' })).to.throw(
+            AuthenticationError,
+            'issuer'
+        );
+        expect(
+            verifyJwt(hs256({ sub: 'alice', aud: ['x', 'modelserver'] }, 'not-so-secret'), secret, { audience: 'modelserver' })
+        ).to.have.property('sub', 'alice');
+        expect(() => verifyJwt('not.a-token', secret)).to.throw(AuthenticationError, 'Malformed token.');
+    });
+
+    it('verifies JSON Web Tokens signed with a private key and rejects substitution of algorithms', () => {
+        const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+        expect(verifyJwt(es256({ sub: 'bob' }, privateKey), publicKey)).to.eql({ sub: 'bob' });
+
+        // An attacker could sign a token with the well-known public key as an HMAC secret
+        const pem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+        expect(() => verifyJwt(hs256({ sub: 'mallory' }, pem), publicKey)).to.throw(AuthenticationError, 'Unsupported token algorithm');
+    });
+
+    it('authenticates bearer tokens as principals', async () => {
+        const tokens = new TokenAuthenticator({ 'api-token': 'ci-bot', 'admin-token': { id: 'root', roles: ['admin'] } });
+        expect(tokens.authenticate(request('Bearer api-token'))).to.eql({ id: 'ci-bot', scheme: 'token' });
+        expect(tokens.authenticate(request('bearer admin-token'))).to.eql({ id: 'root', roles: ['admin'], scheme: 'token' });
+        expect(tokens.authenticate(request('Bearer other-token'))).to.be.undefined;
+        expect(tokens.authenticate(request())).to.be.undefined;
+
+        const keyFile = join(tmpdir(), `modelserver-jwt-${uuid()}.key`);
+        fs.writeFileSync(keyFile, 'not-so-secret\n');
+        const jwt = new JwtAuthenticator({ keyFile });
+        removePath(keyFile);
+        expect(jwt.authenticate(request('Bearer api-token'))).to.be.undefined;
+        expect(
+            jwt.authenticate(request(`Bearer ${hs256({ sub: 'alice', name: 'Alice', roles: ['editor'] }, 'not-so-secret')}`))
+        ).to.deep.include({
+            id: 'alice',
+            name: 'Alice',
+            roles: ['editor'],
+            scheme: 'jwt'
+        });
+        expect(() => jwt.authenticate(request(`Bearer ${hs256({ name: 'Nobody' }, 'not-so-secret')}`))).to.throw(
+            AuthenticationError,
+            'does not identify'
+        );
+    });
+});
@@ -0,0 +1,91 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import { Logger, Principal } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { expect } from 'chai';
+import { Request, Response } from 'express';
+import { Container } from 'inversify';
+import * as sinon from 'sinon';
+
+import { RequestContext } from '../request-context';
+import { AccessDeniedError, accessOf, AuthorizationManager, AuthorizationOptions } from '../services/authorization-manager';
+
+describe('AuthorizationManager', () => {
+    const alice: Principal = { id: 'alice', roles: ['designer'], scheme: 'token' };
+    const bob: Principal = { id: 'bob', scheme: 'token' };
+    let manager: AuthorizationManager;
+    let logger: { warn: sinon.SinonSpy };
+
+    beforeEach(() => {
+        const container = new Container();
+        logger = { warn: sinon.spy() };
+        container.bind(Logger).toConstantValue(logger as unknown as Logger);
+        container.bind(AuthorizationOptions).toConstantValue({
+            rules: [
+                { access: ['read'] },
+                { modelURI: 'designs/', roles: ['designer'], access: ['edit', 'save'] },
+                { modelURI: /^shared\/.*\.coffee$/, users: ['bob'], access: ['edit', 'delete'] }
+            ]
+        });
+        container.bind(AuthorizationManager).toSelf();
+        manager = container.get(AuthorizationManager);
+    });
+
+    it('grants access by model pattern, role, and user', () => {
+        expect(manager.isAllowed(undefined, 'read', 'designs/a.coffee')).to.be.true;
+        expect(manager.isAllowed(undefined, 'read')).to.be.true;
+        expect(manager.isAllowed(alice, 'edit', 'file:designs/a.coffee')).to.be.true;
+        expect(manager.isAllowed(alice, 'delete', 'designs/a.coffee')).to.be.false;
+        expect(manager.isAllowed(alice, 'edit', 'shared/a.coffee')).to.be.false;
+        expect(manager.isAllowed(bob, 'delete', 'shared/a.coffee')).to.be.true;
+        expect(manager.isAllowed(bob, 'delete', 'shared/a.coffee.bak')).to.be.false;
+        expect(manager.isAllowed(bob, 'edit', 'designs/a.coffee')).to.be.false;
+        expect(manager.isAllowed(undefined, 'edit', 'designs/a.coffee')).to.be.false;
+    });
+
+    it('denies access to all models unless granted for all models', () => {
+        expect(() => manager.checkAccess('edit')).to.throw(AccessDeniedError, 'Not authorized to edit all models.');
+        expect(() => manager.checkAccess('edit', 'designs/a.coffee')).to.throw(AccessDeniedError);
+        sinon.assert.calledTwice(logger.warn);
+
+        // Within a request, access is checked for its caller
+        const req = { header: (): string | undefined => undefined } as unknown as Request;
+        const res = { setHeader: sinon.spy() } as unknown as Response;
+        RequestContext.middleware()(req, res, () => {
+            RequestContext.get()!.principal = alice;
+            expect(() => manager.checkAccess('edit', 'designs/a.coffee')).not.to.throw();
+        });
+
+        // Or for a given caller, outside of any request
+        expect(() => manager.checkAccess('edit', 'designs/a.coffee', alice)).not.to.throw();
+    });
+
+    it('permits administration only by admin role', () => {
+        expect(manager.isAdmin(alice)).to.be.false;
+
+        const container = new Container();
+        container.bind(Logger).toConstantValue(logger as unknown as Logger);
+        container.bind(AuthorizationOptions).toConstantValue({ rules: [], adminRoles: ['designer'] });
+        container.bind(AuthorizationManager).toSelf();
+        const admin = container.get(AuthorizationManager);
+
+        expect(admin.isAdmin(alice)).to.be.true;
+        expect(() => admin.checkAdmin(bob)).to.throw(AccessDeniedError, 'Not authorized to administer the server.');
+        expect(() => admin.checkAdmin()).to.throw(AccessDeniedError);
+    });
+
+    it('infers the access entailed by forwarded requests', () => {
+        expect(accessOf('GET', '/api/v2/modelelement')).to.be.equal('read');
+        expect(accessOf('POST', '/api/v2/transaction')).to.be.equal('edit');
+        expect(accessOf('DELETE', '/api/v2/models')).to.be.equal('delete');
+        expect(accessOf('GET', '/api/v2/save/')).to.be.equal('save');
+        expect(accessOf('GET', '/api/v2/undo')).to.be.equal('edit');
+    });
+});
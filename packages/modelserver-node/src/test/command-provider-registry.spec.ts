@@ -15,6 +15,7 @@ import { Container } from 'inversify';
 import * as URI from 'urijs';
 
 import { CommandProviderRegistry } from '../command-provider-registry';
+import { DEFAULT_PROVIDER_GUARD_OPTIONS, ProviderGuard, ProviderGuardOptions } from '../provider-guard';
 
 describe('CommandProviderRegistry', () => {
     let registry: CommandProviderRegistry;
@@ -30,6 +31,8 @@ describe('CommandProviderRegistry', () => {
 
         const container = new Container();
         container.bind(Logger).toConstantValue(logger);
+        container.bind(ProviderGuard).toSelf().inSingletonScope();
+        container.bind(ProviderGuardOptions).toConstantValue(DEFAULT_PROVIDER_GUARD_OPTIONS);
         container.bind(CommandProviderRegistry).toSelf();
         registry = container.get(CommandProviderRegistry);
     });
@@ -0,0 +1,130 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import { ConfigurationChangeEvent, Logger } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { expect } from 'chai';
+import * as fs from 'fs';
+import { Container } from 'inversify';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { v4 as uuid } from 'uuid';
+
+import { ConfigurationError, ConfigurationManager, ConfigurationOptions } from '../services/configuration-manager';
+import { removePath } from './test-helpers';
+
+describe('ConfigurationManager', () => {
+    let file: string;
+    let manager: ConfigurationManager;
+
+    const schema = {
+        type: 'object',
+        properties: {
+            threshold: { type: 'number', minimum: 0, default: 10 },
+            strict: { type: 'boolean', default: false }
+        }
+    };
+
+    const writeConfig = (config: unknown): void => fs.writeFileSync(file, JSON.stringify(config), 'utf-8');
+    const createManager = (): ConfigurationManager => {
+        const logger: Logger = {
+            // eslint-disable-next-line @typescript-eslint/no-empty-function
+            debug: () => {},
+            // eslint-disable-next-line @typescript-eslint/no-empty-function
+            info: () => {},
+            // eslint-disable-next-line @typescript-eslint/no-empty-function
+            warn: () => {},
+            // eslint-disable-next-line @typescript-eslint/no-empty-function
+            error: () => {}
+        } as any;
+
+        const container = new Container();
+        container.bind(Logger).toConstantValue(logger);
+        container.bind(ConfigurationOptions).toConstantValue({ file, pollInterval: 20 });
+        container.bind(ConfigurationManager).toSelf();
+        return container.get(ConfigurationManager);
+    };
+    const nextChange = (pluginId: string): Promise<ConfigurationChangeEvent<any>> =>
+        new Promise(resolve => {
+            const listener = (event: ConfigurationChangeEvent<any>): void => {
+                manager.unregister(id, listener);
+                resolve(event);
+            };
+            const id = manager.register(pluginId, listener);
+        });
+    // Ensure that the file modification time changes
+    const tick = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 50));
+
+    beforeEach(() => {
+        file = join(tmpdir(), `modelserver-config-${uuid()}.json`);
+    });
+
+    afterEach(() => {
+        manager?.dispose();
+        removePath(file);
+    });
+
+    it('is empty without a configuration file', () => {
+        manager = createManager();
+
+        expect(manager.getConfiguration('validator')).to.eql({});
+    });
+
+    it('completes the configuration with schema defaults', () => {
+        writeConfig({ validator: { threshold: 3 }, other: { threshold: -1 } });
+        manager = createManager();
+
+        expect(manager.getConfiguration('validator', schema)).to.eql({ threshold: 3, strict: false });
+        expect(manager.getConfiguration('unconfigured', schema)).to.eql({ threshold: 10, strict: false });
+        expect(manager.getConfiguration('other')).to.eql({ threshold: -1 });
+    });
+
+    it('rejects a configuration that does not conform to the schema', () => {
+        writeConfig({ validator: { threshold: -1 } });
+        manager = createManager();
+
+        expect(() => manager.getConfiguration('validator', schema)).to.throw(ConfigurationError, /validator\.threshold/);
+    });
+
+    it('notifies changes of the configuration file', async () => {
+        writeConfig({ validator: { threshold: 3 }, other: { strict: true } });
+        manager = createManager();
+        manager.getConfiguration('validator', schema);
+        let otherChanged = false;
+        manager.register('other', () => {
+            otherChanged = true;
+        });
+
+        await tick();
+        const change = nextChange('validator');
+        writeConfig({ validator: { strict: true }, other: { strict: true } });
+
+        expect(await change).to.eql({ pluginId: 'validator', configuration: { threshold: 10, strict: true } });
+        expect(manager.getConfiguration('validator')).to.eql({ threshold: 10, strict: true });
+        expect(otherChanged).to.be.false;
+    });
+
+    it('retains the previous configuration when the change is not valid', async () => {
+        writeConfig({ validator: { threshold: 3 }, other: { strict: true } });
+        manager = createManager();
+        manager.getConfiguration('validator', schema);
+        let validatorChanged = false;
+        manager.register('validator', () => {
+            validatorChanged = true;
+        });
+
+        await tick();
+        const change = nextChange('other');
+        writeConfig({ validator: { threshold: 'high' }, other: { strict: false } });
+
+        expect(await change).to.eql({ pluginId: 'other', configuration: { strict: false } });
+        expect(validatorChanged).to.be.false;
+        expect(manager.getConfiguration('validator')).to.eql({ threshold: 3, strict: false });
+    });
+});
@@ -0,0 +1,67 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import { expect } from 'chai';
+
+import { EditQueue, EditQueueTimeoutError } from '../client/edit-queue';
+
+describe('EditQueue', () => {
+    let queue: EditQueue;
+
+    beforeEach(() => {
+        queue = new EditQueue();
+    });
+
+    it('serializes turns on the same key', async () => {
+        const order: string[] = [];
+
+        const release1 = await queue.acquire('a', 0);
+        const turn2 = queue.acquire('a', 0).then(release => {
+            order.push('second');
+            return release;
+        });
+        await Promise.resolve();
+        order.push('first');
+        release1();
+
+        const release2 = await turn2;
+        expect(order).to.eql(['first', 'second']);
+        expect(queue.isLocked('a')).to.be.true;
+
+        release2();
+        await new Promise(resolve => setImmediate(resolve));
+        expect(queue.isLocked('a')).to.be.false;
+    });
+
+    it('does not serialize different keys', async () => {
+        const release1 = await queue.acquire('a', 0);
+        const release2 = await queue.acquire('b', 100);
+
+        release1();
+        release2();
+    });
+
+    it('times out', async () => {
+        const release1 = await queue.acquire('a', 0);
+
+        try {
+            await queue.acquire('a', 50);
+            expect.fail('Should have timed out.');
+        } catch (error) {
+            expect(error).to.be.instanceOf(EditQueueTimeoutError);
+        }
+
+        // The timed-out waiter passes its turn on to the next
+        const turn3 = queue.acquire('a', 500);
+        release1();
+        const release3 = await turn3;
+        release3();
+    });
+});
@@ -0,0 +1,52 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import { expect } from 'chai';
+import { Container } from 'inversify';
+
+import { LogLevel } from '../di';
+import { DEFAULT_LOGGING_OPTIONS, InvalidLogLevelError, LoggingManager, LoggingOptions } from '../services/logging-manager';
+
+describe('LoggingManager', () => {
+    let manager: LoggingManager;
+
+    beforeEach(() => {
+        const container = new Container();
+        container.bind(LogLevel).toConstantValue('info');
+        container.bind(LoggingOptions).toConstantValue({ ...DEFAULT_LOGGING_OPTIONS, levels: { EditService: 'debug' } });
+        container.bind(LoggingManager).toSelf();
+        manager = container.get(LoggingManager);
+    });
+
+    it('applies the root level to loggers that do not override it', () => {
+        expect(manager.getLevels()).to.eql({ root: 'info', loggers: { EditService: 'debug' } });
+        expect(manager.isEnabled('debug', 'EditService')).to.be.true;
+        expect(manager.isEnabled('debug', 'ModelServer')).to.be.false;
+        expect(manager.isEnabled('info', 'ModelServer')).to.be.true;
+        expect(manager.isEnabled('verbose', 'ModelServer')).to.be.false;
+    });
+
+    it('changes levels at run-time', () => {
+        manager.setLevel('warn');
+        manager.setLevel('error', 'ModelServer');
+        expect(manager.isEnabled('info', 'SubscriptionManager')).to.be.false;
+        expect(manager.isEnabled('warn', 'ModelServer')).to.be.false;
+
+        expect(manager.resetLevel('ModelServer')).to.be.true;
+        expect(manager.resetLevel('ModelServer')).to.be.false;
+        expect(manager.isEnabled('warn', 'ModelServer')).to.be.true;
+        expect(manager.getLevels()).to.eql({ root: 'warn', loggers: { EditService: 'debug' } });
+    });
+
+    it('rejects unsupported levels', () => {
+        expect(() => manager.setLevel('trace' as LogLevel, 'EditService')).to.throw(InvalidLogLevelError);
+        expect(manager.getLevel('EditService')).to.be.equal('debug');
+    });
+});
@@ -0,0 +1,78 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import { expect } from 'chai';
+
+import { MetricError, MetricsRegistry } from '../services/metrics';
+
+describe('MetricsRegistry', () => {
+    let registry: MetricsRegistry;
+
+    beforeEach(() => {
+        registry = new MetricsRegistry();
+    });
+
+    it('exposes counters and gauges in the text format', () => {
+        const counter = registry.counter({ name: 'test_requests_total', help: 'Requests\nserved.', labelNames: ['path'] });
+        counter.inc({ path: '/a' });
+        counter.inc({ path: '/a' }, 2);
+        counter.inc({ path: 'say "hi"' });
+        let load = 0.5;
+        registry.gauge({ name: 'test_load', help: 'Load.', collect: () => load });
+        load = 0.75;
+
+        expect(registry.expose()).to.be.equal(
+            [
+                '# HELP test_requests_total Requests\\nserved.',
+                '# TYPE test_requests_total counter',
+                'test_requests_total{path="/a"} 3',
+                'test_requests_total{path="say \\"hi\\""} 1',
+                '# HELP test_load Load.',
+                '# TYPE test_load gauge',
+                'test_load 0.75',
+                ''
+            ].join('\n')
+        );
+    });
+
+    it('exposes cumulative histogram buckets', () => {
+        const histogram = registry.histogram({ name: 'test_rounds', help: 'Rounds.', buckets: [1, 4] });
+        [0, 1, 3, 10].forEach(value => histogram.observe(value));
+
+        expect(registry.expose()).to.be.equal(
+            [
+                '# HELP test_rounds Rounds.',
+                '# TYPE test_rounds histogram',
+                'test_rounds_bucket{le="1"} 2',
+                'test_rounds_bucket{le="4"} 3',
+                'test_rounds_bucket{le="+Inf"} 4',
+                'test_rounds_sum 14',
+                'test_rounds_count 4',
+                ''
+            ].join('\n')
+        );
+    });
+
+    it('shares metrics of the same name and type', () => {
+        const first = registry.counter({ name: 'test_total', help: 'Test.' });
+
+        expect(registry.counter({ name: 'test_total', help: 'Test.' })).to.be.equal(first);
+        expect(() => registry.gauge({ name: 'test_total', help: 'Test.' })).to.throw(MetricError);
+    });
+
+    it('rejects invalid names and labels', () => {
+        expect(() => registry.counter({ name: 'test-total', help: 'Test.' })).to.throw(MetricError);
+        expect(() => registry.counter({ name: 'test_total', help: 'Test.', labelNames: ['__reserved'] })).to.throw(MetricError);
+
+        const counter = registry.counter({ name: 'test_total', help: 'Test.', labelNames: ['kind'] });
+        expect(() => counter.inc({ flavour: 'mocha' })).to.throw(MetricError);
+        expect(() => counter.inc({ kind: 'mocha' }, -1)).to.throw(MetricError);
+    });
+});
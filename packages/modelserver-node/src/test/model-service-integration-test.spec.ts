@@ -209,6 +209,70 @@ describe('DefaultModelService', () => {
         }
     });
 
+    it('preview(patch) includes triggers', async () => {
+        const unregister = registerTrigger(triggerReg);
+
+        const patch: Operation = { op: 'replace', path: '/workflows/0/name', value: 'New Name' };
+        const trigger: Operation = { op: 'replace', path: '/workflows/0/name', value: 'New Name 1' };
+
+        try {
+            const result = await modelService.preview(patch);
+            expect(result.success).to.be.true;
+            expect(result.patch).to.be.like([patch, trigger]);
+
+            const model = await modelService.getModel(isCoffeeMachine);
+            expect(model).to.be.like({ workflows: [{ name: 'Simple Workflow' }] });
+        } finally {
+            unregister();
+        }
+    });
+
+    it('preview(command) leaves nothing to undo', async () => {
+        const setup: Operation = { op: 'replace', path: '/workflows/0/name', value: 'New Name' };
+        const editResult = await modelService.edit(setup);
+        assumeThat(editResult.success, 'Edit failed.');
+
+        const model = await client.get(modeluri);
+        const workflow = requireArray(model, 'workflows')[0] as ModelServerObjectV2;
+        const preheatTask = requireArray(workflow, 'nodes')[0] as ModelServerObjectV2;
+
+        const command = new CompoundCommand();
+        command.type = 'test-set-name';
+        command.setProperty('newName', 'Heat Up First');
+        command.owner = {
+            eClass: preheatTask.$type,
+            $ref: `${modeluri}#${preheatTask.$id}`
+        };
+
+        const unregister = registerCommand(commandReg);
+
+        try {
+            const result = await modelService.preview(command);
+            expect(result.success).to.be.true;
+            expect(result.patch).to.be.like([{ op: 'replace', path: '/workflows/0/nodes/0/name', value: 'Heat Up First' }]);
+        } finally {
+            unregister();
+            // Undoes the edit, not the preview
+            await client.undo(modeluri);
+        }
+
+        const restored = await modelService.getModel(isCoffeeMachine);
+        expect(restored).to.be.like({ workflows: [{ name: 'Simple Workflow', nodes: [{ name: 'PreHeat' }] }] });
+    });
+
+    it('preview() rejected in a transaction', async () => {
+        const transaction = await modelService.openTransaction();
+
+        try {
+            await modelService.preview({ op: 'replace', path: '/workflows/0/name', value: 'New Name' });
+            expect.fail('Preview should have been rejected.');
+        } catch (error) {
+            expect(error.message).to.have.string('Cannot preview');
+        } finally {
+            await transaction.rollback('Test completed.');
+        }
+    });
+
     it('undo()', async () => {
         const patch: Operation = { op: 'replace', path: '/workflows/0/name', value: 'New Name' };
 
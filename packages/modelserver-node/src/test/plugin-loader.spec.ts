@@ -0,0 +1,115 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import { expect } from 'chai';
+import * as fs from 'fs';
+import { ContainerModule } from 'inversify';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { v4 as uuid } from 'uuid';
+
+import { discoverPlugins, loadPlugins, readPluginConfiguration } from '../plugin-loader';
+import { removePath } from './test-helpers';
+
+describe('Plug-in loader', () => {
+    let baseDir: string;
+    let nodeModules: string;
+
+    /** Create a package with the given `package.json` content and a module that exports a container module. */
+    const createPackage = (location: string, pkg: Record<string, string>, module = 'index.js'): string => {
+        fs.mkdirSync(join(location, module, '..'), { recursive: true });
+        fs.writeFileSync(join(location, 'package.json'), JSON.stringify(pkg));
+        const inversify = JSON.stringify(require.resolve('inversify'));
+        fs.writeFileSync(
+            join(location, module),
+            `const { ContainerModule } = require(${inversify});\nexports.default = new ContainerModule(() => undefined);\n`
+        );
+        return fs.realpathSync(location);
+    };
+
+    beforeEach(() => {
+        baseDir = join(tmpdir(), `modelserver-plugins-${uuid()}`);
+        nodeModules = join(baseDir, 'node_modules');
+        fs.mkdirSync(nodeModules, { recursive: true });
+    });
+
+    afterEach(() => removePath(baseDir));
+
+    it('discovers packages declaring a plug-in entry', () => {
+        const scoped = createPackage(
+            join(nodeModules, '@test', 'plugin'),
+            { name: '@test/plugin', 'modelserver-plugin': 'lib/module.js' },
+            'lib/module.js'
+        );
+        const plain = createPackage(join(nodeModules, 'plain'), { name: 'plain' });
+
+        expect(discoverPlugins(baseDir)).to.eql([scoped]);
+
+        const result = loadPlugins({}, baseDir);
+        expect(result.failures).to.be.empty;
+        expect(result.plugins.map(p => p.name)).to.eql(['@test/plugin']);
+        expect(result.plugins[0].module).to.be.instanceOf(ContainerModule);
+        expect(result.plugins.map(p => p.location)).not.to.include(plain);
+    });
+
+    it('loads listed packages and directories', () => {
+        createPackage(join(nodeModules, 'listed'), { name: 'listed' });
+        const dir = createPackage(join(baseDir, 'local'), { name: 'local-plugin' });
+
+        const result = loadPlugins({ plugins: ['listed', './local'] }, baseDir);
+
+        expect(result.failures).to.be.empty;
+        expect(result.plugins.map(p => p.name)).to.eql(['listed', 'local-plugin']);
+        expect(result.plugins[1].location).to.equal(dir);
+    });
+
+    it('loads a package only once', () => {
+        createPackage(join(nodeModules, 'both'), { name: 'both', 'modelserver-plugin': 'index.js' });
+
+        const result = loadPlugins({ plugins: ['both'] }, baseDir);
+
+        expect(result.plugins.map(p => p.name)).to.eql(['both']);
+    });
+
+    it('skips disabled packages', () => {
+        createPackage(join(nodeModules, 'enabled'), { name: 'enabled', 'modelserver-plugin': 'index.js' });
+        createPackage(join(nodeModules, 'disabled'), { name: 'disabled', 'modelserver-plugin': 'index.js' });
+
+        const result = loadPlugins({ disabled: ['disabled'] }, baseDir);
+
+        expect(result.plugins.map(p => p.name)).to.eql(['enabled']);
+    });
+
+    it('does not discover when discovery is disabled', () => {
+        createPackage(join(nodeModules, 'discoverable'), { name: 'discoverable', 'modelserver-plugin': 'index.js' });
+
+        expect(loadPlugins({ discover: false }, baseDir).plugins).to.be.empty;
+    });
+
+    it('reports packages that fail to load', () => {
+        createPackage(join(nodeModules, 'broken'), { name: 'broken', 'modelserver-plugin': 'missing.js' });
+        fs.writeFileSync(join(baseDir, 'not-a-module.js'), 'exports.default = 42;\n');
+        createPackage(join(nodeModules, 'good'), { name: 'good', 'modelserver-plugin': 'index.js' });
+
+        const result = loadPlugins({ plugins: ['no-such-package', './not-a-module.js'] }, baseDir);
+
+        expect(result.plugins.map(p => p.name)).to.eql(['good']);
+        expect(result.failures.map(f => f.name)).to.eql(['no-such-package', './not-a-module.js', 'broken']);
+        expect(String(result.failures[1].error)).to.have.string('does not export a default ContainerModule');
+    });
+
+    it('resolves paths relative to the configuration file', () => {
+        const file = join(baseDir, 'config', 'plugins.json');
+        fs.mkdirSync(join(baseDir, 'config'));
+        fs.writeFileSync(file, JSON.stringify({ plugins: ['../local', 'some-package'], discover: false }));
+
+        expect(readPluginConfiguration(file)).to.eql({ plugins: [join(baseDir, 'local'), 'some-package'], discover: false });
+    });
+});
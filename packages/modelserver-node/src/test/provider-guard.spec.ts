@@ -0,0 +1,138 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { Diagnostic, ERROR, ModelServerCommand, ModelServerObjectV2, OK, WARNING } from '@eclipse-emfcloud/modelserver-client';
+import { Logger, ValidationProvider } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { expect } from 'chai';
+import { Operation } from 'fast-json-patch';
+import { Container } from 'inversify';
+import * as sinon from 'sinon';
+import * as URI from 'urijs';
+
+import { CommandProviderRegistry } from '../command-provider-registry';
+import { MetricsRegistry } from '../services/metrics';
+import { ProviderError, ProviderGuard, ProviderGuardOptions, ProviderTimeoutError } from '../provider-guard';
+import { TriggerProviderRegistry } from '../trigger-provider-registry';
+import { ValidationProviderRegistry } from '../validation-provider-registry';
+
+describe('ProviderGuard', () => {
+    let container: Container;
+    let guard: ProviderGuard;
+    let logger: sinon.SinonStubbedInstance<Logger>;
+
+    const modelURI = new URI('test:a.coffee');
+    const model: ModelServerObjectV2 = { $type: 'Machine', $id: '//@machine' };
+
+    beforeEach(() => {
+        logger = {
+            debug: sinon.stub(),
+            info: sinon.stub(),
+            warn: sinon.stub(),
+            error: sinon.stub()
+        } as any;
+
+        container = new Container();
+        container.bind(Logger).toConstantValue(logger);
+        container.bind(ProviderGuard).toSelf().inSingletonScope();
+        container.bind(ProviderGuardOptions).toConstantValue({ timeout: 50, failureThreshold: 2 });
+        container.bind(CommandProviderRegistry).toSelf();
+        container.bind(TriggerProviderRegistry).toSelf();
+        container.bind(ValidationProviderRegistry).toSelf();
+        container.bind(MetricsRegistry).toSelf().inSingletonScope();
+        guard = container.get(ProviderGuard);
+    });
+
+    it('times out a hung provider', async () => {
+        const provider = {};
+        const hung = new Promise<never>(() => undefined);
+
+        const result = await guard.invoke(provider, 'Hung provider', () => hung).catch(error => error);
+
+        expect(result).to.be.instanceOf(ProviderTimeoutError);
+        expect(result.message).to.include('Hung provider');
+    });
+
+    it('disables a provider that keeps failing', async () => {
+        const provider = {};
+        guard.attribute(provider, 'test-plugin');
+        const fail = (): Promise<never> => guard.invoke(provider, 'Failing provider', () => Promise.reject(new Error('Boom!')));
+
+        const result = await fail().catch(error => error);
+        expect(result).to.be.instanceOf(ProviderError);
+        expect(result.message).to.be.equal('Failing provider of plug-in test-plugin failed: Boom!');
+        expect(guard.isDisabled(provider)).to.be.false;
+
+        await fail().catch(() => undefined);
+        expect(guard.isDisabled(provider)).to.be.true;
+        expect(guard.test(provider, 'Failing provider', () => true)).to.be.false;
+        expect(logger.error.calledOnce).to.be.true;
+        expect(logger.error.firstCall.args[0]).to.include('is disabled');
+
+        guard.forget(provider);
+        expect(guard.isDisabled(provider)).to.be.false;
+    });
+
+    it('reports a failing validator as an error diagnostic', async () => {
+        const registry = container.get(ValidationProviderRegistry);
+        const failing: ValidationProvider = {
+            canValidate: () => true,
+            validate: () => {
+                throw new Error('Validator is broken.');
+            }
+        };
+        const working: ValidationProvider = {
+            canValidate: () => true,
+            validate: async () => ({ ...Diagnostic.ok(), severity: WARNING, message: 'Suspicious.', source: 'working' })
+        };
+        guard.attribute(failing, 'broken-plugin');
+        registry.register(failing);
+        registry.register(working);
+
+        const diagnostic = await registry.validate(model, modelURI);
+
+        expect(diagnostic.severity).to.be.equal(ERROR);
+        const failure = diagnostic.children.find(child => child.severity === ERROR);
+        expect(failure).to.be.like({ source: 'broken-plugin', id: '//@machine' });
+        expect(failure?.message).to.include('Validator is broken.');
+        expect(diagnostic.children.find(child => child.severity === WARNING)).to.be.like({ source: 'working' });
+        expect(diagnostic.children.every(child => child.severity > OK)).to.be.true;
+    });
+
+    it('rejects the triggers of a hung trigger provider', async () => {
+        const registry = container.get(TriggerProviderRegistry);
+        const patch: Operation[] = [{ op: 'replace', path: '/name', value: 'Test' }];
+        registry.register({
+            canTrigger: () => true,
+            getTriggers: () => new Promise<Operation[]>(() => undefined)
+        });
+
+        const result = await registry.getTriggers(modelURI, patch).catch(error => error);
+
+        expect(result).to.be.instanceOf(ProviderTimeoutError);
+    });
+
+    it('skips a disabled command provider', async () => {
+        const registry = container.get(CommandProviderRegistry);
+        const command = new ModelServerCommand('test-command');
+        registry.register('test-command', {
+            canHandle: () => {
+                throw new Error('Cannot tell.');
+            },
+            getCommands: () => command
+        });
+
+        expect(registry.getProvider(command)).to.be.undefined;
+        expect(registry.getProvider(command)).to.be.undefined;
+        expect(await registry.getCommands(modelURI, command)).to.be.equal(command);
+        expect(logger.error.calledOnce).to.be.true;
+        expect(logger.error.firstCall.args[0]).to.include('is disabled');
+    });
+});
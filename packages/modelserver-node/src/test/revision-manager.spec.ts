@@ -0,0 +1,77 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import { Logger } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { expect } from 'chai';
+import { Container } from 'inversify';
+
+import { PreconditionFailedError, RevisionManager } from '../services/revision-manager';
+
+describe('RevisionManager', () => {
+    const modelURI = 'SuperBrewer3000.coffee';
+    let revisions: RevisionManager;
+
+    beforeEach(() => {
+        const logger: Logger = {
+            // eslint-disable-next-line @typescript-eslint/no-empty-function
+            debug: () => {}
+        } as any;
+
+        const container = new Container();
+        container.bind(Logger).toConstantValue(logger);
+        container.bind(RevisionManager).toSelf();
+        revisions = container.get(RevisionManager);
+    });
+
+    it('advances the revision on successful edits', () => {
+        expect(revisions.getRevision(modelURI)).to.be.equal(0);
+
+        const endEdit = revisions.startEdit(modelURI);
+        expect(revisions.getLatestRevision(modelURI)).to.be.equal(1);
+        endEdit(true);
+        endEdit(true);
+
+        expect(revisions.getRevision(modelURI)).to.be.equal(1);
+        expect(revisions.getLatestRevision(modelURI)).to.be.equal(1);
+
+        revisions.startEdit(modelURI)(false);
+        expect(revisions.getRevision(modelURI)).to.be.equal(1);
+    });
+
+    it('reports the revision produced by an edit', async () => {
+        const { result, revision } = await revisions.withRevision(modelURI, undefined, async () => {
+            revisions.startEdit(modelURI)(true);
+            return 'done';
+        });
+
+        expect(result).to.be.equal('done');
+        expect(revision).to.be.equal(1);
+    });
+
+    it('checks If-Match preconditions', async () => {
+        revisions.startEdit(modelURI)(true);
+
+        const check = (ifMatch: string): Promise<unknown> =>
+            revisions.withRevision(modelURI, ifMatch, async () => revisions.checkPrecondition(modelURI));
+
+        await check('"1"');
+        await check('W/"1"');
+        await check('"0", "1"');
+        await check('*');
+
+        try {
+            await check('"0"');
+            expect.fail('Precondition should have failed.');
+        } catch (error) {
+            expect(error).to.be.instanceOf(PreconditionFailedError);
+            expect(error.revision).to.be.equal(1);
+        }
+    });
+});
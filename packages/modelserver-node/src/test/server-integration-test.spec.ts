@@ -8,20 +8,66 @@
  *
  * SPDX-License-Identifier: EPL-2.0 OR MIT
  *******************************************************************************/
-import { TriggerProvider } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { Diagnostic, ERROR, ModelServerClientV2, ModelServerObjectV2, OK } from '@eclipse-emfcloud/modelserver-client';
+import {
+    AuditRecord,
+    AuditSink,
+    Authenticator,
+    Counter,
+    Logger,
+    MiddlewareProvider,
+    ModelChangeEvent,
+    ModelServerPlugin,
+    ModelServerPluginContext,
+    ModelServiceFactory,
+    Principal,
+    TriggerProvider,
+    ValidationProvider
+} from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { AxiosResponse } from 'axios';
 import * as chai from 'chai';
 import { expect } from 'chai';
 import * as chaiLike from 'chai-like';
+import { Request, RequestHandler, Response } from 'express';
 import { Operation } from 'fast-json-patch';
+import * as fs from 'fs';
+import { Container } from 'inversify';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as sinon from 'sinon';
 import { assert } from 'sinon';
+import { PassThrough } from 'stream';
 import * as URI from 'urijs';
+import { Logger as WinstonLogger, transports } from 'winston';
 import * as WebSocket from 'ws';
 
+import { CommandProviderRegistry } from '../command-provider-registry';
+import { EditQueueOptions, EditQueueTimeoutError } from '../client/edit-queue';
 import { InternalModelServerClientApi, TransactionContext } from '../client/model-server-client';
+import { JSONSocket } from '../client/web-socket-utils';
 import { createContainer } from '../di';
-import { TriggerProviderRegistry } from '../trigger-provider-registry';
-import { awaitClosed, captureMessage, MockMiddleware, provideEndpoint, provideMiddleware, route } from './test-helpers';
-import { isCoffeeMachine } from './test-model-helper';
+import { InternalModelServerPluginContext } from '../plugin-context';
+import { RequestContext } from '../request-context';
+import { ShutdownOptions } from '../server';
+import { AuthenticationOptions, DEFAULT_AUTHENTICATION_OPTIONS } from '../services/authentication-manager';
+import { AuthorizationOptions } from '../services/authorization-manager';
+import { DEFAULT_LOGGING_OPTIONS, LoggingOptions } from '../services/logging-manager';
+import { HealthMonitor } from '../services/health-monitor';
+import { SubscriptionManager, SubscriptionOptions } from '../services/subscription-manager';
+import { ValidationOptions } from '../services/validation-manager';
+import { TriggerLoopError, TriggerOptions, TriggerProviderRegistry } from '../trigger-provider-registry';
+import { ValidationProviderRegistry } from '../validation-provider-registry';
+import {
+    awaitClosed,
+    captureMessage,
+    MockMiddleware,
+    provideEndpoint,
+    provideMiddleware,
+    removePath,
+    requireArray,
+    route
+} from './test-helpers';
+import { CoffeeMachine, isCoffeeMachine } from './test-model-helper';
 import { ServerFixture } from './test-server-fixture';
 
 /**
@@ -76,6 +122,162 @@ describe('Server Integration Tests', () => {
         });
     });
 
+    describe('Shared upstream subscriptions', () => {
+        const modeluri = new URI('SuperBrewer3000.coffee');
+        let container: Container;
+        let edits = 0;
+        const sockets: WebSocket[] = [];
+
+        /** Subscribe to the model, returning a function that gets the first message of a given type received. */
+        const subscribe = (query = ''): ((type: string) => Promise<any>) => {
+            const socket = new WebSocket(`ws://localhost:8082/api/v2/subscribe?modeluri=${modeluri}&format=json-v2&timeout=1000${query}`);
+            sockets.push(socket);
+            const messages = new Map<string, Promise<any>>();
+            const received = new Map<string, (message: any) => void>();
+            const messageOf = (type: string): Promise<any> => {
+                if (!messages.has(type)) {
+                    messages.set(type, new Promise(resolve => received.set(type, resolve)));
+                }
+                return messages.get(type)!;
+            };
+            socket.on('message', data => {
+                const message = JSON.parse(data.toString());
+                messageOf(message.type);
+                received.get(message.type)?.(message);
+            });
+            return messageOf;
+        };
+        const upstreamSubscriptionCount = (): number => container.get(SubscriptionManager)['upstreamSubscriptions'].size;
+
+        // Don't interfere with the data expected by other tests. This must run before the server is stopped
+        afterEach(async () => {
+            sockets.splice(0).forEach(socket => socket.close());
+            for (; edits > 0; edits--) {
+                await server.client.undo(modeluri);
+            }
+        });
+
+        const server: ServerFixture = new ServerFixture(c => (container = c));
+        server.requireUpstreamServer();
+
+        it('Subscribers to a model share an upstream subscription', async () => {
+            const first = subscribe();
+            await first('success');
+            const second = subscribe();
+            // The late subscriber is welcomed as though it had its own upstream subscription
+            expect(await second('success')).to.be.like({ type: 'success' });
+            expect(upstreamSubscriptionCount()).to.be.equal(1);
+
+            const updates = Promise.all([first('incrementalUpdate'), second('incrementalUpdate')]);
+            await server.patch(`/models?modeluri=${modeluri}`, {
+                data: { type: 'modelserver.patch', data: [{ op: 'replace', path: '/workflows/0/name', value: 'Shared' }] }
+            });
+            edits++;
+
+            const [update1, update2] = await updates;
+            expect(update1).to.be.like({ type: 'incrementalUpdate', revision: 1 });
+            expect(update2).to.eql(update1);
+        });
+
+        it('Subscribers with different options do not share', async () => {
+            await Promise.all([subscribe()('success'), subscribe('&paths=workflows')('success')]);
+            expect(upstreamSubscriptionCount()).to.be.equal(2);
+        });
+
+        it('Upstream subscription closed with the last subscriber', async () => {
+            await Promise.all([subscribe()('success'), subscribe()('success')]);
+            expect(upstreamSubscriptionCount()).to.be.equal(1);
+
+            const closed = sockets.map(socket => new Promise(resolve => socket.once('close', resolve)));
+            sockets[0].close();
+            await closed[0];
+            await new Promise(resolve => setTimeout(resolve, 50));
+            expect(upstreamSubscriptionCount()).to.be.equal(1);
+
+            sockets[1].close();
+            await closed[1];
+            await new Promise(resolve => setTimeout(resolve, 50));
+            expect(upstreamSubscriptionCount()).to.be.equal(0);
+        });
+    });
+
+    describe('Upstream subscription recovery', () => {
+        const modeluri = new URI('SuperBrewer3000.coffee');
+        let container: Container;
+        let manager: SubscriptionManager;
+        let socket: WebSocket;
+        let messages: any[];
+
+        const sharedSubscription = (): any => Array.from(manager['upstreamSubscriptions'].values())[0];
+        const dropUpstream = (): void => sharedSubscription().upstream['ws'].terminate();
+
+        // This must run before the server is stopped
+        afterEach(() => {
+            sinon.restore();
+            socket?.close();
+        });
+
+        const server: ServerFixture = new ServerFixture(c => {
+            container = c;
+            container.rebind(SubscriptionOptions).toConstantValue({ reconnectDelay: 20, maxReconnectDelay: 100, giveUpAfter: 500 });
+        });
+        server.requireUpstreamServer();
+
+        // This must run after the server is started
+        beforeEach(async () => {
+            manager = container.get(SubscriptionManager);
+            messages = [];
+            socket = new WebSocket(`ws://localhost:8082/api/v2/subscribe?modeluri=${modeluri}&format=json-v2`);
+            await new Promise<void>(resolve =>
+                socket.on('message', data => {
+                    const message = JSON.parse(data.toString());
+                    messages.push(message);
+                    if (message.type === 'success') {
+                        resolve();
+                    }
+                })
+            );
+        });
+
+        it('Subscription reconnected with resync', async () => {
+            const dropped = sharedSubscription().upstream;
+            const reconnected = new Promise(resolve => manager.addReconnectedListener(resolve));
+            const resync = new Promise<any>(resolve =>
+                socket.on('message', data => {
+                    const message = JSON.parse(data.toString());
+                    if (message.type === 'fullUpdate') {
+                        resolve(message);
+                    }
+                })
+            );
+
+            dropUpstream();
+
+            expect(await reconnected).to.be.equal(manager['subscriptions'].keys().next().value);
+            expect(await resync)
+                .to.have.nested.property('data.$type')
+                .that.matches(/Machine$/);
+            expect(socket.readyState).to.be.equal(WebSocket.OPEN);
+            expect(messages.filter(msg => msg.type === 'success')).to.have.length(1);
+            expect(sharedSubscription().upstream).not.to.be.equal(dropped);
+            expect(sharedSubscription().upstream.isOpen).to.be.true;
+        });
+
+        it('Subscribers closed on giving up reconnection', async () => {
+            const unreachable = (): JSONSocket => new JSONSocket(new WebSocket('ws://localhost:1/api/v2/subscribe'));
+            const reconnect = sinon.stub(manager as any, 'createUpstreamSocket').callsFake(unreachable);
+            const closed = new Promise(resolve => socket.on('close', resolve));
+
+            const start = Date.now();
+            dropUpstream();
+
+            expect(await closed).to.be.equal(1001);
+            expect(Date.now() - start).to.be.at.least(500);
+            expect(reconnect.callCount).to.be.greaterThan(1);
+            expect(manager['upstreamSubscriptions'].size).to.be.equal(0);
+        });
+    });
+
     describe('Subscription with validation', () => {
         const server: ServerFixture = new ServerFixture();
         server.requireUpstreamServer();
@@ -107,6 +309,558 @@ describe('Server Integration Tests', () => {
         });
     });
 
+    describe('Model revisions', () => {
+        const modeluri = new URI('SuperBrewer3000.coffee');
+        const path = `/models?modeluri=${modeluri}`;
+        let edits = 0;
+        const edit = async (value: string, ifMatch?: string): Promise<AxiosResponse> => {
+            const response = await server.patch(
+                path,
+                { data: { type: 'modelserver.patch', data: [{ op: 'replace', path: '/workflows/0/name', value }] } },
+                { headers: ifMatch ? { 'If-Match': ifMatch } : {}, validateStatus: () => true }
+            );
+            if (response.status === 200) {
+                edits++;
+            }
+            return response;
+        };
+
+        // Don't interfere with the data expected by other tests. This must run before the server is stopped
+        afterEach(async () => {
+            for (; edits > 0; edits--) {
+                await server.client.undo(modeluri);
+            }
+        });
+
+        const server: ServerFixture = new ServerFixture();
+        server.requireUpstreamServer();
+
+        it('ETag on GET', async () => {
+            const initial = await server.get(path);
+            expect(initial.headers.etag).to.be.equal('"0"');
+
+            await edit('New Name');
+
+            const edited = await server.get(path);
+            expect(edited.headers.etag).to.be.equal('"1"');
+        });
+
+        it('ETag on edit with matching If-Match', async () => {
+            const response = await edit('New Name', '"0"');
+            expect(response.status).to.be.equal(200);
+            expect(response.headers.etag).to.be.equal('"1"');
+
+            const second = await edit('Next New Name', 'W/"1"');
+            expect(second.status).to.be.equal(200);
+            expect(second.headers.etag).to.be.equal('"2"');
+        });
+
+        it('Edit with mismatched If-Match', async () => {
+            await edit('New Name');
+
+            const response = await edit('Next New Name', '"0"');
+            expect(response.status).to.be.equal(412);
+            expect(response.headers.etag).to.be.equal('"1"');
+            expect(response.data).to.be.like({ type: 'error', revision: 1 });
+
+            const model = await server.client.get(modeluri, isCoffeeMachine);
+            expect(model).to.be.like({ workflows: [{ name: 'New Name' }] });
+        });
+
+        it('Dry run changes nothing', async () => {
+            const response = await server.patch(`${path}&dryrun=true`, {
+                data: { type: 'modelserver.patch', data: [{ op: 'replace', path: '/workflows/0/name', value: 'New Name' }] }
+            });
+            expect(response.status).to.be.equal(200);
+            expect(response.headers.etag).to.be.equal('"0"');
+            expect(response.data.data).to.be.like({ success: true, patch: [{ op: 'replace', value: 'New Name' }] });
+
+            const model = await server.client.get(modeluri, isCoffeeMachine);
+            expect(model).to.be.like({ workflows: [{ name: 'Simple Workflow' }] });
+        });
+
+        it('Revision in incremental update', async () => {
+            const socket = new WebSocket(`ws://localhost:8082/api/v2/subscribe?modeluri=${modeluri}&format=json-v2&timeout=1000`);
+            const nextMessage = (type: string): Promise<any> =>
+                new Promise(resolve => {
+                    const listener = (data: WebSocket.RawData): void => {
+                        const message = JSON.parse(data.toString());
+                        if (message.type === type) {
+                            socket.off('message', listener);
+                            resolve(message);
+                        }
+                    };
+                    socket.on('message', listener);
+                });
+
+            try {
+                // Let the subscription get established upstream
+                await nextMessage('success');
+
+                const update = nextMessage('incrementalUpdate');
+                await edit('New Name');
+
+                expect(await update).to.be.like({ type: 'incrementalUpdate', revision: 1 });
+            } finally {
+                socket.close();
+            }
+        });
+    });
+
+    describe('Audit log', () => {
+        const modeluri = new URI('SuperBrewer3000.coffee');
+        let container: Container;
+        let edits = 0;
+        const edit = async (value: string): Promise<AxiosResponse> => {
+            const response = await server.patch(`/models?modeluri=${modeluri}`, {
+                data: { type: 'modelserver.patch', data: [{ op: 'replace', path: '/workflows/0/name', value }] }
+            });
+            edits++;
+            return response;
+        };
+        const query = async (params: string): Promise<AuditRecord[]> => {
+            const response = await server.get(`/audit?${params}`);
+            return response.data.data;
+        };
+
+        // Don't interfere with the data expected by other tests. This must run before the server is stopped
+        afterEach(async () => {
+            for (; edits > 0; edits--) {
+                await server.client.undo(modeluri);
+            }
+        });
+
+        const server: ServerFixture = new ServerFixture(c => {
+            container = c;
+            // Simulate authentication of the caller
+            const authenticate: RequestHandler = (req, _res, next) => {
+                Object.assign(req, { user: { name: 'tester' } });
+                next();
+            };
+            const authentication: MiddlewareProvider = { getMiddlewares: (_router, aRoute) => (aRoute ? [] : [authenticate]) };
+            container.bind(MiddlewareProvider).toConstantValue(authentication);
+        });
+        server.requireUpstreamServer();
+
+        it('Edit recorded with caller and patch', async () => {
+            const sink: AuditSink = { record: sinon.spy() };
+            container.get<ModelServerPluginContext>(ModelServerPluginContext).registerAuditSink(sink);
+
+            await edit('Audited');
+
+            const records = await query(`modeluri=${modeluri}`);
+            expect(records).to.have.length(1);
+            expect(records[0]).to.be.like({
+                modelURI: modeluri.toString(),
+                operation: 'edit',
+                user: 'tester',
+                patch: [{ op: 'replace', path: '/workflows/0/name', value: 'Audited' }]
+            });
+            assert.calledOnceWithExactly(sink.record as sinon.SinonSpy, records[0]);
+        });
+
+        it('Undo recorded', async () => {
+            await edit('Audited');
+            await server.get(`/undo?modeluri=${modeluri}`);
+            edits--;
+
+            const records = await query(`modeluri=${modeluri}`);
+            expect(records.map(r => r.operation)).to.eql(['edit', 'undo']);
+        });
+
+        it('Create and delete recorded', async () => {
+            const newModel = new URI('AuditTest.coffee');
+            await server.client.create(newModel, {
+                $type: 'http://www.eclipsesource.com/modelserver/example/coffeemodel#//Machine',
+                name: 'Audit'
+            });
+            await server.delete(`/models?modeluri=${newModel}`);
+
+            const records = await query(`modeluri=${newModel}`);
+            expect(records.map(r => r.operation)).to.eql(['create', 'delete']);
+            expect(records[0].patch).to.be.like([{ op: 'add', path: '', value: { name: 'Audit' } }]);
+        });
+
+        it('Query by time range', async () => {
+            const before = Date.now() - 1;
+            await edit('Audited');
+
+            expect(await query(`since=${before}`)).to.have.length(1);
+            expect(await query(`until=${before}`)).to.be.empty;
+            expect(await query(`since=${new Date(Date.now() + 60000).toISOString()}`)).to.be.empty;
+        });
+
+        it('Query by model URI with protocol', async () => {
+            await edit('Audited');
+
+            const records = await query(`modeluri=file:${modeluri}`);
+            expect(records).to.have.length(1);
+            expect(records[0].modelURI).to.be.equal(modeluri.toString());
+        });
+
+        it('Query with invalid time', async () => {
+            const response = await server.get('/audit?since=yesterday', { validateStatus: () => true });
+            expect(response.status).to.be.equal(500);
+        });
+    });
+
+    describe('Model change listeners', () => {
+        const modeluri = new URI('SuperBrewer3000.coffee');
+        let container: Container;
+        let edits = 0;
+        let events: ModelChangeEvent[];
+
+        // Listeners are notified asynchronously
+        const settled = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 10));
+        const listen = (pattern: string | RegExp): void => {
+            container.get<ModelServerPluginContext>(ModelServerPluginContext).onModelChanged(pattern, event => {
+                events.push(event);
+            });
+        };
+
+        // Don't interfere with the data expected by other tests. This must run before the server is stopped
+        afterEach(async () => {
+            for (; edits > 0; edits--) {
+                await server.client.undo(modeluri);
+            }
+        });
+
+        const server: ServerFixture = new ServerFixture(c => (container = c));
+        server.requireUpstreamServer();
+
+        beforeEach(() => (events = []));
+
+        it('Edit notified with triggered changes after commit', async () => {
+            const trigger: TriggerProvider = {
+                canTrigger: (_uri, patch) => patch.some(op => op.path === '/workflows/0/name' && op.op === 'replace'),
+                getTriggers: async (_uri, patch) =>
+                    patch[0].op === 'replace' && patch[0].value === 'Changed' ? [{ op: 'replace', path: '/name', value: 'Triggered' }] : []
+            };
+            container.get(TriggerProviderRegistry).register(trigger);
+            listen('SuperBrewer3000');
+
+            await server.patch(`/models?modeluri=${modeluri}`, {
+                data: { type: 'modelserver.patch', data: [{ op: 'replace', path: '/workflows/0/name', value: 'Changed' }] }
+            });
+            edits++;
+            await settled();
+
+            expect(events).to.have.length(1);
+            expect(events[0].kind).to.be.equal('edit');
+            expect(events[0].modelURI.equals(modeluri)).to.be.true;
+            expect(events[0].result).to.be.like({
+                success: true,
+                patch: [
+                    { op: 'replace', path: '/workflows/0/name', value: 'Changed' },
+                    { op: 'replace', path: '/name', value: 'Triggered' }
+                ]
+            });
+        });
+
+        it('Undo and redo notified', async () => {
+            listen(/\.coffee$/);
+
+            await server.patch(`/models?modeluri=${modeluri}`, {
+                data: { type: 'modelserver.patch', data: [{ op: 'replace', path: '/workflows/0/name', value: 'Changed' }] }
+            });
+            edits++;
+            await server.get(`/undo?modeluri=${modeluri}`);
+            await server.get(`/redo?modeluri=${modeluri}`);
+            await settled();
+
+            expect(events.map(e => e.kind)).to.eql(['edit', 'undo', 'redo']);
+            expect(events[1].result).to.be.like({ success: true, patch: [{ op: 'replace', path: '/workflows/0/name' }] });
+        });
+
+        it('Model life-cycle notified', async () => {
+            const newModel = new URI('ChangeTest.coffee');
+            listen('ChangeTest');
+
+            await server.client.create(newModel, {
+                $type: 'http://www.eclipsesource.com/modelserver/example/coffeemodel#//Machine',
+                name: 'Changes'
+            });
+            await server.client.save(newModel);
+            await server.client.close(newModel);
+            await server.client.delete(newModel);
+            // Not a match for the listener
+            await server.patch(`/models?modeluri=${modeluri}`, {
+                data: { type: 'modelserver.patch', data: [{ op: 'replace', path: '/workflows/0/name', value: 'Changed' }] }
+            });
+            edits++;
+            await settled();
+
+            expect(events.map(e => e.kind)).to.eql(['create', 'save', 'close', 'delete']);
+            expect(events[0].result).to.be.like({ success: true, patch: [{ op: 'add', path: '', value: { name: 'Changes' } }] });
+            expect(events[1].result).to.be.undefined;
+            expect(events[3].result).to.be.like({ success: true, patch: [{ op: 'remove', path: '' }] });
+        });
+
+        it('Failing listener does not affect the edit', async () => {
+            listen('SuperBrewer3000');
+            container.get<ModelServerPluginContext>(ModelServerPluginContext).onModelChanged('', () => {
+                throw new Error('Listener failed.');
+            });
+
+            const response = await server.patch(`/models?modeluri=${modeluri}`, {
+                data: { type: 'modelserver.patch', data: [{ op: 'replace', path: '/workflows/0/name', value: 'Changed' }] }
+            });
+            edits++;
+            await settled();
+
+            expect(response.data).to.be.like({ type: 'success', data: { success: true } });
+            expect(events).to.have.length(1);
+        });
+    });
+
+    describe('Plug-in life-cycle', () => {
+        let container: Container;
+        let disposals: string[];
+
+        // Plug-ins are identified by their class name
+        class FirstTestPlugin implements ModelServerPlugin {
+            readonly dispose = sinon.spy(() => {
+                disposals.push('first');
+            });
+
+            initialize(context: ModelServerPluginContext): boolean {
+                context.registerTriggerProvider(
+                    { canTrigger: () => false, getTriggers: async () => [] },
+                    { modelURI: /\.coffee$/, priority: 5 }
+                );
+                context.registerValidationProvider({ canValidate: () => true, validate: () => Diagnostic.ok() }, { modelType: 'Machine' });
+                return true;
+            }
+        }
+
+        class SecondTestPlugin implements ModelServerPlugin {
+            initialized = 0;
+
+            initialize(context: ModelServerPluginContext): boolean {
+                this.initialized++;
+                context.registerCommandProvider('test-command', { canHandle: () => true, getCommands: () => async () => true });
+                return true;
+            }
+
+            async dispose(): Promise<void> {
+                disposals.push('second');
+            }
+        }
+
+        const firstPlugin = new FirstTestPlugin();
+        const secondPlugin = new SecondTestPlugin();
+
+        const server: ServerFixture = new ServerFixture(c => {
+            container = c;
+            c.bind(ModelServerPlugin).toConstantValue(firstPlugin);
+            c.bind(ModelServerPlugin).toConstantValue(secondPlugin);
+        });
+
+        beforeEach(() => {
+            disposals = [];
+            firstPlugin.dispose.resetHistory();
+        });
+
+        it("Unload unregisters the plug-in's providers", async () => {
+            expect(container.get(TriggerProviderRegistry).hasProviders()).to.be.true;
+
+            const response = await server.post('/server/plugins/FirstTestPlugin/unload');
+
+            expect(response.status).to.be.equal(200);
+            assert.calledOnce(firstPlugin.dispose);
+            expect(container.get(TriggerProviderRegistry).hasProviders()).to.be.false;
+            expect(container.get(ValidationProviderRegistry).hasProvider({ $id: '/', $type: 'Machine' }, new URI('SuperBrewer3000.coffee')))
+                .to.be.false;
+            // The other plug-in is unaffected
+            expect(container.get(CommandProviderRegistry).hasProvider('test-command')).to.be.true;
+        });
+
+        it("Reload re-registers the plug-in's providers", async () => {
+            const initialized = secondPlugin.initialized;
+
+            const response = await server.post('/server/plugins/SecondTestPlugin/reload');
+
+            expect(response.status).to.be.equal(200);
+            expect(disposals).to.eql(['second']);
+            expect(secondPlugin.initialized).to.be.equal(initialized + 1);
+            expect(container.get(CommandProviderRegistry).getProviders('test-command')).to.have.length(1);
+        });
+
+        it('Unload of unknown plug-in', async () => {
+            const response = await server.post('/server/plugins/NoSuchPlugin/unload', undefined, { validateStatus: () => true });
+
+            expect(response.status).to.be.equal(404);
+            expect(response.data).to.be.like({ type: 'error', data: 'No such plug-in: NoSuchPlugin' });
+        });
+
+        it('Extensions describe plug-ins and their providers', async () => {
+            const response = await server.get('/server/extensions');
+
+            expect(response.status).to.be.equal(200);
+            const extensions = response.data.data;
+            expect(extensions.plugins).to.be.like([
+                { id: 'FirstTestPlugin', status: 'loaded', registrations: [{ kind: 'trigger-provider' }, { kind: 'validation-provider' }] },
+                { id: 'SecondTestPlugin', status: 'loaded', registrations: [{ kind: 'command-provider', key: 'test-command' }] }
+            ]);
+            expect(extensions.commandProviders).to.eql([{ commandType: 'test-command', providers: 1 }]);
+            expect(extensions.triggerProviders).to.be.like([
+                { id: extensions.plugins[0].registrations[0].key, modelURI: '/\\.coffee$/', priority: 5 }
+            ]);
+            expect(extensions.validationProviders).to.be.like([{ id: extensions.plugins[0].registrations[1].key, modelType: 'Machine' }]);
+            expect(extensions.routes.find((r: { provider: string }) => r.provider === 'ExtensionsRoutes')).to.be.like({
+                route: '/api/v2/server/extensions',
+                endpoints: ['GET /api/v2/server/extensions/']
+            });
+        });
+
+        it('Extensions describe unloaded plug-in', async () => {
+            await server.post('/server/plugins/FirstTestPlugin/unload');
+
+            const response = await server.get('/server/extensions');
+
+            expect(response.data.data.plugins[0]).to.eql({ id: 'FirstTestPlugin', dependsOn: [], status: 'unloaded', registrations: [] });
+            expect(response.data.data.triggerProviders).to.be.empty;
+        });
+
+        it('Server stop disposes plug-ins in reverse order', async () => {
+            await server.stop();
+
+            expect(disposals).to.eql(['second', 'first']);
+        });
+    });
+
+    describe('Plug-in dependencies', () => {
+        let container: Container;
+        let initialized: string[];
+        let disposed: string[];
+
+        const plugin = (id: string, dependsOn?: string[], succeed = true): ModelServerPlugin => ({
+            id,
+            dependsOn,
+            initialize: async () => {
+                // Take some time, so that a plug-in that does not wait for its dependencies would overtake them
+                await new Promise(resolve => setTimeout(resolve, dependsOn ? 1 : 20));
+                initialized.push(id);
+                return succeed;
+            },
+            dispose: () => {
+                disposed.push(id);
+            }
+        });
+
+        const server: ServerFixture = new ServerFixture(c => {
+            container = c;
+            initialized = [];
+            disposed = [];
+            [
+                plugin('commands', ['base']),
+                plugin('triggers', ['commands']),
+                plugin('base'),
+                plugin('dependent', ['broken']),
+                plugin('broken', undefined, false),
+                plugin('missing', ['nonexistent']),
+                plugin('cycle1', ['cycle2']),
+                plugin('cycle2', ['cycle1'])
+            ].forEach(p => c.bind(ModelServerPlugin).toConstantValue(p));
+        });
+
+        it('Plug-ins initialized in dependency order before serving', () => {
+            // The server is already serving
+            expect(initialized).to.eql(['base', 'commands', 'triggers', 'broken']);
+        });
+
+        it('Unload also unloads dependents', async () => {
+            await container.get<InternalModelServerPluginContext>(InternalModelServerPluginContext).unloadPlugin('commands');
+
+            expect(disposed).to.eql(['triggers', 'commands']);
+        });
+
+        it('Reload also reloads dependents', async () => {
+            initialized = [];
+
+            const response = await server.post('/server/plugins/base/reload');
+
+            expect(response.status).to.be.equal(200);
+            expect(disposed).to.eql(['triggers', 'commands', 'base']);
+            expect(initialized).to.eql(['base', 'commands', 'triggers']);
+        });
+
+        it('Plug-in with failed dependency cannot be reloaded', async () => {
+            const response = await server.post('/server/plugins/dependent/reload', undefined, { validateStatus: () => true });
+
+            expect(response.status).to.be.equal(500);
+            expect(initialized).not.to.include('dependent');
+        });
+    });
+
+    describe('Validation veto', () => {
+        const modeluri = new URI('SuperBrewer3000.coffee');
+        const validationOptions: ValidationOptions = { veto: [] };
+        let edits = 0;
+        const rename = (value: string): Promise<AxiosResponse> =>
+            server.patch(
+                `/models?modeluri=${modeluri}`,
+                { data: { type: 'modelserver.patch', data: [{ op: 'replace', path: '/workflows/0/name', value }] } },
+                { validateStatus: () => true }
+            );
+        const getWorkflowName = async (): Promise<string> => {
+            const model = await server.client.get(modeluri);
+            return (requireArray(model, 'workflows')[0] as ModelServerObjectV2)['name'];
+        };
+
+        // Don't interfere with the data expected by other tests. This must run before the server is stopped
+        afterEach(async () => {
+            for (; edits > 0; edits--) {
+                await server.client.undo(modeluri);
+            }
+        });
+
+        const server: ServerFixture = new ServerFixture(container => {
+            container.rebind(ValidationOptions).toConstantValue(validationOptions);
+            const provider: ValidationProvider = {
+                canValidate: () => true,
+                validate: (model: any) => ({
+                    id: model.$id,
+                    code: 1,
+                    severity: model.workflows?.[0]?.name === 'Broken' ? ERROR : OK,
+                    source: 'Mocha Tests',
+                    message: 'Workflow is broken.',
+                    data: [],
+                    children: []
+                })
+            };
+            container.get<ValidationProviderRegistry>(ValidationProviderRegistry).register(provider);
+        });
+        server.requireUpstreamServer();
+
+        it('Edit introducing errors is rolled back', async () => {
+            validationOptions.veto = [{ modelURI: /SuperBrewer/ }];
+
+            const response = await rename('Broken');
+            expect(response.status).to.be.equal(409);
+            expect(response.data).to.be.like({ type: 'error', diagnostic: { severity: ERROR } });
+            expect(await getWorkflowName()).to.be.equal('Simple Workflow');
+        });
+
+        it('Edit without errors is committed', async () => {
+            validationOptions.veto = [{ modelType: CoffeeMachine.TYPE }];
+
+            const response = await rename('Fixed');
+            expect(response.status).to.be.equal(200);
+            edits++;
+            expect(await getWorkflowName()).to.be.equal('Fixed');
+        });
+
+        it('Edit of model not subject to veto', async () => {
+            validationOptions.veto = [{ modelURI: 'SuperBrewer', modelType: 'NotACoffeeMachine' }];
+
+            const response = await rename('Broken');
+            expect(response.status).to.be.equal(200);
+            edits++;
+            expect(await getWorkflowName()).to.be.equal('Broken');
+        });
+    });
+
     describe('Custom route provider', () => {
         let middleware: MockMiddleware;
 
@@ -130,6 +884,16 @@ describe('Server Integration Tests', () => {
                 .catch(done);
         });
 
+        it('Custom route and middleware described in extensions', async () => {
+            const response = await server.get('/server/extensions');
+
+            expect(response.data.data.routes.find((r: { provider: string }) => r.provider === 'anonymous')).to.be.like({
+                route: '/api/v2/echo',
+                endpoints: ['GET /api/v2/echo/']
+            });
+            expect(response.data.data.middlewares).to.eql([{ provider: 'anonymous', phase: 'before', route: '/api/v2/echo', count: 1 }]);
+        });
+
         it('Custom route with custom middleware', done => {
             server
                 .get('/echo?message=Hello,%20world')
@@ -141,6 +905,563 @@ describe('Server Integration Tests', () => {
         });
     });
 
+    describe('Health endpoints', () => {
+        const healthURL = (endpoint: string): string => `http://localhost:8082/health/${endpoint}`;
+        let container: Container;
+
+        const server: ServerFixture = new ServerFixture(c => (container = c));
+        server.requireUpstreamServer();
+
+        it('Liveness', async () => {
+            const response = await server.get(healthURL('live'));
+
+            expect(response.status).to.be.equal(200);
+            expect(response.data).to.be.like({ type: 'success', data: { live: true } });
+        });
+
+        it('Readiness with upstream reachable', async () => {
+            const response = await server.get(healthURL('ready'));
+
+            expect(response.status).to.be.equal(200);
+            expect(response.data.data).to.be.like({
+                ready: true,
+                upstream: { reachable: true },
+                plugins: { initialized: true },
+                subscriptions: { clients: 0, upstream: 0 },
+                transactions: 0
+            });
+        });
+
+        it('Readiness with upstream unreachable', async () => {
+            const monitor = container.get(HealthMonitor);
+            // Let the initial probe finish
+            await monitor.probe();
+
+            const client = container.get<InternalModelServerClientApi>(InternalModelServerClientApi);
+            sinon.stub(client, 'ping').rejects(new Error('Connection refused.'));
+            await monitor.probe();
+
+            const response = await server.get(healthURL('ready'), { validateStatus: () => true });
+
+            expect(response.status).to.be.equal(503);
+            expect(response.data).to.be.like({
+                type: 'error',
+                data: { ready: false, upstream: { reachable: false, reason: 'Connection refused.' } }
+            });
+        });
+    });
+
+    describe('Request correlation', () => {
+        const modeluri = new URI('SuperBrewer3000.coffee');
+        let container: Container;
+        let edits = 0;
+
+        // Don't interfere with the data expected by other tests. This must run before the server is stopped
+        afterEach(async () => {
+            for (; edits > 0; edits--) {
+                await server.client.undo(modeluri);
+            }
+        });
+
+        const server: ServerFixture = new ServerFixture(c => (container = c));
+        server.requireUpstreamServer();
+
+        it('Request ID echoed in the response', async () => {
+            const response = await server.get(`/models?modeluri=${modeluri}`, { headers: { 'X-Request-ID': 'get-model-1' } });
+
+            expect(response.headers['x-request-id']).to.be.equal('get-model-1');
+        });
+
+        it('Request ID generated if missing or invalid', async () => {
+            const missing = await server.get(`/models?modeluri=${modeluri}`);
+            const invalid = await server.get(`/models?modeluri=${modeluri}`, { headers: { 'X-Request-ID': 'not valid' } });
+
+            expect(missing.headers['x-request-id']).to.match(/^[0-9a-f-]{36}$/);
+            expect(invalid.headers['x-request-id']).to.match(/^[0-9a-f-]{36}$/);
+            expect(invalid.headers['x-request-id']).not.to.be.equal(missing.headers['x-request-id']);
+        });
+
+        it('Request ID carried through the edit pipeline into logs', async () => {
+            const logged: { message: string; requestId?: string }[] = [];
+            const stream = new PassThrough({ objectMode: true });
+            stream.on('data', info => logged.push(info));
+            const logger = container.getNamed<WinstonLogger>(Logger, 'Correlation');
+            logger.add(new transports.Stream({ stream }));
+
+            let triggeredIn: string | undefined;
+            container.get(TriggerProviderRegistry).register({
+                canTrigger: () => true,
+                getTriggers: async () => {
+                    triggeredIn = RequestContext.getRequestId();
+                    logger.error('Computing triggers.');
+                    return [];
+                }
+            });
+
+            await server.patch(
+                `/models?modeluri=${modeluri}`,
+                { data: { type: 'modelserver.patch', data: [{ op: 'replace', path: '/workflows/0/name', value: 'Correlated' }] } },
+                { headers: { 'X-Request-ID': 'edit-42' } }
+            );
+            edits++;
+
+            expect(triggeredIn).to.be.equal('edit-42');
+            expect(logged).to.be.like([{ message: 'Computing triggers.', requestId: 'edit-42' }]);
+        });
+    });
+
+    describe('Logging administration', () => {
+        let container: Container;
+        let logged: string[];
+
+        const server: ServerFixture = new ServerFixture(c => (container = c));
+
+        /** Capture what a logger logs, after level filtering. */
+        const capture = (name: string): WinstonLogger => {
+            const stream = new PassThrough({ objectMode: true });
+            stream.on('data', info => info.service === name && logged.push(info.message));
+            const logger = container.getNamed<WinstonLogger>(Logger, name);
+            logger.add(new transports.Stream({ stream }));
+            return logger;
+        };
+
+        beforeEach(() => (logged = []));
+
+        it('Log level of a logger changed at run-time', async () => {
+            const logger = capture('Chatty');
+            logger.debug('Not yet.');
+
+            const response = await server.put('/server/logging/Chatty', { data: { level: 'debug' } });
+            expect(response.data).to.be.like({ type: 'success', data: { root: 'error', loggers: { Chatty: 'debug' } } });
+            logger.debug('Now.');
+            container.getNamed<WinstonLogger>(Logger, 'Quiet').debug('Never.');
+
+            await server.delete('/server/logging/Chatty');
+            logger.debug('No longer.');
+
+            expect(logged).to.eql(['Now.']);
+        });
+
+        it('Root log level changed at run-time', async () => {
+            const logger = capture('Chatty');
+            await server.put('/server/logging', { data: { level: 'info' } });
+
+            logger.info('Informative.');
+            logger.debug('Too much.');
+
+            expect(logged).to.eql(['Informative.']);
+            const response = await server.get('/server/logging');
+            expect(response.data.data).to.eql({ root: 'info', loggers: {} });
+
+            // Don't clutter the test output
+            await server.put('/server/logging', { data: { level: 'error' } });
+        });
+
+        it('Invalid log level rejected', async () => {
+            const response = await server.put('/server/logging/Chatty', { data: { level: 'trace' } }, { validateStatus: () => true });
+
+            expect(response.status).to.be.equal(400);
+            expect(response.data).to.be.like({ type: 'error' });
+        });
+    });
+
+    describe('JSON log file', () => {
+        const file = join(tmpdir(), `modelserver-${Date.now()}.log`);
+        let container: Container;
+
+        after(() => removePath(file));
+
+        new ServerFixture(c => {
+            container = c;
+            c.rebind(LoggingOptions).toConstantValue({ ...DEFAULT_LOGGING_OPTIONS, format: 'json', file });
+        });
+
+        it('Log records written as JSON lines', async () => {
+            container.getNamed<Logger>(Logger, 'Structured').error('Something failed: %s', 'details');
+
+            // The file transport writes asynchronously
+            let lines: string[] = [];
+            for (let attempt = 0; attempt < 20 && !lines.some(line => line.includes('Something failed')); attempt++) {
+                await new Promise(resolve => setTimeout(resolve, 50));
+                lines = fs.existsSync(file) ? fs.readFileSync(file, 'utf-8').trim().split('\n') : [];
+            }
+
+            const record = lines.map(line => JSON.parse(line)).find(json => json.service === 'Structured');
+            expect(record).to.be.like({ level: 'error', message: 'Something failed: details', service: 'Structured' });
+            expect(record.timestamp).to.be.a('string');
+        });
+    });
+
+    describe('Metrics endpoint', () => {
+        const modeluri = new URI('SuperBrewer3000.coffee');
+        let counter: Counter;
+        let edits = 0;
+
+        // Don't interfere with the data expected by other tests. This must run before the server is stopped
+        afterEach(async () => {
+            for (; edits > 0; edits--) {
+                await server.client.undo(modeluri);
+            }
+        });
+
+        const server: ServerFixture = new ServerFixture(c =>
+            c.bind(ModelServerPlugin).toConstantValue({
+                id: 'metered',
+                initialize: (context: ModelServerPluginContext) => {
+                    counter = context.registerCounter({
+                        name: 'metered_coffee_total',
+                        help: 'Coffee brewed.',
+                        labelNames: ['kind']
+                    }).service;
+                    return true;
+                }
+            })
+        );
+        server.requireUpstreamServer();
+
+        it('Metrics of edits and requests', async () => {
+            await server.patch(`/models?modeluri=${modeluri}`, {
+                data: { type: 'modelserver.patch', data: [{ op: 'replace', path: '/workflows/0/name', value: 'Metered' }] }
+            });
+            edits++;
+
+            const response = await server.get('http://localhost:8082/metrics');
+
+            expect(response.status).to.be.equal(200);
+            expect(response.headers['content-type']).to.have.string('version=0.0.4');
+            const lines: string[] = response.data.split('\n');
+            expect(lines).to.include('# TYPE modelserver_edit_duration_seconds histogram');
+            expect(lines).to.include('modelserver_edit_duration_seconds_count{command_type="patch"} 1');
+            expect(lines).to.include('# TYPE modelserver_trigger_rounds histogram');
+            expect(lines).to.include('modelserver_open_transactions 0');
+            expect(lines).to.include(
+                'modelserver_http_requests_total{method="PATCH",route="/api/v2/models",forwarded="false",status="200"} 1'
+            );
+        });
+
+        it('Metrics of requests on unknown paths', async () => {
+            await server.get('/typeschema?modeluri=SuperBrewer3000.coffee');
+            await server.get('/no/such/endpoint', { validateStatus: () => true });
+
+            const response = await server.get('http://localhost:8082/metrics');
+
+            const lines: string[] = response.data.split('\n');
+            expect(lines).to.include(
+                'modelserver_http_requests_total{method="GET",route="/api/v2/typeschema",forwarded="true",status="200"} 1'
+            );
+            expect(lines.some(line => line.includes('/no/such/endpoint'))).to.be.false;
+            expect(lines.some(line => line.includes('route="forwarded"'))).to.be.true;
+        });
+
+        it('Metrics registered by plug-ins', async () => {
+            counter.inc({ kind: 'espresso' });
+            counter.inc({ kind: 'espresso' });
+
+            const response = await server.get('http://localhost:8082/metrics');
+
+            const lines: string[] = response.data.split('\n');
+            expect(lines).to.include('# HELP metered_coffee_total Coffee brewed.');
+            expect(lines).to.include('metered_coffee_total{kind="espresso"} 2');
+        });
+    });
+
+    describe('Authentication', () => {
+        const modeluri = new URI('SuperBrewer3000.coffee');
+        const auth = { headers: { Authorization: 'Bearer brewer-token' } };
+        let container: Container;
+        let edits = 0;
+
+        // Don't interfere with the data expected by other tests. This must run before the server is stopped
+        afterEach(async () => {
+            for (; edits > 0; edits--) {
+                await server.get(`/undo?modeluri=${modeluri}`, auth);
+            }
+        });
+
+        const server: ServerFixture = new ServerFixture(c => {
+            container = c;
+            container.rebind(AuthenticationOptions).toConstantValue({
+                ...DEFAULT_AUTHENTICATION_OPTIONS,
+                tokens: { 'brewer-token': { id: 'brewer', name: 'Head Brewer', roles: ['editor'] } }
+            });
+            const apiKeys: Authenticator = {
+                authenticate: req => (req.header('X-Api-Key') === 'plugin-key' ? { id: 'plugin-user', scheme: 'api-key' } : undefined)
+            };
+            container.bind(Authenticator).toConstantValue(apiKeys);
+        });
+        server.requireUpstreamServer();
+
+        it('Requests without valid credentials rejected', async () => {
+            const missing = await server.get(`/models?modeluri=${modeluri}`, { validateStatus: () => true });
+            const invalid = await server.get(`/models?modeluri=${modeluri}`, {
+                headers: { Authorization: 'Bearer guessed-token' },
+                validateStatus: () => true
+            });
+
+            expect(missing.status).to.be.equal(401);
+            expect(missing.headers['www-authenticate']).to.be.equal('Bearer');
+            expect(missing.data).to.be.like({ type: 'error', data: 'Authentication required.' });
+            expect(invalid.status).to.be.equal(401);
+        });
+
+        it('Health and metrics endpoints exempt', async () => {
+            const health = await server.get('http://localhost:8082/health/live');
+            const metrics = await server.get('http://localhost:8082/metrics');
+
+            expect(health.status).to.be.equal(200);
+            expect(metrics.status).to.be.equal(200);
+        });
+
+        it('Caller available to plug-ins and audited', async () => {
+            let fromExecutor: Principal | undefined;
+            let fromModelService: Principal | undefined;
+            let triggered = false;
+            container.get(TriggerProviderRegistry).register({
+                canTrigger: () => true,
+                getTriggers: async modelURI => {
+                    if (triggered) {
+                        return [];
+                    }
+                    triggered = true;
+                    fromModelService = container.get<ModelServiceFactory>(ModelServiceFactory)(modelURI).getPrincipal?.();
+                    return async executor => {
+                        fromExecutor = executor.getPrincipal?.();
+                        return true;
+                    };
+                }
+            });
+
+            const response = await server.patch(
+                `/models?modeluri=${modeluri}`,
+                { data: { type: 'modelserver.patch', data: [{ op: 'replace', path: '/workflows/0/name', value: 'Authenticated' }] } },
+                auth
+            );
+            edits++;
+
+            expect(response.status).to.be.equal(200);
+            expect(fromExecutor).to.be.like({ id: 'brewer', name: 'Head Brewer', roles: ['editor'], scheme: 'token' });
+            expect(fromModelService).to.be.like({ id: 'brewer' });
+            const records: AuditRecord[] = (await server.get(`/audit?modeluri=${modeluri}`, auth)).data.data;
+            expect(records).to.be.like([{ operation: 'edit', user: 'brewer' }]);
+        });
+
+        it('Caller of a retained model service after its transaction closes', async () => {
+            // Perform an operation as though in the handling of a request by some caller
+            const as = <T>(caller: Principal, operation: () => Promise<T>): Promise<T> =>
+                new Promise((resolve, reject) => {
+                    const req = { header: (): string | undefined => undefined } as unknown as Request;
+                    const res = { setHeader: sinon.spy() } as unknown as Response;
+                    RequestContext.middleware()(req, res, () => {
+                        RequestContext.get()!.principal = caller;
+                        operation().then(resolve, reject);
+                    });
+                });
+            const modelService = container.get<ModelServiceFactory>(ModelServiceFactory)(modeluri);
+
+            const transaction = await as({ id: 'brewer', scheme: 'token' }, () => modelService.openTransaction());
+            await transaction.rollback('Test completed.');
+            await awaitClosed(transaction);
+            const principal = await as({ id: 'barista', scheme: 'token' }, async () => modelService.getPrincipal?.());
+
+            expect(principal).to.be.like({ id: 'barista' });
+        });
+
+        it('Caller authenticated by plug-in', async () => {
+            const response = await server.get(`/models?modeluri=${modeluri}`, { headers: { 'X-Api-Key': 'plugin-key' } });
+
+            expect(response.status).to.be.equal(200);
+        });
+    });
+
+    describe('Authorization', () => {
+        const modeluri = new URI('SuperBrewer3000.coffee');
+        const as = (token: string): { headers: Record<string, string>; validateStatus: () => boolean } => ({
+            headers: { Authorization: `Bearer ${token}` },
+            validateStatus: () => true
+        });
+        const patch = { data: { type: 'modelserver.patch', data: [{ op: 'replace', path: '/workflows/0/name', value: 'Authorized' }] } };
+        let edits = 0;
+
+        // Don't interfere with the data expected by other tests. This must run before the server is stopped
+        afterEach(async () => {
+            for (; edits > 0; edits--) {
+                await server.get(`/undo?modeluri=${modeluri}`, as('editor'));
+            }
+        });
+
+        const server: ServerFixture = new ServerFixture(c => {
+            c.rebind(AuthenticationOptions).toConstantValue({
+                ...DEFAULT_AUTHENTICATION_OPTIONS,
+                tokens: {
+                    viewer: { id: 'viola', roles: ['viewer'] },
+                    editor: { id: 'eddie', roles: ['viewer', 'brewer'] },
+                    auditor: { id: 'audrey', roles: ['auditor'] },
+                    admin: { id: 'ada', roles: ['admin'] },
+                    guest: 'guest'
+                }
+            });
+            c.rebind(AuthorizationOptions).toConstantValue({
+                rules: [
+                    { roles: ['viewer'], access: ['read'] },
+                    { modelURI: 'SuperBrewer3000', roles: ['brewer'], access: ['edit', 'save'] },
+                    { modelURI: 'Coffee.ecore', roles: ['auditor'], access: ['read'] }
+                ],
+                adminRoles: ['admin']
+            });
+        });
+        server.requireUpstreamServer();
+
+        it('Access granted by role', async () => {
+            const read = await server.get(`/models?modeluri=${modeluri}`, as('viewer'));
+            const edit = await server.patch(`/models?modeluri=${modeluri}`, patch, as('editor'));
+            edits++;
+
+            expect(read.status).to.be.equal(200);
+            expect(edit.status).to.be.equal(200);
+        });
+
+        it('Intercepted requests denied', async () => {
+            const edit = await server.patch(`/models?modeluri=${modeluri}`, patch, as('viewer'));
+            const undo = await server.get(`/undo?modeluri=${modeluri}`, as('viewer'));
+            const remove = await server.delete(`/models?modeluri=${modeluri}`, as('editor'));
+            const validate = await server.get(`/validation?modeluri=${modeluri}`, as('guest'));
+
+            expect(edit.status).to.be.equal(403);
+            expect(edit.data).to.be.like({ type: 'error', data: `Not authorized to edit ${modeluri}.` });
+            expect(undo.status).to.be.equal(403);
+            expect(remove.status).to.be.equal(403);
+            expect(validate.status).to.be.equal(403);
+        });
+
+        it('Forwarded requests denied', async () => {
+            const typeSchema = await server.get(`/typeschema?modeluri=${modeluri}`, as('guest'));
+            const allModels = await server.get('/models', as('guest'));
+
+            expect(typeSchema.status).to.be.equal(403);
+            expect(typeSchema.data).to.be.like({ type: 'error', data: `Not authorized to read ${modeluri}.` });
+            expect(allModels.status).to.be.equal(403);
+        });
+
+        it('Forwarded requests without a model URI', async () => {
+            const ping = await server.get('/server/ping', as('viewer'));
+            const saveAll = await server.get('/saveall', as('editor'));
+            const configure = await server.put('/server/configure', { workspaceRoot: 'file:/tmp' }, as('editor'));
+
+            expect(ping.status).to.be.equal(200);
+            expect(saveAll.status).to.be.equal(403);
+            expect(saveAll.data).to.be.like({ type: 'error', data: 'Not authorized to save all models.' });
+            expect(configure.status).to.be.equal(403);
+            expect(configure.data).to.be.like({ type: 'error', data: 'Not authorized to edit all models.' });
+        });
+
+        it('Audit records filtered by read access', async () => {
+            await server.patch(`/models?modeluri=${modeluri}`, patch, as('editor'));
+            edits++;
+
+            const viewed: AuditRecord[] = (await server.get('/audit', as('viewer'))).data.data;
+            const audited: AuditRecord[] = (await server.get('/audit', as('auditor'))).data.data;
+            const denied = await server.get(`/audit?modeluri=${modeluri}`, as('auditor'));
+
+            expect(viewed.some(record => record.modelURI.includes('SuperBrewer3000'))).to.be.true;
+            expect(audited.every(record => record.modelURI.includes('Coffee.ecore'))).to.be.true;
+            expect(denied.status).to.be.equal(403);
+        });
+
+        it('Administration requires an admin role', async () => {
+            const logging = await server.get('/server/logging', as('editor'));
+            const extensions = await server.get('/server/extensions', as('viewer'));
+            const unload = await server.post('/server/plugins/no-such-plugin/unload', undefined, as('editor'));
+            const adminLogging = await server.get('/server/logging', as('admin'));
+            const adminUnload = await server.post('/server/plugins/no-such-plugin/unload', undefined, as('admin'));
+
+            expect(logging.status).to.be.equal(403);
+            expect(logging.data).to.be.like({ type: 'error', data: 'Not authorized to administer the server.' });
+            expect(extensions.status).to.be.equal(403);
+            expect(unload.status).to.be.equal(403);
+            expect(adminLogging.status).to.be.equal(200);
+            expect(adminUnload.status).to.be.equal(404);
+        });
+
+        // The status of the response refusing to upgrade to a websocket
+        const refusal = (path: string, options: WebSocket.ClientOptions = {}): Promise<number | undefined> =>
+            new Promise(resolve => {
+                const socket = new WebSocket(`ws://localhost:8082/api/v2${path}`, options);
+                socket.on('error', () => undefined);
+                socket.once('unexpected-response', (req, res) => {
+                    req.destroy();
+                    resolve(res.statusCode);
+                });
+                socket.once('open', () => {
+                    socket.close();
+                    resolve(undefined);
+                });
+            });
+
+        it('Websockets refused before the upgrade', async () => {
+            const subscription = await refusal(`/subscribe?modeluri=${modeluri}&format=json-v2`, as('guest'));
+            const transaction = await refusal(`/transaction/forbidden?modeluri=${modeluri}`, as('guest'));
+            const anonymous = await refusal(`/subscribe?modeluri=${modeluri}&format=json-v2`);
+
+            expect(subscription).to.be.equal(403);
+            expect(transaction).to.be.equal(403);
+            expect(anonymous).to.be.equal(401);
+        });
+    });
+
+    describe('Graceful shutdown', () => {
+        const modeluri = new URI('SuperBrewer3000.coffee');
+        let container: Container;
+
+        const server: ServerFixture = new ServerFixture(c => {
+            container = c;
+            c.rebind(ShutdownOptions).toConstantValue({ gracePeriod: 200 });
+            // A request that never finishes
+            provideEndpoint(
+                c,
+                '/api/v2/stalled',
+                route('get', () => undefined)
+            );
+        });
+        server.requireUpstreamServer();
+
+        it('Requests cut off after the grace period', async () => {
+            const stalled = server.get('/stalled').then(
+                () => 'responded',
+                error => error.code
+            );
+            await new Promise(resolve => setTimeout(resolve, 50));
+
+            await server.stop();
+
+            expect(await stalled).to.be.equal('ECONNRESET');
+        });
+
+        it('Subscribers closed on shutdown', async () => {
+            const socket = new WebSocket(`ws://localhost:8082/api/v2/subscribe?modeluri=${modeluri}&format=json-v2`);
+            await new Promise(resolve => socket.once('message', resolve));
+            const closed = new Promise(resolve => socket.once('close', (code, reason) => resolve([code, reason.toString()])));
+
+            await server.stop();
+
+            expect(await closed).to.eql([1001, 'Model Server shutting down.']);
+        });
+
+        it('Open transaction rolled back on shutdown', async () => {
+            const client = container.get<InternalModelServerClientApi>(InternalModelServerClientApi);
+            const transaction = await client.openTransaction(modeluri);
+            const result = await transaction.applyPatch({ op: 'replace', path: '/workflows/0/name', value: 'Abandoned' });
+            expect(result.success).to.be.true;
+
+            await server.stop();
+
+            expect(await awaitClosed(transaction)).to.be.true;
+            const upstream = new ModelServerClientV2();
+            upstream.initialize(new URI('http://localhost:8081/api/v2'), 'json-v2');
+            const model = await upstream.get(modeluri);
+            expect((requireArray(model, 'workflows')[0] as ModelServerObjectV2)['name']).to.be.equal('Simple Workflow');
+        });
+    });
+
     describe('TransactionContext', async () => {
         const modeluri = new URI('SuperBrewer3000.coffee');
 
@@ -153,6 +1474,8 @@ describe('Server Integration Tests', () => {
         before(async () => {
             // Create an internal client with transaction capability
             client = await createContainer(8081, 'error').then(container => {
+                // Don't wait long for a turn to edit the model
+                container.rebind(EditQueueOptions).toConstantValue({ timeout: 250 });
                 const result: InternalModelServerClientApi = container.get(InternalModelServerClientApi);
                 result.initialize();
                 return result;
@@ -183,10 +1506,39 @@ describe('Server Integration Tests', () => {
                 await duplicate.rollback('Should not have been opened.');
                 expect.fail('Should not have been able to open duplicate transaction.');
             } catch (error) {
-                // Success case
+                expect(error).to.be.instanceOf(EditQueueTimeoutError);
             }
         });
 
+        it('transaction not counted if it fails to open', async () => {
+            const post = sinon.stub((client as any).upstream, 'post').resolves({ data: { data: { uri: 'not a transaction URI' } } });
+
+            try {
+                await client.openTransaction(new URI('Coffee.ecore'));
+                expect.fail('Should not have been able to open the transaction.');
+            } catch (error) {
+                expect(client.getOpenTransactionCount()).to.be.equal(1);
+            } finally {
+                post.restore();
+            }
+        });
+
+        it('independent edit waits for transaction to close', async () => {
+            const patch1: Operation = { op: 'replace', path: '/workflows/0/name', value: 'New Name' };
+            const patch2: Operation = { op: 'replace', path: '/workflows/0/name', value: 'Next New Name' };
+
+            await transaction.applyPatch(patch1);
+            const edit = client.edit(modeluri, patch2);
+            transaction.rollback('Make way for the independent edit.');
+
+            const result = await edit;
+            expect(result.success).to.be.true;
+
+            // Not nested in the transaction, so not rolled back with it
+            const model = await client.get(modeluri.toString(), isCoffeeMachine);
+            expect(model).to.be.like({ workflows: [{ name: 'Next New Name' }] });
+        });
+
         it('Aggregation of model update results', async () => {
             const patch1: Operation = { op: 'replace', path: '/workflows/0/name', value: 'New Name' };
             const patch2: Operation = { op: 'replace', path: '/workflows/0/name', value: 'Next New Name' };
@@ -297,4 +1649,68 @@ describe('Server Integration Tests', () => {
             }
         });
     });
+
+    describe('TransactionContext Trigger Loops', async () => {
+        const server: ServerFixture = new ServerFixture();
+        server.requireUpstreamServer();
+
+        const modeluri = new URI('SuperBrewer3000.coffee');
+        const path = '/workflows/0/name';
+
+        const createClient = (maxDepth: number, ...providers: TriggerProvider[]): Promise<InternalModelServerClientApi> =>
+            createContainer(8081, 'error').then(container => {
+                container.rebind(TriggerOptions).toConstantValue({ maxDepth });
+                const registry: TriggerProviderRegistry = container.get(TriggerProviderRegistry);
+                providers.forEach(provider => registry.register(provider));
+
+                const result: InternalModelServerClientApi = container.get(InternalModelServerClientApi);
+                result.initialize();
+
+                return result;
+            });
+
+        const flipper = (from: string, to: string): TriggerProvider => ({
+            canTrigger: (_uri, patch) => patch.some(op => op.path === path && op.op === 'replace' && op.value === from),
+            getTriggers: async () => [{ op: 'replace', path, value: to }]
+        });
+
+        const assertRolledBack = async (
+            client: InternalModelServerClientApi,
+            expectedReason: string,
+            expectedProviders: number
+        ): Promise<void> => {
+            const transaction = await client.openTransaction(modeluri);
+            await transaction.applyPatch({ op: 'replace', path, value: 'Ping' });
+
+            try {
+                await transaction.commit();
+                expect.fail('Commit should have thrown.');
+            } catch (error) {
+                expect(error).to.be.instanceOf(TriggerLoopError);
+                expect(error.message).to.have.string(expectedReason);
+                expect(error.diagnostic).to.include({ severity: ERROR, message: error.message });
+                expect(error.diagnostic.data).to.eql([modeluri.toString(), ...error.providers]);
+                expect(error.providers).to.have.length(expectedProviders);
+            }
+
+            await awaitClosed(transaction);
+            const model = await client.get(modeluri.toString(), isCoffeeMachine);
+            expect(model).to.be.like({ workflows: [{ name: 'Simple Workflow' }] });
+        };
+
+        it('Cycle of triggers rolled back', async () => {
+            const client = await createClient(100, flipper('Ping', 'Pong'), flipper('Pong', 'Ping'));
+            await assertRolledBack(client, 'repeated a previous change', 2);
+        });
+
+        it('Run-away triggers rolled back', async () => {
+            let count = 0;
+            const counter: TriggerProvider = {
+                canTrigger: (_uri, patch) => patch.some(op => op.path === path),
+                getTriggers: async () => [{ op: 'replace', path, value: `Count ${++count}` }]
+            };
+            const client = await createClient(3, counter);
+            await assertRolledBack(client, 'exceeded the maximal depth of 3', 1);
+        });
+    });
 });
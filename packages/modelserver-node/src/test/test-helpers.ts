@@ -17,6 +17,7 @@ import {
     RouterFactory
 } from '@eclipse-emfcloud/modelserver-plugin-ext';
 import { expect } from 'chai';
+import * as fs from 'fs';
 import { IRoute, IRouter, NextFunction, Request, RequestHandler, Response } from 'express';
 import { Container } from 'inversify';
 import { Context } from 'mocha';
@@ -132,6 +133,24 @@ export function awaitClosed(transaction: EditTransaction): Promise<boolean> {
     });
 }
 
+/**
+ * Remove a file or directory tree that a test created, if it exists.
+ * This is a stand-in for `fs.rmSync`, which is not available in all supported versions of Node.
+ *
+ * @param path the file or directory to remove
+ */
+export function removePath(path: string): void {
+    try {
+        if (fs.statSync(path).isDirectory()) {
+            fs.rmdirSync(path, { recursive: true });
+        } else {
+            fs.unlinkSync(path);
+        }
+    } catch (error) {
+        // It doesn't exist
+    }
+}
+
 export function requireArray(owner: object, propertyName: string): unknown[] {
     expect(owner[propertyName]).to.be.an('array').that.is.not.empty;
     return owner[propertyName] as unknown[];
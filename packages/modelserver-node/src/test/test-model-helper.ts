@@ -21,3 +21,38 @@ export namespace CoffeeMachine {
 export function isCoffeeMachine(obj: unknown): obj is CoffeeMachine {
     return ModelServerObjectV2.is(obj) && obj.$type === CoffeeMachine.TYPE;
 }
+
+const COFFEE_NS = 'http://www.eclipsesource.com/modelserver/example/coffeemodel#//';
+
+/**
+ * The _Super Brewer 3000_ example model, in `json-v2` format, as served by the example
+ * Coffee Model server to the tests that require an upstream server.
+ */
+export const SUPER_BREWER_3000 = {
+    $type: CoffeeMachine.TYPE,
+    name: 'Super Brewer 3000',
+    children: [
+        {
+            $type: `${COFFEE_NS}BrewingUnit`
+        },
+        {
+            $type: `${COFFEE_NS}ControlUnit`,
+            processor: {
+                $type: `${COFFEE_NS}Processor`,
+                clockSpeed: 5,
+                numberOfCores: 10,
+                socketconnectorType: 'Z51',
+                thermalDesignPower: 100
+            },
+            dimension: { $type: `${COFFEE_NS}Dimension`, width: 100, height: 100, length: 100 },
+            ram: [{ $type: `${COFFEE_NS}RAM`, clockSpeed: 88, size: 32, type: 'SODIMM' }]
+        }
+    ],
+    workflows: [
+        {
+            $type: `${COFFEE_NS}Workflow`,
+            name: 'Simple Workflow',
+            nodes: [{ $type: `${COFFEE_NS}AutomaticTask`, name: 'PreHeat' }]
+        }
+    ]
+};
@@ -9,21 +9,35 @@
  * SPDX-License-Identifier: EPL-2.0 OR MIT
  *******************************************************************************/
 import { ModelServerClientV2 } from '@eclipse-emfcloud/modelserver-client';
+import { FakeUpstreamServer } from '@eclipse-emfcloud/modelserver-fake-upstream';
 import { AxiosRequestConfig, AxiosResponse } from 'axios';
 import { Container } from 'inversify';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import * as URI from 'urijs';
+import { v4 as uuid } from 'uuid';
 
 import { createContainer } from '../di';
 import { ModelServer } from '../server';
+import { AuditOptions } from '../services/audit-store';
+import { removePath } from './test-helpers';
+import { SUPER_BREWER_3000 } from './test-model-helper';
 
-/** A representation of the upstream _Model Server_, which may or may not be available to tests that need it. */
+/**
+ * A representation of the upstream _Model Server_, which may or may not be available to tests that need it.
+ * If the Java server is not running, then an in-process fake upstream server is started in its stead.
+ */
 class UpstreamServer {
     /** The upstream server's base URL, e.g. http://localhost:8081/api/v2 */
     protected readonly upstreamPort = '8081';
     protected readonly baseURL = new URI({ protocol: 'http', hostname: 'localhost', port: this.upstreamPort, path: 'api/v2' });
 
+    /** The fake upstream server, if we had to start one. */
+    protected fake?: FakeUpstreamServer;
+
     /**
-     * Test whether the upstream server is available. If not, then call the `ifNot` call-back.
+     * Test whether the upstream server is available, starting the fake upstream server if necessary.
+     * If neither is available, then call the `ifNot` call-back.
      * The result of the test is cached for future invocations.
      *
      * @param ifNot a call-back to invoke in the case that the upstream server is not available
@@ -34,11 +48,14 @@ class UpstreamServer {
 
         return upstream
             .ping()
+            .catch(() => this.startFake())
             .then(() => {
                 this.testAvailable = () => Promise.resolve();
             })
             .catch(() => {
-                console.log('*** Upstream Java server is not running. Please launch it on port 8081 before running tests.');
+                console.log(
+                    '*** Upstream server is not running and the fake could not be started. Please launch it on port 8081 before running tests.'
+                );
                 ifNot();
                 this.testAvailable = (_ifNot: () => void) => {
                     _ifNot();
@@ -46,8 +63,27 @@ class UpstreamServer {
                 };
             });
     }
+
+    protected async startFake(): Promise<void> {
+        const fake = new FakeUpstreamServer({ 'SuperBrewer3000.coffee': SUPER_BREWER_3000 });
+        await fake.start(Number(this.upstreamPort));
+        this.fake = fake;
+        console.log(`*** Upstream Java server is not running. Using the fake upstream server on port ${this.upstreamPort}.`);
+    }
+
+    /**
+     * Stop the fake upstream server, if it was started.
+     */
+    async stop(): Promise<void> {
+        const fake = this.fake;
+        this.fake = undefined;
+        return fake?.stop();
+    }
 }
 
+/** How long, in milliseconds, the fixture may take to start or to stop the server under test. */
+const FIXTURE_TIMEOUT = 10000;
+
 /** Test fixture wrapping an Inversify-configured _Model Server_ that is started up and stopped for each test case. */
 export class ServerFixture {
     static upstream = new UpstreamServer();
@@ -55,6 +91,8 @@ export class ServerFixture {
     readonly baseUrl: URI;
     readonly client: ModelServerClientV2;
     protected server: ModelServer;
+    /** The file in which the server under test stores its audit log, which is discarded after each test. */
+    auditFile: string;
 
     constructor(protected readonly containerConfig?: (container: Container) => void) {
         this.baseUrl = new URI({
@@ -66,8 +104,17 @@ export class ServerFixture {
         this.client = new ModelServerClientV2();
         this.client.initialize(this.baseUrl, 'json-v2');
 
-        beforeEach(this.setup.bind(this));
-        afterEach(this.tearDown.bind(this));
+        // Starting and stopping the server, with its plug-ins, may take longer than the default hook time-out
+        const setup = this.setup.bind(this);
+        const tearDown = this.tearDown.bind(this);
+        beforeEach(function (done) {
+            this.timeout(FIXTURE_TIMEOUT);
+            setup(done);
+        });
+        afterEach(function (done) {
+            this.timeout(FIXTURE_TIMEOUT);
+            tearDown(done);
+        });
     }
 
     /**
@@ -80,8 +127,10 @@ export class ServerFixture {
     }
 
     setup(done: Mocha.Done): void {
+        this.auditFile = join(tmpdir(), `modelserver-audit-${uuid()}.jsonl`);
         createContainer(8081, 'error')
             .then(container => {
+                container.rebind(AuditOptions).toConstantValue({ file: this.auditFile });
                 if (this.containerConfig) {
                     this.containerConfig(container);
                 }
@@ -89,10 +138,17 @@ export class ServerFixture {
                 this.server = container.get(ModelServer);
                 return this.server.serve(8082, 8081);
             })
-            .then(() => done());
+            .then(() => done())
+            .catch(error => {
+                // Don't leave a partially started server to hold the port against the next test
+                const server = this.server;
+                this.server = undefined;
+                (server ? server.stop() : Promise.resolve()).finally(() => done(error));
+            });
     }
 
     tearDown(done: Mocha.Done): void {
+        removePath(this.auditFile);
         if (!this.server) {
             // Nothing to stop
             done();
@@ -106,4 +162,32 @@ export class ServerFixture {
         const rest = this.client['restClient'];
         return rest.get(path, config);
     }
+
+    delete(path: string, config?: AxiosRequestConfig): Promise<AxiosResponse> {
+        const rest = this.client['restClient'];
+        return rest.delete(path, config);
+    }
+
+    patch(path: string, data?: unknown, config?: AxiosRequestConfig): Promise<AxiosResponse> {
+        const rest = this.client['restClient'];
+        return rest.patch(path, data, config);
+    }
+
+    post(path: string, data?: unknown, config?: AxiosRequestConfig): Promise<AxiosResponse> {
+        const rest = this.client['restClient'];
+        return rest.post(path, data, config);
+    }
+
+    put(path: string, data?: unknown, config?: AxiosRequestConfig): Promise<AxiosResponse> {
+        const rest = this.client['restClient'];
+        return rest.put(path, data, config);
+    }
+
+    /** Stop the server under test ahead of the end of the test. */
+    stop(): Promise<void> {
+        return this.server.stop();
+    }
 }
+
+// Don't leave the fake upstream server running when the tests are done
+after(() => ServerFixture.upstream.stop());
@@ -17,6 +17,7 @@ import { Container } from 'inversify';
 import * as sinon from 'sinon';
 import * as URI from 'urijs';
 
+import { DEFAULT_PROVIDER_GUARD_OPTIONS, ProviderGuard, ProviderGuardOptions } from '../provider-guard';
 import { TriggerProviderRegistry } from '../trigger-provider-registry';
 
 describe('TriggerProviderRegistry', () => {
@@ -32,6 +33,8 @@ describe('TriggerProviderRegistry', () => {
 
         const container = new Container();
         container.bind(Logger).toConstantValue(logger);
+        container.bind(ProviderGuard).toSelf().inSingletonScope();
+        container.bind(ProviderGuardOptions).toConstantValue(DEFAULT_PROVIDER_GUARD_OPTIONS);
         container.bind(TriggerProviderRegistry).toSelf();
         registry = container.get(TriggerProviderRegistry);
     });
@@ -99,6 +102,70 @@ describe('TriggerProviderRegistry', () => {
             assert(executor.applyPatch.calledWith(sinon.match.every(sinon.match({ path: '/foo/bar/things/2' }))));
         });
     });
+
+    describe('registration options', () => {
+        const patch: Operation[] = [
+            { op: 'replace', path: '/foo/bar/size', value: 42 },
+            { op: 'replace', path: '/foo/baz/name', value: 'Baz' }
+        ];
+
+        const recordingProvider = (log: string[], name: string): TriggerProvider => ({
+            canTrigger: () => true,
+            getTriggers: () => {
+                log.push(name);
+                return [];
+            }
+        });
+
+        it('filters by model URI', () => {
+            const provider = { canTrigger: () => true, getTriggers: (): Operation[] => [] };
+            const id = registry.register(provider, { modelURI: /\.coffee$/ });
+
+            expect(registry.getProvider(new URI('test:a.coffee'), patch)).to.be.equal(provider);
+            expect(registry.getProvider(new URI('test:a.ecore'), patch)).to.be.undefined;
+
+            registry.unregister(id, provider);
+        });
+
+        it('filters operations by path', async () => {
+            const provider = sinon.spy({
+                canTrigger: (_uri: URI, _patch: Operation[]) => true,
+                getTriggers: (_uri: URI, _delta: Operation[]): Operation[] => []
+            });
+            const id = registry.register(provider, { path: '/foo/bar' });
+
+            expect(registry.getProvider(new URI('test:a'), [{ op: 'replace', path: '/foo/barn', value: 1 }])).to.be.undefined;
+
+            const narrowed = registry.getProvider(new URI('test:a'), patch);
+            expect(narrowed).to.exist;
+            await narrowed!.getTriggers(new URI('test:a'), patch);
+            assert(provider.getTriggers.calledWith(sinon.match.any, [patch[0]]));
+
+            registry.unregister(id, provider);
+        });
+
+        it('invokes providers in order of priority', async () => {
+            const log: string[] = [];
+            const unregister = [
+                registerProviders(registry, recordingProvider(log, 'default')),
+                registerProviders(registry, recordingProvider(log, 'another default')),
+                registerProviders(registry, recordingProvider(log, 'also default'))
+            ];
+            const high = recordingProvider(log, 'high');
+            const highID = registry.register(high, { priority: 10 });
+            const low = recordingProvider(log, 'lowest');
+            const lowID = registry.register(low, { priority: -10 });
+
+            const trigger = await registry.getTriggers(new URI('test:a'), patch);
+            await (trigger as Transaction)({ applyPatch: async () => ({ success: true }) } as any);
+
+            expect(log).to.eql(['high', 'default', 'another default', 'also default', 'lowest']);
+
+            unregister.forEach(next => next());
+            registry.unregister(highID, high);
+            registry.unregister(lowID, low);
+        });
+    });
 });
 
 function registerProviders(registry: TriggerProviderRegistry, ...providers: TriggerProvider[]): () => void {
@@ -0,0 +1,102 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import axios from 'axios';
+import { expect } from 'chai';
+import { Request, Response } from 'express';
+import * as https from 'https';
+
+import {
+    propagateRequestId,
+    upstreamAxiosConfig,
+    upstreamConnectionConfig,
+    upstreamHttpURL,
+    upstreamWebSocketOptions,
+    upstreamWebSocketURL
+} from '../client/upstream-connection';
+import { RequestContext } from '../request-context';
+
+/** Run a function in the context of handling a request that has the given `X-Request-ID` header. */
+function inRequest<T>(requestId: string, fn: () => T): T {
+    const request = { header: () => requestId } as unknown as Request;
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    const response = { setHeader: () => {} } as unknown as Response;
+    let result: T;
+    RequestContext.middleware()(request, response, () => (result = fn()));
+    return result;
+}
+
+describe('Upstream connection', () => {
+    it('defaults from a port', () => {
+        const config = upstreamConnectionConfig(8081);
+        expect(config).to.deep.include({ hostname: 'localhost', serverPort: 8081, baseURL: 'api/v2', secure: false });
+        expect(upstreamHttpURL(config, config.baseURL).toString()).to.equal('http://localhost:8081/api/v2');
+        expect(upstreamWebSocketURL(config, '/api/v2/subscribe').toString()).to.equal('ws://localhost:8081/api/v2/subscribe');
+    });
+
+    it('secure remote host with base path', () => {
+        const config = upstreamConnectionConfig({
+            serverPort: 443,
+            hostname: 'models.example.com',
+            basePath: '/modelserver/',
+            secure: true
+        });
+        expect(upstreamHttpURL(config).toString()).to.equal('https://models.example.com:443/modelserver');
+        expect(upstreamHttpURL(config, config.baseURL).toString()).to.equal('https://models.example.com:443/modelserver/api/v2');
+        expect(upstreamWebSocketURL(config, '/api/v2/subscribe').toString()).to.equal(
+            'wss://models.example.com:443/modelserver/api/v2/subscribe'
+        );
+    });
+
+    it('headers and TLS options', () => {
+        const config = upstreamConnectionConfig({ serverPort: 8443, secure: true, ca: 'PEM', headers: { Authorization: 'Bearer xyz' } });
+
+        const axiosConfig = upstreamAxiosConfig(config, upstreamHttpURL(config));
+        expect(axiosConfig.baseURL).to.equal('https://localhost:8443/');
+        expect(axiosConfig.headers).to.deep.equal({ Authorization: 'Bearer xyz' });
+        expect(axiosConfig.httpsAgent).to.be.instanceOf(https.Agent);
+
+        expect(upstreamWebSocketOptions(config)).to.deep.equal({ ca: 'PEM', headers: { Authorization: 'Bearer xyz' } });
+    });
+
+    it('no TLS options for insecure connection', () => {
+        const config = upstreamConnectionConfig({ serverPort: 8081, ca: 'PEM' });
+
+        expect(upstreamAxiosConfig(config, upstreamHttpURL(config)).httpsAgent).to.be.undefined;
+        expect(upstreamWebSocketOptions(config)).to.deep.equal({});
+    });
+
+    it('request ID propagated to websockets', () => {
+        const config = upstreamConnectionConfig({ serverPort: 8081, headers: { Authorization: 'Bearer xyz' } });
+
+        expect(inRequest('req-1', () => upstreamWebSocketOptions(config))).to.deep.equal({
+            headers: { Authorization: 'Bearer xyz', 'X-Request-ID': 'req-1' }
+        });
+        expect(upstreamWebSocketOptions(config)).to.deep.equal({ headers: { Authorization: 'Bearer xyz' } });
+    });
+
+    it('request ID propagated to HTTP requests', async () => {
+        const sent: Record<string, string>[] = [];
+        const client = propagateRequestId(
+            axios.create({
+                adapter: async config => {
+                    sent.push(config.headers as Record<string, string>);
+                    return { data: {}, status: 200, statusText: 'OK', headers: {}, config };
+                }
+            })
+        );
+
+        await inRequest('req-2', () => client.get('http://localhost:8081/api/v2/models'));
+        await client.get('http://localhost:8081/api/v2/models');
+
+        expect(sent[0]['X-Request-ID']).to.equal('req-2');
+        expect(sent[1]).not.to.have.property('X-Request-ID');
+    });
+});
@@ -9,12 +9,107 @@
  * SPDX-License-Identifier: EPL-2.0 OR MIT
  *******************************************************************************/
 
-import { Executor, Logger, Transaction, TriggerProvider } from '@eclipse-emfcloud/modelserver-plugin-ext';
+import { Diagnostic, ERROR } from '@eclipse-emfcloud/modelserver-client';
+import {
+    Executor,
+    Logger,
+    Transaction,
+    TriggerProvider,
+    TriggerProviderRegistrationOptions
+} from '@eclipse-emfcloud/modelserver-plugin-ext';
 import { Operation } from 'fast-json-patch';
 import { inject, injectable, named } from 'inversify';
 import * as URI from 'urijs';
 import { v4 as uuid } from 'uuid';
 
+import { ProviderGuard } from './provider-guard';
+import { createModelURIFilter } from './validation-provider-registry';
+
+export const TriggerOptions = Symbol('TriggerOptions');
+
+/**
+ * Configuration of the processing of triggers when committing a transaction.
+ */
+export interface TriggerOptions {
+    /**
+     * The maximal number of rounds of triggers, each responding to the changes performed by the previous round,
+     * that may be performed in committing a transaction before it is deemed to be a run-away and is rolled back.
+     */
+    maxDepth: number;
+}
+
+/** Default trigger processing options. */
+export const DEFAULT_TRIGGER_OPTIONS: TriggerOptions = { maxDepth: 32 };
+
+/**
+ * Triggers obtained from trigger providers.
+ */
+export interface ProvidedTriggers {
+    /** Descriptions of the trigger providers that contributed the `triggers`. */
+    providers: string[];
+    /** The triggered edits. */
+    triggers: Operation[] | Transaction;
+}
+
+/**
+ * Error rolling back a transaction in which triggers do not converge on a stable model,
+ * either because they exceeded the maximal trigger depth or because they cycled back to a previous change.
+ */
+export class TriggerLoopError extends Error {
+    /** A diagnostic describing the run-away triggers. */
+    readonly diagnostic: Diagnostic;
+
+    /**
+     * Initializes me.
+     *
+     * @param modelURI the model on which the triggers were run
+     * @param reason a description of how the triggers ran away
+     * @param providers descriptions of the trigger providers involved
+     */
+    constructor(readonly modelURI: URI, reason: string, readonly providers: string[]) {
+        super(`Triggers on ${modelURI} ${reason}. Trigger providers involved: ${providers.join(', ')}.`);
+        this.name = TriggerLoopError.name;
+        this.diagnostic = {
+            severity: ERROR,
+            message: this.message,
+            source: TriggerProviderRegistry.name,
+            code: 1,
+            data: [modelURI.toString(), ...providers],
+            children: [],
+            id: ''
+        };
+    }
+}
+
+/**
+ * Selection of the operations in a model delta that are relevant to a trigger provider.
+ *
+ * @returns the relevant operations, possibly none
+ */
+type TriggerProviderFilter = (modelURI: URI, patch: Operation[]) => Operation[];
+
+/** A trigger provider's registration. */
+interface TriggerProviderRegistration {
+    provider: TriggerProvider;
+    filter: TriggerProviderFilter;
+    priority: number;
+    options?: TriggerProviderRegistrationOptions;
+}
+
+/**
+ * Description of a registered trigger provider, for diagnostic purposes.
+ * Patterns in the registration options are described as strings.
+ */
+export interface TriggerProviderDescription {
+    /** The registration ID of the provider. */
+    id: string;
+    /** The class name of the provider, if it has one. */
+    provider?: string;
+    modelURI?: string;
+    path?: string;
+    priority: number;
+}
+
 /**
  * A registry of trigger providers from _Model Server_ plug-ins.
  */
@@ -24,19 +119,31 @@ export class TriggerProviderRegistry {
     @named(TriggerProviderRegistry.name)
     protected readonly logger: Logger;
 
-    protected providers: Map<string, TriggerProvider> = new Map();
+    @inject(ProviderGuard)
+    protected readonly guard: ProviderGuard;
+
+    protected providers: Map<string, TriggerProviderRegistration> = new Map();
 
     /**
      * Register a trigger provider.
      *
      * @param provider the trigger provider to register
+     * @param options registration options, for filtering and ordering
      * @returns the unique ID of the registered `provider`
      */
-    register(provider: TriggerProvider): string {
+    register(provider: TriggerProvider, options?: TriggerProviderRegistrationOptions): string {
         const id = uuid();
         this.logger.debug(`Registering trigger provider ${id}`);
 
-        this.providers.set(id, provider);
+        const matchModelURI = createModelURIFilter(options?.modelURI);
+        const selectOperations = createPathFilter(options?.path);
+
+        this.providers.set(id, {
+            provider,
+            filter: (modelURI, patch) => (matchModelURI(modelURI) ? selectOperations(patch) : []),
+            priority: options?.priority ?? 0,
+            options
+        });
         return id;
     }
 
@@ -50,8 +157,9 @@ export class TriggerProviderRegistry {
     unregister(id: string, provider: TriggerProvider): void {
         if (this.providers.has(id)) {
             const registered = this.providers.get(id);
-            if (registered === provider) {
+            if (registered.provider === provider) {
                 this.providers.delete(id);
+                this.guard.forget(provider);
             }
         }
     }
@@ -63,15 +171,39 @@ export class TriggerProviderRegistry {
         return this.providers.size > 0;
     }
 
+    /**
+     * Get the trigger providers that respond to a given `patch`, in order of priority.
+     * Providers registered with a `path` filter are adapted to see only the operations of the `patch` that match it.
+     *
+     * @param modelURI the URI of the model for which the `patch` describes changes
+     * @param patch a JSON Patch describing the model changes triggering side-effects
+     * @returns the matching providers
+     */
     getProviders(modelURI: URI, patch: Operation[]): TriggerProvider[] {
+        return this.getRegistrations(modelURI, patch).map(([_id, provider]) => provider);
+    }
+
+    /**
+     * Get the registrations of trigger providers that respond to a given `patch`, in order of priority.
+     * Providers that are disabled for repeated failure are omitted.
+     *
+     * @param modelURI the URI of the model for which the `patch` describes changes
+     * @param patch a JSON Patch describing the model changes triggering side-effects
+     * @returns the matching registrations as pairs of registration ID and trigger provider
+     */
+    protected getRegistrations(modelURI: URI, patch: Operation[]): [string, TriggerProvider][] {
         this.logger.debug('Looking up trigger providers for JSON Patch');
-        const result: TriggerProvider[] = [];
-        for (const provider of this.providers.values()) {
-            if (provider.canTrigger(modelURI, patch)) {
-                result.push(provider);
+        const result: [string, TriggerProvider, number][] = [];
+        for (const [id, { provider, filter, priority }] of this.providers.entries()) {
+            const relevant = filter(modelURI, patch);
+            if (relevant.length > 0 && this.guard.test(provider, this.describeGuarded(id), () => provider.canTrigger(modelURI, relevant))) {
+                result.push([id, relevant.length === patch.length ? provider : narrowTriggerProvider(provider, relevant), priority]);
             }
         }
-        return result;
+        // The sort is stable, so providers of equal priority remain in order of registration
+        return result
+            .sort(([_id1, _p1, priority1], [_id2, _p2, priority2]) => priority2 - priority1)
+            .map(([id, provider]) => [id, provider]);
     }
 
     /**
@@ -102,20 +234,132 @@ export class TriggerProviderRegistry {
      * @returns the provided trigger patch or transaction, if any
      */
     async getTriggers(modelURI: URI, patch: Operation[]): Promise<Operation[] | Transaction | undefined> {
-        let result: Operation[] | Transaction | undefined;
-        const provider = this.getProvider(modelURI, patch);
-        if (provider) {
-            this.logger.debug('Invoking trigger provider(s)');
-            result = await provider.getTriggers(modelURI, patch);
+        const provided = await this.getProvidedTriggers(modelURI, patch);
+        return provided?.triggers;
+    }
 
-            return result;
+    /**
+     * Obtain additional edits to forward to the _Model Server_ that are triggered by the given `patch`,
+     * together with the trigger providers that provided them.
+     *
+     * @param modelURI the URI of the model for which the `patch` describes changes
+     * @param patch the JSON Patch on which to trigger further changes
+     * @returns the provided triggers, if any
+     */
+    async getProvidedTriggers(modelURI: URI, patch: Operation[]): Promise<ProvidedTriggers | undefined> {
+        const registrations = this.getRegistrations(modelURI, patch);
+        const providers = registrations.map(([id, registered]) => this.guardTriggerProvider(id, registered));
+        let provider: TriggerProvider;
+        switch (providers.length) {
+            case 0:
+                // No triggered edits to perform
+                return undefined;
+            case 1:
+                provider = providers[0];
+                break;
+            default:
+                provider = multiTriggerProvider(providers);
+                break;
         }
 
-        // No triggered edits to perform
-        return undefined;
+        this.logger.debug('Invoking trigger provider(s)');
+        const triggers = await provider.getTriggers(modelURI, patch);
+        return { providers: registrations.map(([id]) => this.describeProvider(id)), triggers };
+    }
+
+    /**
+     * Describe the registered trigger providers for diagnostic purposes.
+     *
+     * @returns descriptions of the trigger providers, in order of registration
+     */
+    describeProviders(): TriggerProviderDescription[] {
+        return Array.from(this.providers.entries()).map(([id, { provider, priority, options }]) => ({
+            id,
+            provider: className(provider),
+            modelURI: options?.modelURI?.toString(),
+            path: options?.path?.toString(),
+            priority
+        }));
+    }
+
+    /**
+     * Guard the calls into a trigger provider and the transactions that it provides.
+     *
+     * @param id the provider's registration ID
+     * @param provider the trigger provider to guard, possibly an adapter of the registered provider to which failures are attributed
+     * @returns the guarded trigger provider
+     */
+    protected guardTriggerProvider(id: string, provider: TriggerProvider): TriggerProvider {
+        const registered = this.providers.get(id)?.provider ?? provider;
+        const description = this.describeGuarded(id);
+        return {
+            canTrigger: (modelURI: URI, modelDelta: Operation[]) =>
+                this.guard.test(registered, description, () => provider.canTrigger(modelURI, modelDelta)),
+            getTriggers: async (modelURI: URI, modelDelta: Operation[]) => {
+                const triggers = await this.guard.invoke(registered, description, () => provider.getTriggers(modelURI, modelDelta));
+                return typeof triggers === 'function' ? this.guard.guardTransaction(registered, description, triggers) : triggers;
+            }
+        };
+    }
+
+    /**
+     * Describe a registered trigger provider for diagnostic purposes.
+     *
+     * @param id the provider's registration ID
+     * @returns a description of the trigger provider
+     */
+    protected describeProvider(id: string): string {
+        const name = className(this.providers.get(id)?.provider);
+        return name ? `${name} (${id})` : id;
+    }
+
+    /**
+     * Describe a registered trigger provider for the reporting of its failures.
+     *
+     * @param id the provider's registration ID
+     * @returns a description of the trigger provider
+     */
+    protected describeGuarded(id: string): string {
+        return `Trigger provider ${this.describeProvider(id)}`;
     }
 }
 
+/**
+ * Obtain the name of the class of a provider, if it is not a plain object.
+ */
+export function className(provider?: object): string | undefined {
+    const result = provider?.constructor?.name;
+    return result && result !== Object.name ? result : undefined;
+}
+
+function createPathFilter(filter?: string | RegExp): (patch: Operation[]) => Operation[] {
+    if (!filter) return patch => patch;
+
+    let matchPath: (path: string) => boolean;
+    if (typeof filter === 'string') {
+        const prefix = filter.endsWith('/') ? filter : filter + '/';
+        matchPath = path => path === filter || path.startsWith(prefix);
+    } else {
+        matchPath = path => filter.test(path);
+    }
+
+    return patch => patch.filter(op => matchPath(op.path) || ('from' in op && matchPath(op.from)));
+}
+
+/**
+ * Adapt a trigger provider to see only the operations of a model delta that are relevant to it.
+ *
+ * @param provider the trigger provider to adapt
+ * @param relevant the operations of the model delta that it may see
+ * @returns the adapted trigger provider
+ */
+function narrowTriggerProvider(provider: TriggerProvider, relevant: Operation[]): TriggerProvider {
+    return {
+        canTrigger: (modelURI: URI) => provider.canTrigger(modelURI, relevant),
+        getTriggers: (modelURI: URI) => provider.getTriggers(modelURI, relevant)
+    };
+}
+
 /**
  * Aggregate multiple trigger providers into one.
  *
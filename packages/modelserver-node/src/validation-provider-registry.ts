@@ -9,16 +9,33 @@
  * SPDX-License-Identifier: EPL-2.0 OR MIT
  *******************************************************************************/
 
-import { Diagnostic, ModelServerObjectV2, OK } from '@eclipse-emfcloud/modelserver-client';
+import { Diagnostic, ERROR, ModelServerObjectV2, OK } from '@eclipse-emfcloud/modelserver-client';
 import { Logger, ValidationProvider, ValidationProviderRegistrationOptions } from '@eclipse-emfcloud/modelserver-plugin-ext';
-import { inject, injectable, named } from 'inversify';
+import { inject, injectable, named, postConstruct } from 'inversify';
 import * as URI from 'urijs';
 import { v4 as uuid } from 'uuid';
 
+import { ProviderGuard } from './provider-guard';
+import { HistogramMetric, MetricsRegistry } from './services/metrics';
+import { className } from './trigger-provider-registry';
+
 type ValidationProviderFilter = (model: ModelServerObjectV2, modelURI: URI) => boolean;
 
 export type Validator = (model: ModelServerObjectV2, modelURI: URI) => Promise<Diagnostic>;
 
+/**
+ * Description of a registered validation provider, for diagnostic purposes.
+ * Patterns in the registration options are described as strings.
+ */
+export interface ValidationProviderDescription {
+    /** The registration ID of the provider. */
+    id: string;
+    /** The class name of the provider, if it has one. */
+    provider?: string;
+    modelURI?: string;
+    modelType?: string;
+}
+
 /**
  * A registry of validation providers from _Model Server_ plug-ins.
  */
@@ -28,7 +45,27 @@ export class ValidationProviderRegistry {
     @named(ValidationProviderRegistry.name)
     protected readonly logger: Logger;
 
-    protected providers: Map<string, { provider: ValidationProvider; filter: ValidationProviderFilter }> = new Map();
+    @inject(ProviderGuard)
+    protected readonly guard: ProviderGuard;
+
+    @inject(MetricsRegistry)
+    protected readonly metrics: MetricsRegistry;
+
+    protected validationDuration: HistogramMetric;
+
+    protected providers: Map<
+        string,
+        { provider: ValidationProvider; filter: ValidationProviderFilter; options?: ValidationProviderRegistrationOptions }
+    > = new Map();
+
+    @postConstruct()
+    protected initializeMetrics(): void {
+        this.validationDuration = this.metrics.histogram({
+            name: 'modelserver_validation_duration_seconds',
+            help: 'Duration of validation of models by validation providers, by plug-in and provider.',
+            labelNames: ['plugin', 'provider']
+        });
+    }
 
     /**
      * Register a validation provider.
@@ -45,7 +82,8 @@ export class ValidationProviderRegistry {
 
         this.providers.set(id, {
             provider,
-            filter: (model, modelURI) => matchModelObject(model) && matchModelURI(modelURI)
+            filter: (model, modelURI) => matchModelObject(model) && matchModelURI(modelURI),
+            options
         });
 
         return id;
@@ -63,6 +101,7 @@ export class ValidationProviderRegistry {
             const registered = this.providers.get(id);
             if (registered.provider === provider) {
                 this.providers.delete(id);
+                this.guard.forget(provider);
             }
         }
     }
@@ -86,16 +125,43 @@ export class ValidationProviderRegistry {
         return result;
     }
 
+    /**
+     * Describe the registered validation providers for diagnostic purposes.
+     *
+     * @returns descriptions of the validation providers, in order of registration
+     */
+    describeProviders(): ValidationProviderDescription[] {
+        return Array.from(this.providers.entries()).map(([id, { provider, options }]) => ({
+            id,
+            provider: className(provider),
+            modelURI: options?.modelURI?.toString(),
+            modelType: options?.modelType?.toString()
+        }));
+    }
+
+    /**
+     * Get a validator for a `model`. Validation providers that are disabled for repeated failure are omitted
+     * and the failure of any other provider is reported as an error diagnostic attributed to it.
+     *
+     * @param model the model to validate
+     * @param modelURI its resource URI
+     * @returns the validator
+     */
     getValidator(model: ModelServerObjectV2, modelURI: URI): Validator | undefined {
         this.logger.debug(`Looking up provider for validation of ${modelURI}`);
-        const providers = this.getProviders(model, modelURI);
-        switch (providers.length) {
+        const validators: Validator[] = [];
+        this.providers.forEach((next, id) => {
+            if (!this.guard.isDisabled(next.provider) && next.filter(model, modelURI)) {
+                validators.push(this.guardValidator(id, next.provider));
+            }
+        });
+        switch (validators.length) {
             case 0:
                 return () => Promise.resolve(Diagnostic.ok());
             case 1:
-                return providers[0].validate.bind(providers[0]);
+                return validators[0];
             default:
-                return multiValidator(providers);
+                return multiValidator(validators);
         }
     }
 
@@ -110,23 +176,66 @@ export class ValidationProviderRegistry {
         const validator = this.getValidator(model, modelURI);
         return validator(model, modelURI);
     }
+
+    /**
+     * Guard the validation of a model by a validation provider.
+     *
+     * @param id the provider's registration ID
+     * @param provider the validation provider
+     * @returns a validator that reports the failure of the provider as an error diagnostic
+     */
+    protected guardValidator(id: string, provider: ValidationProvider): Validator {
+        const name = className(provider);
+        const description = `Validation provider ${name ? `${name} (${id})` : id}`;
+
+        return async (model: ModelServerObjectV2, modelURI: URI) => {
+            const endTimer = this.validationDuration.startTimer({ plugin: this.guard.ownerOf(provider) ?? '', provider: name ?? id });
+            try {
+                return await this.guard.invoke(provider, description, () => provider.validate(model, modelURI));
+            } catch (error) {
+                return {
+                    severity: ERROR,
+                    message: error instanceof Error ? error.message : String(error),
+                    source: this.guard.ownerOf(provider) ?? description,
+                    code: 1,
+                    data: [modelURI.toString()],
+                    children: [],
+                    id: model.$id ?? '/'
+                };
+            } finally {
+                endTimer();
+            }
+        };
+    }
 }
 
-function createModelTypeFilter(filter?: string | RegExp): (model: ModelServerObjectV2) => boolean {
+/**
+ * Create a filter matching models by their `$type`.
+ *
+ * @param filter the type to match exactly, or a pattern to match, or absent to match all models
+ * @returns the model type filter
+ */
+export function createModelTypeFilter(filter?: string | RegExp): (model: ModelServerObjectV2) => boolean {
     if (!filter) return () => true;
     if (typeof filter === 'string') return model => model.$type === filter;
     return model => filter.test(model.$type);
 }
 
-function createModelURIFilter(filter?: string | RegExp): (modelURI: URI) => boolean {
+/**
+ * Create a filter matching models by their URI.
+ *
+ * @param filter a substring or pattern to match in the URI, or absent to match all models
+ * @returns the model URI filter
+ */
+export function createModelURIFilter(filter?: string | RegExp): (modelURI: URI) => boolean {
     if (!filter) return () => true;
     if (typeof filter === 'string') return modelURI => modelURI.toString().includes(filter);
     return modelURI => filter.test(modelURI.toString());
 }
 
-function multiValidator(providers: ValidationProvider[]): Validator {
+function multiValidator(validators: Validator[]): Validator {
     return async (model: ModelServerObjectV2, modelURI: URI) => {
-        const diagnostics = await Promise.all(providers.map(v => v.validate(model, modelURI)));
+        const diagnostics = await Promise.all(validators.map(v => v(model, modelURI)));
         return summarize(model, modelURI, diagnostics);
     };
 }
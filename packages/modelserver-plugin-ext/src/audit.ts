@@ -0,0 +1,51 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { Operation } from 'fast-json-patch';
+
+import { MaybePromise } from './util';
+
+/**
+ * The kinds of change to a model that are recorded in the audit log.
+ */
+export type AuditOperation = 'create' | 'update' | 'delete' | 'edit' | 'undo' | 'redo';
+
+/**
+ * A record in the audit log of a change made to a model.
+ */
+export interface AuditRecord {
+    /** The URI of the model that was changed. */
+    modelURI: string;
+    /** The time at which the change was made, as an ISO 8601 string. */
+    timestamp: string;
+    /** The identity of the caller that requested the change, if it is known. */
+    user?: string;
+    /** The kind of change. */
+    operation: AuditOperation;
+    /** For an edit by command, the type of the originating command. */
+    commandType?: string;
+    /** A JSON Patch describing the resulting change to the model, where available. */
+    patch?: Operation[];
+}
+
+/**
+ * Protocol for a destination of audit records that may be registered by a _Model Server_ plug-in,
+ * for example to forward the audit log to some external store.
+ */
+export interface AuditSink {
+    /**
+     * Record a change to a model. A sink that fails to record an entry does not
+     * affect the outcome of the change, nor the recording of it by other sinks.
+     *
+     * @param entry the audit record
+     */
+    record(entry: AuditRecord): MaybePromise<void>;
+}
@@ -0,0 +1,48 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+import { Request } from 'express';
+
+import { MaybePromise } from './util';
+
+/**
+ * The authenticated identity of a caller of the _Model Server_.
+ */
+export interface Principal {
+    /** The unique identity of the caller, for example a user name. This is the user recorded in the audit log. */
+    id: string;
+    /** A human-readable name of the caller, if known. */
+    name?: string;
+    /** The roles granted to the caller, if any. */
+    roles?: string[];
+    /** How the caller was authenticated, for example `token` or `jwt`. */
+    scheme: string;
+    /** Further claims about the caller, such as those of a JSON Web Token, if any. */
+    claims?: Record<string, unknown>;
+}
+
+export const Authenticator = Symbol('Authenticator');
+
+/**
+ * Protocol for an authenticator of the callers of the _Model Server_ that may be bound by a plug-in, in addition
+ * to the built-in authenticators of static API tokens and JSON Web Tokens. When any authenticator is available,
+ * every request must be authenticated by one of them.
+ */
+export interface Authenticator {
+    /**
+     * Authenticate an incoming request, usually by the credentials in its `Authorization` header.
+     *
+     * @param request the incoming request
+     * @returns the authenticated caller, or `undefined` if the request does not carry credentials that this authenticator recognizes
+     *
+     * @throws if the request carries credentials that this authenticator recognizes but that are not valid, such as an expired token
+     */
+    authenticate(request: Request): MaybePromise<Principal | undefined>;
+}
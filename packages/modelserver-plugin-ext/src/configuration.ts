@@ -0,0 +1,33 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { MaybePromise } from './util';
+
+/**
+ * A JSON Schema describing the configuration settings of a plug-in, with their default values.
+ */
+export type ConfigurationSchema = Record<string, unknown>;
+
+/**
+ * Notification of a change to the configuration of a plug-in in the server's configuration file.
+ */
+export interface ConfigurationChangeEvent<T = Record<string, unknown>> {
+    /** The ID of the plug-in whose configuration changed. */
+    pluginId: string;
+    /** The new configuration of the plug-in, validated against and completed by its schema, if any. */
+    configuration: T;
+}
+
+/**
+ * An observer of changes to the configuration of a plug-in while the server is running.
+ * A listener is not notified of configuration changes that are invalid according to the plug-in's schema.
+ */
+export type ConfigurationChangeListener<T = Record<string, unknown>> = (event: ConfigurationChangeEvent<T>) => MaybePromise<void>;
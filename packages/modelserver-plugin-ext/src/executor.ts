@@ -13,6 +13,8 @@ import { ModelServerCommand, ModelUpdateResult } from '@eclipse-emfcloud/modelse
 import { Operation } from 'fast-json-patch';
 import * as URI from 'urijs';
 
+import { Principal } from './authentication';
+
 /**
  * Protocol of a context in which commands may be executed and JSON patches applied.
  * This context is transactional: commands/patches are executed/applied on the target model and results returned
@@ -38,6 +40,16 @@ export interface Executor {
      *   the original `patch` as the server may have additional side-effects
      */
     applyPatch(patch: Operation | Operation[]): Promise<ModelUpdateResult>;
+
+    /**
+     * Obtain the authenticated caller on whose behalf the model is being edited, for example to stamp
+     * the authorship of changes.
+     *
+     * Executors provided by older versions of the _Model Server_ may not implement this.
+     *
+     * @returns the caller, or `undefined` if it is not known, as when the server does not authenticate requests
+     */
+    getPrincipal?(): Principal | undefined;
 }
 
 /**
@@ -9,9 +9,14 @@
  * SPDX-License-Identifier: EPL-2.0 OR MIT
  *******************************************************************************/
 
+export * from './audit';
+export * from './authentication';
 export * from './command-provider';
+export * from './configuration';
 export * from './executor';
 export * from './logger';
+export * from './metrics';
+export * from './model-change';
 export * from './model-server-client';
 export * from './model-service';
 export * from './plugin';
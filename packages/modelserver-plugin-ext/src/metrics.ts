@@ -0,0 +1,44 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+/**
+ * Values of the labels of a metric, by label name.
+ */
+export type MetricLabels = Record<string, string | number>;
+
+/**
+ * Options for registration of a metric.
+ */
+export interface MetricOptions {
+    /**
+     * The name of the metric, which must be unique in the _Model Server_ and must conform to the
+     * Prometheus metric naming rules. For example, `myplugin_widgets_created_total`.
+     */
+    name: string;
+    /** A description of what the metric measures. */
+    help: string;
+    /** The names of the labels that distinguish the samples of the metric, if any. */
+    labelNames?: string[];
+}
+
+/**
+ * A metric that counts occurrences of something, for example of requests handled or of errors.
+ * Its value only ever increases.
+ */
+export interface Counter {
+    /**
+     * Increment the counter.
+     *
+     * @param labels the values of the labels of the sample to increment, if the counter has labels
+     * @param value the amount by which to increment the counter, which must not be negative. Defaults to one
+     */
+    inc(labels?: MetricLabels, value?: number): void;
+}
@@ -0,0 +1,45 @@
+/********************************************************************************
+ * Copyright (c) 2022 STMicroelectronics.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * https://www.eclipse.org/legal/epl-2.0, or the MIT License which is
+ * available at https://opensource.org/licenses/MIT.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR MIT
+ *******************************************************************************/
+
+import { ModelUpdateResult } from '@eclipse-emfcloud/modelserver-client';
+import * as URI from 'urijs';
+
+import { AuditOperation } from './audit';
+import { MaybePromise } from './util';
+
+/**
+ * The kinds of change to a model that are reported to model change listeners: changes to its content
+ * and the persistence of the model.
+ */
+export type ModelChangeKind = AuditOperation | 'save' | 'close';
+
+/**
+ * Notification of a change to a model, reported after the change is completed.
+ */
+export interface ModelChangeEvent {
+    /** The URI of the model that changed. */
+    modelURI: URI;
+    /** The kind of change. */
+    kind: ModelChangeKind;
+    /**
+     * For a change to the content of the model, the final result of the change. For an edit,
+     * this includes the changes performed by triggers.
+     */
+    result?: ModelUpdateResult;
+}
+
+/**
+ * A read-only observer of changes to models that may be registered by a _Model Server_ plug-in,
+ * for example to maintain a search index or to send notifications. Listeners are notified after
+ * the change is completed and cannot influence it; a listener that fails affects neither the
+ * change nor the notification of other listeners.
+ */
+export type ModelChangeListener = (event: ModelChangeEvent) => MaybePromise<void>;
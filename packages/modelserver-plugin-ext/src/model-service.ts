@@ -13,6 +13,8 @@ import { AnyObject, Diagnostic, Format, ModelServerCommand, ModelUpdateResult, T
 import { Operation } from 'fast-json-patch';
 import * as URI from 'urijs';
 
+import { Principal } from './authentication';
+
 export const ModelServiceFactory = Symbol('ModelServiceFactory');
 export const ModelService = Symbol('ModelService');
 
@@ -83,6 +85,18 @@ export interface ModelService {
      */
     edit(command: ModelServerCommand): Promise<ModelUpdateResult>;
 
+    /**
+     * Preview the changes that a JSON patch or command would make to my model, including side-effects
+     * such as triggers contributed by plug-ins in the host server, without actually changing the model.
+     * The edit is performed in a transaction that is then rolled back, so nothing is added to the undo stack.
+     *
+     * _Note_ that an edit cannot be previewed while a {@link openTransaction transaction} is open on my model.
+     *
+     * @param patchOrCommand the JSON patch to apply or command to execute on the model
+     * @returns the result that the model edit would have, including any consequent triggers, if applicable
+     */
+    preview(patchOrCommand: Operation | Operation[] | ModelServerCommand): Promise<ModelUpdateResult>;
+
     /**
      * Undo the last change made to my model.
      *
@@ -103,7 +117,8 @@ export interface ModelService {
      * may be nested: if a transaction is already open on some model, a nested transaction may
      * be opened that commits into the context of the parent transaction. All changes performed
      * in the context of a top-level transaction are collected into an atomic change on the
-     * undo stack.
+     * undo stack. A transaction opened while some other client is editing the model is not
+     * nested but waits its turn.
      *
      * @returns the new transaction
      */
@@ -147,6 +162,15 @@ export interface ModelService {
      * @returns whether the deletion succeeded. If `true` then the model state is guaranteed not to be persistent
      */
     delete(): Promise<boolean>;
+
+    /**
+     * Obtain the authenticated caller of the request on whose behalf my model is being accessed, for example
+     * to stamp the authorship of changes.
+     *
+     * @returns the caller, or `undefined` if it is not known, as when the server does not authenticate requests
+     *    or my model is accessed other than in handling a request
+     */
+    getPrincipal?(): Principal | undefined;
 }
 
 /**
@@ -9,7 +9,11 @@
  * SPDX-License-Identifier: EPL-2.0 OR MIT
  *******************************************************************************/
 
+import { AuditSink } from './audit';
 import { CommandProvider } from './command-provider';
+import { ConfigurationChangeListener, ConfigurationSchema } from './configuration';
+import { Counter, MetricOptions } from './metrics';
+import { ModelChangeListener } from './model-change';
 import { TriggerProvider } from './trigger-provider';
 import { MaybePromise } from './util';
 import { ValidationProvider } from './validation-provider';
@@ -50,11 +54,13 @@ export interface ModelServerPluginContext {
 
     /**
      * Register a provider of triggers.
+     * If no `options` are specified, then the provider will be consulted for all changes to all models.
      *
      * @param provider the trigger provider to register
+     * @param options registration options, for filtering and ordering
      * @returns a registration token to use to cancel the registration when appropriate
      */
-    registerTriggerProvider(provider: TriggerProvider): Registration<string, TriggerProvider>;
+    registerTriggerProvider(provider: TriggerProvider, options?: TriggerProviderRegistrationOptions): Registration<string, TriggerProvider>;
 
     /**
      * Register a provider of custom model validation rules.
@@ -68,6 +74,63 @@ export interface ModelServerPluginContext {
         provider: ValidationProvider,
         options?: ValidationProviderRegistrationOptions
     ): Registration<string, ValidationProvider>;
+
+    /**
+     * Register a sink to which to send the records of the audit log of changes to models.
+     *
+     * @param sink the audit sink
+     * @returns a registration token to use to cancel the registration when appropriate
+     */
+    registerAuditSink(sink: AuditSink): Registration<string, AuditSink>;
+
+    /**
+     * Register a listener to be notified of changes to models after they are completed: edits, including
+     * transactions, when they are committed, and undo, redo, save, close, creation, update, and deletion.
+     * Unlike a trigger provider, the listener cannot change the model and does not delay the change.
+     *
+     * @param modelURI a substring or pattern to match in the URIs of models of which the listener is notified.
+     *    An empty string matches all models
+     * @param listener the model change listener
+     * @returns a registration token to use to cancel the registration when appropriate
+     */
+    onModelChanged(modelURI: string | RegExp, listener: ModelChangeListener): Registration<string, ModelChangeListener>;
+
+    /**
+     * Obtain the configuration settings of a plug-in from its section of the server's configuration file.
+     * If a `schema` is given, then the settings are validated against it and settings that are not
+     * configured take the defaults that it specifies. The schema is retained to validate subsequent
+     * changes to the configuration.
+     *
+     * @param pluginId the ID of the plug-in whose configuration to get
+     * @param schema an optional JSON Schema describing the configuration settings
+     * @returns the configuration settings, which are empty if the plug-in has no configuration section
+     *
+     * @throws if the configuration does not conform to the `schema`
+     */
+    getConfiguration<T = Record<string, unknown>>(pluginId: string, schema?: ConfigurationSchema): T;
+
+    /**
+     * Register a listener to be notified when the configuration of a plug-in changes in the server's
+     * configuration file while the server is running.
+     *
+     * @param pluginId the ID of the plug-in whose configuration changes to listen for
+     * @param listener the configuration change listener
+     * @returns a registration token to use to cancel the registration when appropriate
+     */
+    onConfigurationChanged<T = Record<string, unknown>>(
+        pluginId: string,
+        listener: ConfigurationChangeListener<T>
+    ): Registration<string, ConfigurationChangeListener<T>>;
+
+    /**
+     * Register a counter to be exposed with the _Model Server_'s own metrics on its `/metrics` endpoint.
+     *
+     * @param options the name, description, and labels of the counter
+     * @returns a registration token providing the counter, which is removed from the metrics when it is unregistered
+     *
+     * @throws if a metric of the same name is already registered
+     */
+    registerCounter(options: MetricOptions): Registration<string, Counter>;
 }
 
 export const ModelServerPlugin = Symbol('ModelServerPlugin');
@@ -76,6 +139,18 @@ export const ModelServerPlugin = Symbol('ModelServerPlugin');
  * A plug-in that extends the _Model Server_ with custom business logic.
  */
 export interface ModelServerPlugin {
+    /**
+     * Optional unique identifier of the plug-in, by which other plug-ins may depend on it.
+     * If omitted, the plug-in is identified by the name of its class.
+     */
+    readonly id?: string;
+
+    /**
+     * Optional identifiers of other plug-ins on which this plug-in depends. The plug-in is initialized after
+     * all of them are initialized and it is skipped if any of them is missing or fails to initialize.
+     */
+    readonly dependsOn?: string[];
+
     /**
      * Optional call-back for a plug-in to initialize itself in the given server `context`.
      *
@@ -84,6 +159,13 @@ export interface ModelServerPlugin {
      *     if it did not initialize and should not participate in the server
      */
     initialize?(context: ModelServerPluginContext): MaybePromise<boolean>;
+
+    /**
+     * Optional call-back for a plug-in to release resources that it acquired when it is unloaded or the server stops.
+     * The services that the plug-in registered through its `context` are unregistered automatically after it is
+     * disposed. A plug-in that is reloaded is initialized again after it was disposed.
+     */
+    dispose?(): MaybePromise<void>;
 }
 
 /**
@@ -95,3 +177,22 @@ export interface ValidationProviderRegistrationOptions {
     /** A pattern to match the `$type` of `ModelServerObject` for which the provider will be invoked. */
     modelType?: string | RegExp;
 }
+
+/**
+ * Options for registration of a trigger provider.
+ */
+export interface TriggerProviderRegistrationOptions {
+    /** A pattern to match model URIs for which the provider will be invoked. */
+    modelURI?: string | RegExp;
+    /**
+     * A pattern to match the JSON Pointer `path` (or `from`) of operations in the model delta for which the provider
+     * will be invoked. A string matches the pointer to that location in the model and every location nested within it.
+     * The provider is only shown the operations of the model delta that match.
+     */
+    path?: string | RegExp;
+    /**
+     * The priority of the provider. Providers of higher priority are invoked before providers of lower priority and
+     * providers of equal priority are invoked in the order of their registration. The default priority is zero.
+     */
+    priority?: number;
+}